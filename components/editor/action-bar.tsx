@@ -2,11 +2,15 @@
  * ActionBar 组件
  * 
  * 这个组件实现了主题编辑器顶部的操作工具栏，提供了以下功能：
- * 1. 切换亮色/暗色模式
+ * 1. 切换亮色/暗色模式，以及管理和切换命名模式
  * 2. 检查颜色对比度
  * 3. 导入自定义CSS变量
  * 4. 重置主题到预设默认值
  * 5. 查看生成的主题代码
+ * 6. 撤销/重做主题编辑(同时支持 Ctrl/Cmd+Z 与 Shift+Ctrl/Cmd+Z 快捷键)
+ * 7. 复制包含完整主题的分享链接
+ * 8. 从一个模式的配色自动派生另一个模式(预览后替换)
+ * 9. 导入DTCG / Tokens Studio格式的设计令牌
  * 
  * 操作栏采用了简洁的设计风格，在移动端隐藏部分按钮文字标签，只显示图标，
  * 同时通过Tooltip提供操作提示，提高用户体验。
@@ -17,10 +21,26 @@
 // 导入必要的依赖
 import { useEditorStore } from "@/store/editor-store"; // 引入主题编辑器状态管理
 import { Button } from "../ui/button"; // 引入按钮UI组件
-import { FileCode, RefreshCw, Code, Moon, Sun } from "lucide-react"; // 引入图标
+import {
+  FileCode,
+  RefreshCw,
+  Code,
+  Moon,
+  Sun,
+  Undo2,
+  Redo2,
+  Link,
+  Blend,
+  FileJson,
+} from "lucide-react"; // 引入图标
 import CssImportDialog from "./css-import-dialog"; // 引入CSS导入对话框组件
 import { useState } from "react"; // 引入React状态钩子
-import { parseCssInput } from "@/utils/parse-css-input"; // 引入CSS解析工具
+import {
+  CssImportOptions,
+  CssImportResult,
+  applyCssImport,
+  getCssImportChanges,
+} from "@/utils/parse-css-input"; // 引入CSS导入的差异和应用工具
 import { toast } from "../ui/use-toast"; // 引入提示通知组件
 import { CodePanelDialog } from "./code-panel-dialog"; // 引入代码面板对话框组件
 import { Separator } from "../ui/separator"; // 引入分隔符组件
@@ -28,6 +48,19 @@ import * as SwitchPrimitives from "@radix-ui/react-switch"; // 引入开关组
 import { useTheme } from "../theme-provider"; // 引入主题上下文
 import ContrastChecker from "./contrast-checker"; // 引入对比度检查组件
 import { Tooltip, TooltipContent, TooltipTrigger } from "../ui/tooltip"; // 引入提示工具组件
+import { useUndoRedoShortcuts } from "@/hooks/use-undo-redo-shortcuts"; // 引入撤销/重做快捷键
+import { getThemeShareUrl } from "@/utils/theme-share"; // 引入分享链接生成工具
+import { mergeCustomVariables } from "@/utils/custom-variables"; // 引入自定义变量合并工具
+import DeriveModeDialog from "./derive-mode-dialog"; // 引入明暗模式派生对话框组件
+import { ThemeStyles } from "@/types/theme"; // 引入主题样式类型
+import TokenImportDialog from "./token-import-dialog"; // 引入设计令牌导入对话框组件
+import { TokenImportResult } from "@/utils/parse-design-tokens"; // 引入设计令牌导入结果类型
+import ThemeModeManager from "./theme-mode-manager"; // 引入命名模式管理组件
+import {
+  getModeScheme,
+  getModeStyles,
+  getNamedModes,
+} from "@/utils/theme-modes"; // 引入命名模式工具
 
 /**
  * ActionBar组件 - 主题编辑器的顶部操作栏
@@ -41,42 +74,124 @@ export function ActionBar() {
     resetToCurrentPreset,    // 重置为当前预设的方法
     setThemeState,           // 更新主题状态的方法
     hasCurrentPresetChanged, // 检查当前预设是否被修改过的方法
+    undo,                    // 撤销上一次编辑的方法
+    redo,                    // 重做被撤销编辑的方法
+    canUndo,                 // 检查是否可以撤销的方法
+    canRedo,                 // 检查是否可以重做的方法
   } = useEditorStore();
+
+  // 注册全局的撤销/重做快捷键
+  useUndoRedoShortcuts();
   
   // 控制CSS导入对话框的显示状态
   const [cssImportOpen, setCssImportOpen] = useState(false);
   // 控制代码面板对话框的显示状态
   const [codePanelOpen, setCodePanelOpen] = useState(false);
+  // 控制设计令牌导入对话框的显示状态
+  const [tokenImportOpen, setTokenImportOpen] = useState(false);
+  // 控制明暗模式派生对话框的显示状态
+  const [deriveModeOpen, setDeriveModeOpen] = useState(false);
 
   /**
    * 处理CSS导入的函数
    * 
-   * @param css - 用户输入的CSS字符串
+   * @param result - 对话框中解析出的CSS导入结果
+   * @param options - 用户选择的应用方式(合并或替换)和不导入的属性
+   * 
+   * 这个函数会按用户的选择把解析出的变量应用到当前主题中，
+   * 并在提示中说明改动了多少个属性
+   */
+  const handleCssImport = (
+    result: CssImportResult,
+    options: CssImportOptions
+  ) => {
+    const changedCount = getCssImportChanges(
+      result,
+      themeState.styles,
+      options.replace
+    ).filter((change) => !options.rejected.includes(change.name)).length;
+
+    // 更新主题状态
+    setThemeState({
+      ...themeState,
+      styles: applyCssImport(result, themeState.styles, options),
+    });
+
+    // 显示导入成功的提示消息
+    toast({
+      title: options.replace ? "Theme replaced" : "CSS imported",
+      description: `${changedCount} token${changedCount === 1 ? "" : "s"} changed${
+        result.report.invalid.length
+          ? `, ${result.report.invalid.length} invalid skipped`
+          : ""
+      }`,
+    });
+  };
+
+  /**
+   * 复制分享链接的函数
    * 
-   * 这个函数会解析用户输入的CSS，提取出亮色和暗色模式的颜色变量，
-   * 然后合并到当前主题中，并显示成功提示
+   * 把当前的完整主题编码进URL并复制到剪贴板，
+   * 收到链接的人打开后会看到完全相同的主题
+   */
+  const handleCopyShareLink = async () => {
+    try {
+      const url = getThemeShareUrl(themeState, window.location.href);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Share link copied",
+        description: "Anyone with the link can open this exact theme",
+      });
+    } catch (err) {
+      console.error("Failed to copy share link:", err);
+    }
+  };
+
+  /**
+   * 处理设计令牌导入的函数
+   *
+   * @param result - 按用户确认的映射生成的导入结果
+   *
+   * 与CSS导入一样合并到当前主题中；没有映射的令牌会在提示消息中告诉用户
    */
-  const handleCssImport = (css: string) => {
-    // 解析CSS输入，提取亮色和暗色模式的颜色变量
-    const { lightColors, darkColors } = parseCssInput(css);
-    
-    // 合并解析出的颜色变量到当前主题样式中
+  const handleTokenImport = (result: TokenImportResult) => {
+    const { lightColors, darkColors, customVariables, unmapped } = result;
+
     const styles = {
       ...themeState.styles,
-      light: { ...themeState.styles.light, ...lightColors }, // 合并亮色模式颜色
-      dark: { ...themeState.styles.dark, ...darkColors },    // 合并暗色模式颜色
+      light: { ...themeState.styles.light, ...lightColors },
+      dark: { ...themeState.styles.dark, ...darkColors },
     };
+    if (customVariables.length > 0) {
+      styles.customVariables = mergeCustomVariables(
+        themeState.styles.customVariables,
+        customVariables
+      );
+    }
 
-    // 更新主题状态
     setThemeState({
       ...themeState,
       styles,
     });
 
-    // 显示导入成功的提示消息
     toast({
-      title: "CSS imported",
-      description: "Your custom CSS has been imported successfully",
+      title: "Design tokens imported",
+      description:
+        unmapped.length > 0
+          ? `${unmapped.length} unmapped token(s) were not imported`
+          : "All tokens were imported successfully",
+    });
+  };
+
+  /**
+   * 应用派生出的配色
+   * 通过setThemeState更新，所以替换后可以撤销
+   */
+  const handleApplyDerivedMode = (styles: ThemeStyles) => {
+    setThemeState({ ...themeState, styles });
+    toast({
+      title: "Mode derived",
+      description: "The colors were replaced with the derived palette",
     });
   };
 
@@ -124,18 +239,60 @@ export function ActionBar() {
                   </SwitchPrimitives.Thumb>
                 </SwitchPrimitives.Root>
               </TooltipTrigger>
-              <TooltipContent>Toggle light/dark mode</TooltipContent>
+              <TooltipContent>
+                {getNamedModes(themeState.styles).length > 0
+                  ? "Cycle through modes"
+                  : "Toggle light/dark mode"}
+              </TooltipContent>
             </Tooltip>
           </div>
+
+          {/* 命名模式管理 - 添加、删除和切换 light/dark 之外的模式 */}
+          <ThemeModeManager />
           
           {/* 垂直分隔线 */}
           <Separator orientation="vertical" className="h-8" />
           
           {/* 颜色对比度检查工具 - 帮助用户确保颜色搭配符合可访问性标准 */}
           <ContrastChecker
-            currentStyles={themeState.styles[themeState.currentMode]} // 传递当前模式的样式到对比度检查组件
+            currentStyles={getModeStyles(themeState.styles, themeState.currentMode)} // 传递当前模式的样式到对比度检查组件
           />
           
+          {/* 撤销按钮 - 撤销上一次主题编辑 */}
+          <Tooltip>
+            <TooltipTrigger>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                onClick={undo} // 点击撤销
+                disabled={!canUndo()} // 没有历史记录时禁用
+              >
+                <Undo2 className="size-3.5" /> {/* 撤销图标 */}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Undo (Ctrl/Cmd+Z)</TooltipContent>
+          </Tooltip>
+
+          {/* 重做按钮 - 重做被撤销的编辑 */}
+          <Tooltip>
+            <TooltipTrigger>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                onClick={redo} // 点击重做
+                disabled={!canRedo()} // 没有可重做的记录时禁用
+              >
+                <Redo2 className="size-3.5" /> {/* 重做图标 */}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Redo (Shift+Ctrl/Cmd+Z)</TooltipContent>
+          </Tooltip>
+
+          {/* 垂直分隔线 */}
+          <Separator orientation="vertical" className="h-8" />
+
           {/* CSS导入按钮 */}
           <Tooltip>
             <TooltipTrigger>
@@ -150,9 +307,43 @@ export function ActionBar() {
                 <span className="text-sm hidden md:block">Import</span>
               </Button>
             </TooltipTrigger>
-            <TooltipContent>Import CSS variables</TooltipContent>
+            <TooltipContent>Import CSS variables or a registry item</TooltipContent>
           </Tooltip>
           
+          {/* 设计令牌导入按钮 */}
+          <Tooltip>
+            <TooltipTrigger>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                onClick={() => setTokenImportOpen(true)} // 点击打开设计令牌导入对话框
+              >
+                <FileJson className="size-3.5" /> {/* JSON文件图标 */}
+                {/* 在移动设备上隐藏文本标签，只显示图标 */}
+                <span className="text-sm hidden md:block">Tokens</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Import design tokens (DTCG / Tokens Studio)</TooltipContent>
+          </Tooltip>
+
+          {/* 派生按钮 - 从一个模式的配色派生另一个模式 */}
+          <Tooltip>
+            <TooltipTrigger>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                onClick={() => setDeriveModeOpen(true)} // 点击打开派生对话框
+              >
+                <Blend className="size-3.5" /> {/* 混合图标 */}
+                {/* 在移动设备上隐藏文本标签，只显示图标 */}
+                <span className="text-sm hidden md:block">Derive</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Derive the other mode from this one</TooltipContent>
+          </Tooltip>
+
           {/* 重置按钮 - 将主题重置到当前预设的默认值 */}
           <Tooltip>
             <TooltipTrigger>
@@ -171,6 +362,23 @@ export function ActionBar() {
             <TooltipContent>Reset to preset defaults</TooltipContent>
           </Tooltip>
 
+          {/* 分享按钮 - 复制包含完整主题的链接 */}
+          <Tooltip>
+            <TooltipTrigger>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+                onClick={handleCopyShareLink} // 点击复制分享链接
+              >
+                <Link className="size-3.5" /> {/* 链接图标 */}
+                {/* 在移动设备上隐藏文本标签，只显示图标 */}
+                <span className="text-sm hidden md:block">Share</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Copy share link</TooltipContent>
+          </Tooltip>
+
           {/* 垂直分隔线 */}
           <Separator orientation="vertical" className="h-8" />
           
@@ -196,9 +404,26 @@ export function ActionBar() {
       <CssImportDialog
         open={cssImportOpen} // 控制对话框是否打开
         onOpenChange={setCssImportOpen} // 处理对话框打开状态变化
+        currentStyles={themeState.styles} // 当前主题样式，用于显示差异
         onImport={handleCssImport} // 处理导入操作的回调函数
       />
       
+      {/* 设计令牌导入对话框组件 - 默认隐藏，点击令牌按钮时显示 */}
+      <TokenImportDialog
+        open={tokenImportOpen} // 控制对话框是否打开
+        onOpenChange={setTokenImportOpen} // 处理对话框打开状态变化
+        onImport={handleTokenImport} // 处理导入操作的回调函数
+      />
+
+      {/* 明暗模式派生对话框组件 - 默认隐藏，点击派生按钮时显示 */}
+      <DeriveModeDialog
+        open={deriveModeOpen} // 控制对话框是否打开
+        onOpenChange={setDeriveModeOpen} // 处理对话框打开状态变化
+        styles={themeState.styles} // 当前主题样式
+        defaultSource={getModeScheme(themeState.styles, themeState.currentMode)} // 默认从当前编辑的模式派生
+        onApply={handleApplyDerivedMode} // 应用派生结果的回调函数
+      />
+
       {/* 代码面板对话框组件 - 默认隐藏，点击代码按钮时显示 */}
       <CodePanelDialog
         open={codePanelOpen} // 控制对话框是否打开
@@ -0,0 +1,243 @@
+/**
+ * 品牌色主题生成对话框组件
+ *
+ * 这个对话框让用户只选择一个品牌色(以及可选的辅助色和中性色调)，
+ * 就能生成一套完整的亮色和暗色主题。
+ *
+ * 功能包括：
+ * 1. 选择品牌色，可选地启用辅助色和中性色调
+ * 2. 实时预览生成的亮色和暗色主题中的关键颜色
+ * 3. 生成后作为新主题保存到主题库，并在编辑器中打开，可以继续调整
+ */
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ThemeStyleProps } from "@/types/theme";
+import { useThemeLibraryStore } from "@/store/theme-library-store";
+import { generateThemeFromBrandColor } from "@/utils/brand-theme-generator";
+import ColorPicker from "./color-picker";
+import { toast } from "../ui/use-toast";
+
+/**
+ * 组件属性接口定义
+ *
+ * - open: 控制对话框是否显示
+ * - onOpenChange: 当对话框开关状态变化时的回调函数
+ */
+interface BrandThemeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 预览中展示的颜色
+const PREVIEW_TOKENS: (keyof ThemeStyleProps)[] = [
+  "background",
+  "card",
+  "primary",
+  "secondary",
+  "accent",
+  "muted",
+  "border",
+  "chart-1",
+  "chart-2",
+  "chart-3",
+  "chart-4",
+  "chart-5",
+];
+
+/**
+ * 单个模式的预览
+ * 在该模式的背景上展示关键颜色，以及主要按钮的文字效果
+ */
+const ModePreview = ({
+  label,
+  styles,
+}: {
+  label: string;
+  styles: ThemeStyleProps;
+}) => (
+  <div
+    className="rounded-lg border p-3 space-y-3"
+    style={{ backgroundColor: styles.background, color: styles.foreground }}
+  >
+    <div className="flex items-center justify-between">
+      <span className="text-xs font-medium">{label}</span>
+      <span
+        className="rounded px-2 py-0.5 text-xs"
+        style={{
+          backgroundColor: styles.primary,
+          color: styles["primary-foreground"],
+        }}
+      >
+        Primary
+      </span>
+    </div>
+    <div className="grid grid-cols-6 gap-1.5">
+      {PREVIEW_TOKENS.map((token) => (
+        <div
+          key={token}
+          title={`${token}: ${styles[token]}`}
+          className="h-6 rounded border"
+          style={{
+            backgroundColor: styles[token],
+            borderColor: styles.border,
+          }}
+        />
+      ))}
+    </div>
+    <p className="text-xs" style={{ color: styles["muted-foreground"] }}>
+      Muted text on the background
+    </p>
+  </div>
+);
+
+const BrandThemeDialog: React.FC<BrandThemeDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const createTheme = useThemeLibraryStore((state) => state.createTheme);
+
+  const [name, setName] = useState("");
+  const [brand, setBrand] = useState("#3b82f6");
+  const [secondary, setSecondary] = useState("#8b5cf6");
+  const [useSecondary, setUseSecondary] = useState(false);
+  const [neutralTint, setNeutralTint] = useState("#78716c");
+  const [useNeutralTint, setUseNeutralTint] = useState(false);
+
+  // 每次选项变化时重新生成预览
+  const generated = useMemo(
+    () =>
+      generateThemeFromBrandColor({
+        brand,
+        secondary: useSecondary ? secondary : undefined,
+        neutralTint: useNeutralTint ? neutralTint : undefined,
+      }),
+    [brand, secondary, useSecondary, neutralTint, useNeutralTint]
+  );
+
+  /**
+   * 把生成的主题保存到主题库并在编辑器中打开
+   */
+  const handleGenerate = () => {
+    if (!generated) return;
+
+    createTheme(name || undefined, generated);
+    toast({
+      title: "Theme generated",
+      description: "The new theme was added to My Themes",
+    });
+    setName("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">
+            Generate from Brand Color
+          </DialogTitle>
+          <DialogDescription>
+            Pick your brand color to generate every light and dark token. Text
+            colors are adjusted to meet WCAG contrast targets.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="brand-theme-name" className="text-xs font-medium">
+              Theme Name
+            </Label>
+            <Input
+              id="brand-theme-name"
+              value={name}
+              placeholder="My Theme"
+              onChange={(e) => setName(e.target.value)}
+              className="h-8 text-sm"
+            />
+          </div>
+
+          <ColorPicker color={brand} onChange={setBrand} label="Brand Color" />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Checkbox
+                  id="brand-theme-secondary"
+                  checked={useSecondary}
+                  onCheckedChange={(checked) => setUseSecondary(!!checked)}
+                />
+                <Label htmlFor="brand-theme-secondary" className="text-xs">
+                  Use a secondary color
+                </Label>
+              </div>
+              {useSecondary && (
+                <ColorPicker
+                  color={secondary}
+                  onChange={setSecondary}
+                  label="Secondary Color"
+                />
+              )}
+            </div>
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Checkbox
+                  id="brand-theme-neutral"
+                  checked={useNeutralTint}
+                  onCheckedChange={(checked) => setUseNeutralTint(!!checked)}
+                />
+                <Label htmlFor="brand-theme-neutral" className="text-xs">
+                  Use a neutral tint
+                </Label>
+              </div>
+              {useNeutralTint && (
+                <ColorPicker
+                  color={neutralTint}
+                  onChange={setNeutralTint}
+                  label="Neutral Tint"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* 生成结果预览 */}
+          {generated ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <ModePreview label="Light" styles={generated.light} />
+              <ModePreview label="Dark" styles={generated.dark} />
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">
+              Enter a valid brand color to preview the theme.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="text-foreground"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={!generated}>
+            Generate Theme
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BrandThemeDialog;
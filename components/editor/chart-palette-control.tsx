@@ -0,0 +1,171 @@
+import React, { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { ThemeStyleProps } from "@/types/theme";
+import {
+  CHART_PALETTE_MODE_LABELS,
+  ChartPaletteMode,
+  generateChartPalette,
+} from "@/utils/chart-palette";
+import { CHART_COLORS, MIN_CHART_COLOR_DISTANCE } from "@/utils/color-vision";
+import { Button } from "../ui/button";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import ColorPicker from "./color-picker";
+import { SliderWithInput } from "./slider-with-input";
+
+type SeedSource = "primary" | "custom";
+
+interface ChartPaletteControlProps {
+  currentStyles: ThemeStyleProps;
+  onApply: (colors: Partial<ThemeStyleProps>) => void;
+}
+
+type ChartPaletteSettings = {
+  mode: ChartPaletteMode;
+  seedSource: SeedSource;
+  customSeed: string;
+  // ΔE × 100, the same scale the color vision check uses
+  minDistance: number;
+};
+
+const ChartPaletteControl = ({
+  currentStyles,
+  onApply,
+}: ChartPaletteControlProps) => {
+  const [settings, setSettings] = useState<ChartPaletteSettings>({
+    mode: "categorical",
+    seedSource: "primary",
+    customSeed: currentStyles.primary,
+    minDistance: MIN_CHART_COLOR_DISTANCE * 100,
+  });
+
+  const getPalette = ({
+    mode,
+    seedSource,
+    customSeed,
+    minDistance,
+  }: ChartPaletteSettings) =>
+    generateChartPalette({
+      mode,
+      seed: seedSource === "primary" ? currentStyles.primary : customSeed,
+      background: currentStyles.background,
+      minDistance: minDistance / 100,
+    });
+
+  const palette = getPalette(settings);
+
+  const apply = (next: ChartPaletteSettings) => {
+    const generated = getPalette(next);
+    if (!generated) return;
+    onApply(
+      Object.fromEntries(
+        CHART_COLORS.map((key, index) => [key, generated.colors[index]])
+      )
+    );
+  };
+
+  // Every change regenerates the palette right away so the preview follows along
+  const update = (changes: Partial<ChartPaletteSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    apply(next);
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Palette</Label>
+          <Select
+            value={settings.mode}
+            onValueChange={(mode: ChartPaletteMode) => update({ mode })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(
+                Object.keys(CHART_PALETTE_MODE_LABELS) as ChartPaletteMode[]
+              ).map((mode) => (
+                <SelectItem key={mode} value={mode} className="text-xs">
+                  {CHART_PALETTE_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Seed</Label>
+          <Select
+            value={settings.seedSource}
+            onValueChange={(seedSource: SeedSource) => update({ seedSource })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="primary" className="text-xs">
+                Primary
+              </SelectItem>
+              <SelectItem value="custom" className="text-xs">
+                Custom color
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {settings.seedSource === "custom" && (
+        <ColorPicker
+          color={settings.customSeed}
+          onChange={(customSeed) => update({ customSeed })}
+          label="Seed Color"
+        />
+      )}
+
+      <SliderWithInput
+        value={settings.minDistance}
+        onChange={(minDistance) => update({ minDistance })}
+        min={2}
+        max={15}
+        step={1}
+        label="Minimum ΔE"
+        unit=""
+      />
+
+      {palette &&
+        (palette.satisfied ? (
+          <p className="text-xs text-muted-foreground">
+            Neighbors differ by at least ΔE{" "}
+            {(palette.neighborDistance * 100).toFixed(1)}, and the background
+            by ΔE {(palette.backgroundDistance * 100).toFixed(1)}.
+          </p>
+        ) : (
+          <p className="flex items-start gap-1.5 text-xs text-destructive">
+            <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+            The background leaves too little room for this distance (neighbors
+            ΔE {(palette.neighborDistance * 100).toFixed(1)}, background ΔE{" "}
+            {(palette.backgroundDistance * 100).toFixed(1)}).
+          </p>
+        ))}
+
+      <Button
+        size="sm"
+        variant="secondary"
+        className="w-full"
+        disabled={!palette}
+        onClick={() => apply(settings)}
+      >
+        Generate chart colors
+      </Button>
+    </div>
+  );
+};
+
+export default ChartPaletteControl;
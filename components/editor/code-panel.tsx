@@ -10,7 +10,14 @@
  * - Allows copying code to clipboard
  * - Provides registry command for installing the theme with Shadcn
  * - Supports different color formats (HSL, OKLCH, RGB, HEX)
+ * - Configurable decimal precision per color format, and a lossless mode that
+ *   keeps colors already written in the selected format as authored
  * - Supports different Tailwind versions (v3 and v4)
+ * - Generates a matching tailwind.config.ts alongside the CSS for Tailwind v3
+ * - Generates a complete, drop-in globals.css for Tailwind v4
+ * - Configurable dark mode strategy (class, data attribute, custom selector,
+ *   media query, or media query with a class override)
+ * - Exports W3C Design Tokens (DTCG) JSON as a downloadable .tokens.json file
  * - Configurable package manager (pnpm, npm, yarn, bun)
  * - Tracks user actions using PostHog analytics
  * 
@@ -20,10 +27,17 @@
 
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Copy, Check } from "lucide-react";
+import { Copy, Check, Download } from "lucide-react";
 import { ThemeEditorState } from "@/types/editor";
 import { ScrollArea, ScrollBar } from "../ui/scroll-area";
-import { ColorFormat } from "../../types";
+import {
+  CodeFormat,
+  ColorFormat,
+  ColorFormatOptions,
+  DarkModeOptions,
+  DarkModeStrategy,
+  GamutFallback,
+} from "../../types";
 import {
   Select,
   SelectContent,
@@ -31,10 +45,59 @@ import {
   SelectValue,
   SelectItem,
 } from "../ui/select";
+import { Input } from "../ui/input";
+import { Checkbox } from "../ui/checkbox";
+import { Label } from "../ui/label";
 import { usePostHog } from "posthog-js/react";
 import { useEditorStore } from "@/store/editor-store";
 import { usePreferencesStore } from "@/store/preferences-store";
-import { generateThemeCode } from "@/utils/theme-style-generator";
+import {
+  generateGlobalsCss,
+  generateThemeCode,
+} from "@/utils/theme-style-generator";
+import { generateDesignTokensJson } from "@/utils/design-tokens";
+import { generateTailwindConfig } from "@/utils/tailwind-config-generator";
+import { DEFAULT_COLOR_PRECISION } from "@/utils/color-converter";
+
+// Upper bound for the precision input; more decimals than this add no visible accuracy
+const MAX_COLOR_PRECISION = 6;
+
+// Labels for the dark mode strategies of the generated CSS
+const DARK_MODE_STRATEGY_LABELS: Record<DarkModeStrategy, string> = {
+  class: "Class (.dark)",
+  "data-attribute": "Data attribute",
+  custom: "Custom selector",
+  media: "Media query",
+  "media-class": "Media query + class",
+};
+
+// Labels for the color formats, grouped by whether they can express wide-gamut colors
+const COLOR_FORMAT_LABELS: Record<ColorFormat, string> = {
+  hsl: "hsl",
+  rgb: "rgb",
+  hex: "hex",
+  hwb: "hwb",
+  oklch: "oklch",
+  lab: "lab",
+  lch: "lch",
+  p3: "display-p3",
+};
+
+// Labels for how colors outside sRGB are emitted
+const GAMUT_FALLBACK_LABELS: Record<GamutFallback, string> = {
+  none: "No P3 overrides",
+  supports: "P3 via @supports",
+  media: "P3 via @media",
+};
+
+/**
+ * A generated file shown as a tab in the code header
+ */
+interface CodeFile {
+  name: string;
+  code: string;
+  mimeType: string;
+}
 
 /**
  * Props for the CodePanel component
@@ -56,6 +119,8 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
   // State for tracking if copy buttons have been clicked
   const [registryCopied, setRegistryCopied] = useState(false);
   const [copied, setCopied] = useState(false);
+  // Name of the selected file tab when more than one file is generated
+  const [activeFileName, setActiveFileName] = useState("index.css");
   
   // Initialize PostHog for analytics tracking
   const posthog = usePostHog();
@@ -65,6 +130,40 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
   const colorFormat = usePreferencesStore((state) => state.colorFormat);
   const tailwindVersion = usePreferencesStore((state) => state.tailwindVersion);
   const packageManager = usePreferencesStore((state) => state.packageManager);
+  const codeFormat = usePreferencesStore((state) => state.codeFormat);
+  const setCodeFormat = usePreferencesStore((state) => state.setCodeFormat);
+  const darkModeStrategy = usePreferencesStore(
+    (state) => state.darkModeStrategy
+  );
+  const setDarkModeStrategy = usePreferencesStore(
+    (state) => state.setDarkModeStrategy
+  );
+  const darkModeSelector = usePreferencesStore(
+    (state) => state.darkModeSelector
+  );
+  const setDarkModeSelector = usePreferencesStore(
+    (state) => state.setDarkModeSelector
+  );
+  const darkMode: DarkModeOptions = {
+    strategy: darkModeStrategy,
+    selector: darkModeSelector,
+  };
+  const gamutFallback = usePreferencesStore((state) => state.gamutFallback);
+  const setGamutFallback = usePreferencesStore(
+    (state) => state.setGamutFallback
+  );
+  const colorPrecision = usePreferencesStore((state) => state.colorPrecision);
+  const setColorPrecision = usePreferencesStore(
+    (state) => state.setColorPrecision
+  );
+  const losslessColors = usePreferencesStore((state) => state.losslessColors);
+  const setLosslessColors = usePreferencesStore(
+    (state) => state.setLosslessColors
+  );
+  const colorOptions: ColorFormatOptions = {
+    precision: colorPrecision[colorFormat],
+    lossless: losslessColors,
+  };
   const setColorFormat = usePreferencesStore((state) => state.setColorFormat);
   const setTailwindVersion = usePreferencesStore(
     (state) => state.setTailwindVersion
@@ -73,12 +172,64 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
     (state) => state.setPackageManager
   );
 
-  // Generate the actual theme CSS code based on current settings
-  const code = generateThemeCode(
-    themeEditorState,
-    colorFormat,
-    tailwindVersion
-  );
+  // Generate the files for the selected output format. Tailwind v3 can't declare
+  // theme utilities in CSS, so it also gets a config mapping them onto the variables
+  const files: CodeFile[] =
+    codeFormat === "globals"
+      ? [
+          {
+            name: "globals.css",
+            code: generateGlobalsCss(
+              themeEditorState,
+              colorFormat,
+              darkMode,
+              gamutFallback,
+              colorOptions
+            ),
+            mimeType: "text/css",
+          },
+        ]
+      : codeFormat === "dtcg"
+      ? [
+          {
+            name: "theme.tokens.json",
+            code: generateDesignTokensJson(
+              themeEditorState.styles,
+              losslessColors
+            ),
+            mimeType: "application/json",
+          },
+        ]
+      : [
+          {
+            name: "index.css",
+            code: generateThemeCode(
+              themeEditorState,
+              colorFormat,
+              tailwindVersion,
+              darkMode,
+              gamutFallback,
+              colorOptions
+            ),
+            mimeType: "text/css",
+          },
+          ...(tailwindVersion === "3"
+            ? [
+                {
+                  name: "tailwind.config.ts",
+                  code: generateTailwindConfig(
+                    themeEditorState,
+                    colorFormat,
+                    darkMode
+                  ),
+                  mimeType: "text/typescript",
+                },
+              ]
+            : []),
+        ];
+  const activeFile =
+    files.find((file) => file.name === activeFileName) ?? files[0];
+  const { name: fileName, code } = activeFile;
 
   /**
    * Generates the appropriate shell command for installing the theme via Shadcn registry
@@ -126,8 +277,12 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
     posthog.capture(event, {
       editorType: "theme",
       preset,
+      codeFormat,
       colorFormat,
       tailwindVersion,
+      darkModeStrategy,
+      gamutFallback,
+      fileName,
     });
   };
 
@@ -147,6 +302,21 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
     }
   };
 
+  /**
+   * Downloads the selected file
+   */
+  const downloadCode = () => {
+    const url = URL.createObjectURL(
+      new Blob([code], { type: activeFile.mimeType })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    captureCopyEvent("DOWNLOAD_CODE");
+  };
+
   return (
     <div className="h-full flex flex-col p-4">
       {/* Header section with title */}
@@ -207,52 +377,194 @@ const CodePanel: React.FC<CodePanelProps> = ({ themeEditorState }) => {
         )}
       </div>
       
-      {/* Tailwind version and color format selector section */}
-      <div className="flex items-center gap-2 mb-4 ">
-        {/* Tailwind version selector */}
+      {/* Output format, Tailwind version and color format selector section */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 ">
+        {/* Output format selector */}
         <Select
-          value={tailwindVersion}
-          onValueChange={(value: "3" | "4") => {
-            setTailwindVersion(value);
-            // If switching to Tailwind v4, also switch from HSL to OKLCH which is preferred in v4
-            if (value === "4" && colorFormat === "hsl") {
-              setColorFormat("oklch");
-            }
-          }}
+          value={codeFormat}
+          onValueChange={(value: CodeFormat) => setCodeFormat(value)}
         >
           <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
             <SelectValue className="focus:ring-transparent" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="3">Tailwind v3</SelectItem>
-            <SelectItem value="4">Tailwind v4</SelectItem>
-          </SelectContent>
-        </Select>
-        
-        {/* Color format selector */}
-        <Select
-          value={colorFormat}
-          onValueChange={(value: ColorFormat) => setColorFormat(value)}
-        >
-          <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
-            <SelectValue className="focus:ring-transparent" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="hsl">hsl</SelectItem>
-            <SelectItem value="oklch">oklch</SelectItem>
-            <SelectItem value="rgb">rgb</SelectItem>
-            <SelectItem value="hex">hex</SelectItem>
+            <SelectItem value="css">CSS</SelectItem>
+            <SelectItem value="globals">globals.css (Tailwind v4)</SelectItem>
+            <SelectItem value="dtcg">Design Tokens (DTCG)</SelectItem>
           </SelectContent>
         </Select>
+
+        {/* Tailwind version only applies to the CSS snippet; globals.css is always v4 */}
+        {codeFormat === "css" && (
+          <>
+            {/* Tailwind version selector */}
+            <Select
+              value={tailwindVersion}
+              onValueChange={(value: "3" | "4") => {
+                setTailwindVersion(value);
+                // If switching to Tailwind v4, also switch from HSL to OKLCH which is preferred in v4
+                if (value === "4" && colorFormat === "hsl") {
+                  setColorFormat("oklch");
+                }
+              }}
+            >
+              <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
+                <SelectValue className="focus:ring-transparent" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="3">Tailwind v3</SelectItem>
+                <SelectItem value="4">Tailwind v4</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
+
+        {/* Color format and dark mode strategy apply to both CSS outputs */}
+        {codeFormat !== "dtcg" && (
+          <>
+            {/* Color format selector */}
+            <Select
+              value={colorFormat}
+              onValueChange={(value: ColorFormat) => setColorFormat(value)}
+            >
+              <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
+                <SelectValue className="focus:ring-transparent" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COLOR_FORMAT_LABELS) as ColorFormat[]).map(
+                  (format) => (
+                    <SelectItem key={format} value={format}>
+                      {COLOR_FORMAT_LABELS[format]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+
+            {/* Decimal places for the selected format; hex has no decimals */}
+            {colorFormat !== "hex" && (
+              <Input
+                type="number"
+                min={0}
+                max={MAX_COLOR_PRECISION}
+                value={
+                  colorPrecision[colorFormat] ??
+                  DEFAULT_COLOR_PRECISION[colorFormat]
+                }
+                onChange={(e) => {
+                  const precision = parseInt(e.target.value, 10);
+                  setColorPrecision(
+                    colorFormat,
+                    Number.isNaN(precision)
+                      ? undefined
+                      : Math.min(Math.max(precision, 0), MAX_COLOR_PRECISION)
+                  );
+                }}
+                className="h-9 w-16 text-sm bg-muted/50 border-none"
+                aria-label="Decimal places"
+                title="Decimal places"
+              />
+            )}
+
+            {/* Wide-gamut overrides: sRGB fallbacks first, original colors behind a P3 check */}
+            <Select
+              value={gamutFallback}
+              onValueChange={(value: GamutFallback) => setGamutFallback(value)}
+            >
+              <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
+                <SelectValue className="focus:ring-transparent" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GAMUT_FALLBACK_LABELS) as GamutFallback[]).map(
+                  (fallback) => (
+                    <SelectItem key={fallback} value={fallback}>
+                      {GAMUT_FALLBACK_LABELS[fallback]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+
+            {/* Dark mode strategy selector */}
+            <Select
+              value={darkModeStrategy}
+              onValueChange={(value: DarkModeStrategy) =>
+                setDarkModeStrategy(value)
+              }
+            >
+              <SelectTrigger className="w-fit focus:ring-transparent focus:border-none bg-muted/50 outline-hidden border-none gap-1">
+                <SelectValue className="focus:ring-transparent" />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(DARK_MODE_STRATEGY_LABELS) as DarkModeStrategy[]
+                ).map((strategy) => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {DARK_MODE_STRATEGY_LABELS[strategy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Custom dark mode selector input */}
+            {darkModeStrategy === "custom" && (
+              <Input
+                value={darkModeSelector}
+                onChange={(e) => setDarkModeSelector(e.target.value)}
+                placeholder=".dark"
+                className="h-9 w-40 font-mono text-sm bg-muted/50 border-none"
+                aria-label="Dark mode selector"
+              />
+            )}
+          </>
+        )}
+
+        {/* Keep colors that are already in the output format exactly as authored */}
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="code-panel-lossless"
+            checked={losslessColors}
+            onCheckedChange={(checked) => setLosslessColors(!!checked)}
+          />
+          <Label htmlFor="code-panel-lossless" className="text-sm">
+            Keep authored values
+          </Label>
+        </div>
       </div>
 
       {/* Code display area */}
       <div className="flex-1 min-h-0 flex flex-col rounded-lg border overflow-hidden">
-        {/* Code header with filename and copy button */}
+        {/* Code header with file tabs and copy button */}
         <div className="flex-none flex justify-between items-center px-4 py-2 border-b bg-muted/50">
-          <span className="text-sm font-medium">index.css</span>
+          <div className="flex items-center gap-3">
+            {files.map((file) => (
+              <button
+                key={file.name}
+                onClick={() => setActiveFileName(file.name)}
+                className={`text-sm font-medium ${
+                  file.name === fileName
+                    ? "text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {file.name}
+              </button>
+            ))}
+          </div>
 
           <div className="flex items-center gap-2">
+            {/* Download code button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={downloadCode}
+              className="h-8"
+              aria-label={`Download ${fileName}`}
+            >
+              <Download className="size-4" />
+              <span className="sr-only md:not-sr-only">Download</span>
+            </Button>
+
             {/* Copy code button with dynamic text/icon */}
             <Button
               variant="outline"
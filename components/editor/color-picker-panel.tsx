@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from "react";
+import * as culori from "culori";
+import * as SliderPrimitive from "@radix-ui/react-slider";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ColorGamut, formatOklch, getColorGamut, getMaxChroma } from "@/utils/oklch";
+import { cn } from "@/lib/utils";
+
+type ColorModel = "oklch" | "hsl" | "rgb";
+
+type Channel = {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+type ColorPickerPanelProps = {
+  color: string;
+  onChange: (color: string) => void;
+};
+
+const CHANNELS: Record<ColorModel, Channel[]> = {
+  oklch: [
+    { label: "L", min: 0, max: 1, step: 0.001 },
+    { label: "C", min: 0, max: 0.4, step: 0.001 },
+    { label: "H", min: 0, max: 360, step: 0.1 },
+  ],
+  hsl: [
+    { label: "H", min: 0, max: 360, step: 1 },
+    { label: "S", min: 0, max: 100, step: 1 },
+    { label: "L", min: 0, max: 100, step: 1 },
+  ],
+  rgb: [
+    { label: "R", min: 0, max: 255, step: 1 },
+    { label: "G", min: 0, max: 255, step: 1 },
+    { label: "B", min: 0, max: 255, step: 1 },
+  ],
+};
+
+const GAMUT_LABELS: Record<ColorGamut, { label: string; description: string }> = {
+  srgb: { label: "sRGB", description: "Displays the same on every screen" },
+  p3: {
+    label: "Display P3",
+    description: "Wide gamut, clipped on sRGB screens and in hex exports",
+  },
+  wide: {
+    label: "Outside P3",
+    description: "Clipped on almost every screen",
+  },
+};
+
+// Number of color stops used to paint each slider track
+const TRACK_STOPS = 12;
+
+const toOklch = culori.converter("oklch");
+const toHsl = culori.converter("hsl");
+const toRgb = culori.converter("rgb");
+
+/**
+ * Picks the tab that matches how the token is currently written.
+ * Hex and named colors open in OKLCH.
+ */
+const detectModel = (color: string): ColorModel => {
+  const value = color.trim().toLowerCase();
+  if (value.startsWith("hsl")) return "hsl";
+  if (value.startsWith("rgb")) return "rgb";
+  return "oklch";
+};
+
+const clampToChannel = (value: number, { min, max, step }: Channel) => {
+  const clamped = Math.min(Math.max(value, min), max);
+  const decimals = step < 1 ? String(step).split(".")[1].length : 0;
+  return Number(clamped.toFixed(decimals));
+};
+
+/**
+ * Reads a CSS color into channel values for a model.
+ * Achromatic colors have no hue, so the previous hue is kept to stop the
+ * hue slider from jumping back to 0 while chroma or saturation is at zero.
+ */
+const toChannels = (
+  color: string,
+  model: ColorModel,
+  previous?: number[]
+): number[] | null => {
+  const parsed = culori.parse(color);
+  if (!parsed) return null;
+
+  let values: number[];
+  switch (model) {
+    case "hsl": {
+      const { h, s, l } = toHsl(parsed);
+      values = [h ?? previous?.[0] ?? 0, s * 100, l * 100];
+      break;
+    }
+    case "rgb": {
+      const { r, g, b } = toRgb(parsed);
+      values = [r * 255, g * 255, b * 255];
+      break;
+    }
+    default: {
+      const { l, c, h } = toOklch(parsed);
+      values = [l, c, h ?? previous?.[2] ?? 0];
+    }
+  }
+
+  return values.map((value, index) =>
+    clampToChannel(value, CHANNELS[model][index])
+  );
+};
+
+/**
+ * Writes channel values as a CSS color in the model's own syntax,
+ * so wide-gamut OKLCH values are stored as-is instead of being clamped to hex.
+ */
+const fromChannels = (model: ColorModel, [a, b, c]: number[]): string => {
+  switch (model) {
+    case "hsl":
+      return `hsl(${a} ${b}% ${c}%)`;
+    case "rgb":
+      return `rgb(${a} ${b} ${c})`;
+    default:
+      return formatOklch({ l: a, c: b, h: c });
+  }
+};
+
+/**
+ * Gradient showing how the color changes along one channel
+ */
+const getTrackGradient = (
+  model: ColorModel,
+  values: number[],
+  index: number
+): string => {
+  const { min, max } = CHANNELS[model][index];
+  const stops = Array.from({ length: TRACK_STOPS }, (_, stop) => {
+    const next = [...values];
+    next[index] = min + ((max - min) * stop) / (TRACK_STOPS - 1);
+    return fromChannels(model, next);
+  });
+  return `linear-gradient(to right, ${stops.join(", ")})`;
+};
+
+const ChannelSlider = ({
+  channel,
+  value,
+  gradient,
+  markers = [],
+  onChange,
+}: {
+  channel: Channel;
+  value: number;
+  gradient: string;
+  markers?: { label: string; value: number }[];
+  onChange: (value: number) => void;
+}) => {
+  const [localValue, setLocalValue] = useState(String(value));
+
+  useEffect(() => {
+    setLocalValue(String(value));
+  }, [value]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-3 text-xs font-medium text-muted-foreground">
+        {channel.label}
+      </span>
+      <SliderPrimitive.Root
+        value={[value]}
+        min={channel.min}
+        max={channel.max}
+        step={channel.step}
+        onValueChange={([next]) => onChange(next)}
+        className="relative flex h-5 flex-1 touch-none select-none items-center"
+      >
+        <SliderPrimitive.Track
+          className="relative h-3 w-full grow rounded-full border"
+          style={{ background: gradient }}
+        >
+          {/* Gamut boundaries: colors to the right of a marker fall outside that gamut */}
+          {markers.map((marker) => (
+            <span
+              key={marker.label}
+              title={`${marker.label} limit`}
+              className="absolute inset-y-0 w-px bg-foreground/70"
+              style={{
+                left: `${((marker.value - channel.min) / (channel.max - channel.min)) * 100}%`,
+              }}
+            />
+          ))}
+        </SliderPrimitive.Track>
+        <SliderPrimitive.Thumb
+          aria-label={channel.label}
+          className="block size-4 rounded-full border-2 border-background bg-transparent shadow ring-1 ring-foreground/40 focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring"
+        />
+      </SliderPrimitive.Root>
+      <Input
+        type="number"
+        value={localValue}
+        min={channel.min}
+        max={channel.max}
+        step={channel.step}
+        onChange={(e) => {
+          setLocalValue(e.target.value);
+          const next = parseFloat(e.target.value);
+          if (Number.isFinite(next)) onChange(clampToChannel(next, channel));
+        }}
+        className="h-6 w-16 px-1.5 text-xs"
+      />
+    </div>
+  );
+};
+
+const ColorPickerPanel = ({ color, onChange }: ColorPickerPanelProps) => {
+  const [model, setModel] = useState<ColorModel>(() => detectModel(color));
+  const [channels, setChannels] = useState<number[]>(
+    () => toChannels(color, model) ?? [0, 0, 0]
+  );
+  // The last value this panel produced, so our own updates don't reset the hue
+  const lastEmitted = useRef(color);
+
+  // Sync channels when the color is changed elsewhere (text input, undo, presets)
+  useEffect(() => {
+    if (color === lastEmitted.current) return;
+    lastEmitted.current = color;
+    setChannels((previous) => toChannels(color, model, previous) ?? previous);
+  }, [color, model]);
+
+  const handleModelChange = (value: string) => {
+    const nextModel = value as ColorModel;
+    setModel(nextModel);
+    setChannels((previous) => toChannels(color, nextModel) ?? previous);
+  };
+
+  const handleChannelChange = (index: number, value: number) => {
+    const next = [...channels];
+    next[index] = value;
+    setChannels(next);
+
+    const nextColor = fromChannels(model, next);
+    lastEmitted.current = nextColor;
+    onChange(nextColor);
+  };
+
+  const gamut = getColorGamut(color);
+  const [lightness, , hue] = channels;
+  const chromaMarkers =
+    model === "oklch"
+      ? [
+          { label: "sRGB", value: getMaxChroma(lightness, hue, "rgb") },
+          { label: "P3", value: getMaxChroma(lightness, hue, "p3") },
+        ]
+      : [];
+
+  return (
+    <div className="space-y-3">
+      <Tabs value={model} onValueChange={handleModelChange}>
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="oklch" className="text-xs">
+            OKLCH
+          </TabsTrigger>
+          <TabsTrigger value="hsl" className="text-xs">
+            HSL
+          </TabsTrigger>
+          <TabsTrigger value="rgb" className="text-xs">
+            RGB
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="space-y-2">
+        {CHANNELS[model].map((channel, index) => (
+          <ChannelSlider
+            key={`${model}-${channel.label}`}
+            channel={channel}
+            value={channels[index]}
+            gradient={getTrackGradient(model, channels, index)}
+            markers={model === "oklch" && index === 1 ? chromaMarkers : []}
+            onChange={(value) => handleChannelChange(index, value)}
+          />
+        ))}
+      </div>
+
+      {gamut && (
+        <div className="flex items-start gap-2 rounded-md border px-2 py-1.5">
+          <span
+            className={cn(
+              "mt-1 size-2 shrink-0 rounded-full",
+              gamut === "srgb" && "bg-green-500",
+              gamut === "p3" && "bg-amber-500",
+              gamut === "wide" && "bg-red-500"
+            )}
+          />
+          <div className="text-xs">
+            <span className="font-medium">{GAMUT_LABELS[gamut].label}</span>
+            <span className="block text-muted-foreground">
+              {GAMUT_LABELS[gamut].description}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColorPickerPanel;
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { ColorPickerProps } from "@/types";
 import { debounce } from "@/utils/debounce";
+import { getColorGamut } from "@/utils/oklch";
+import ColorPickerPanel from "./color-picker-panel";
 
 const ColorPicker = ({ color, onChange, label }: ColorPickerProps) => {
-  const [isOpen, setIsOpen] = useState(false);
   const [localColor, setLocalColor] = useState(color);
+  const id = `color-${label.replace(/\s+/g, "-").toLowerCase()}`;
 
   // Update localColor if the prop changes externally
   useEffect(() => {
@@ -18,8 +21,8 @@ const ColorPicker = ({ color, onChange, label }: ColorPickerProps) => {
     [onChange]
   );
 
-  const handleColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newColor = e.target.value;
+  // Colors are stored exactly as written or picked, e.g. oklch() stays oklch()
+  const handleColorChange = (newColor: string) => {
     setLocalColor(newColor);
     debouncedOnChange(newColor);
   };
@@ -31,34 +34,42 @@ const ColorPicker = ({ color, onChange, label }: ColorPickerProps) => {
     };
   }, [debouncedOnChange]);
 
+  const gamut = getColorGamut(localColor);
+
   return (
     <div className="mb-3">
       <div className="flex items-center justify-between mb-1.5">
-        <Label
-          htmlFor={`color-${label.replace(/\s+/g, "-").toLowerCase()}`}
-          className="text-xs font-medium"
-        >
+        <Label htmlFor={id} className="text-xs font-medium">
           {label}
         </Label>
+        {gamut && gamut !== "srgb" && (
+          <span
+            className="text-[10px] font-medium uppercase text-muted-foreground"
+            title="This color is outside sRGB and is clipped on standard screens"
+          >
+            {gamut === "p3" ? "P3" : "Wide gamut"}
+          </span>
+        )}
       </div>
       <div className="flex items-center gap-1">
-        <div
-          className="h-8 w-8 border cursor-pointer overflow-hidden relative flex items-center justify-center rounded"
-          style={{ backgroundColor: localColor }}
-          onClick={() => setIsOpen(!isOpen)}
-        >
-          <input
-            type="color"
-            id={`color-${label.replace(/\s+/g, "-").toLowerCase()}`}
-            value={localColor}
-            onChange={handleColorChange}
-            className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
-          />
-        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              aria-label={`Pick ${label}`}
+              className="h-8 w-8 shrink-0 border cursor-pointer rounded"
+              style={{ backgroundColor: localColor }}
+            />
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-72">
+            <ColorPickerPanel color={localColor} onChange={handleColorChange} />
+          </PopoverContent>
+        </Popover>
         <input
           type="text"
+          id={id}
           value={localColor}
-          onChange={handleColorChange}
+          onChange={(e) => handleColorChange(e.target.value)}
           className="flex-1 h-8 px-2 text-sm rounded bg-input/25 border border-border/20"
         />
       </div>
@@ -0,0 +1,92 @@
+import React from "react";
+import { ColorScaleToken, ThemeStyleProps } from "@/types/theme";
+import { COLOR_SCALE_TOKENS, generateColorScale } from "@/utils/color-scales";
+import { Checkbox } from "../ui/checkbox";
+import { Label } from "../ui/label";
+import ControlSection from "./control-section";
+
+interface ColorScaleControlProps {
+  scales: ColorScaleToken[];
+  currentStyles: ThemeStyleProps;
+  onChange: (scales: ColorScaleToken[]) => void;
+}
+
+const TOKEN_LABELS: Record<ColorScaleToken, string> = {
+  primary: "Primary",
+  secondary: "Secondary",
+  accent: "Accent",
+};
+
+const ColorScaleRamp = ({ color }: { color: string }) => {
+  const scale = generateColorScale(color);
+
+  if (!scale) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This color can&apos;t be parsed, so no scale is generated.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex overflow-hidden rounded border">
+      {scale.map(({ step, color: stepColor }) => (
+        <div
+          key={step}
+          title={`${step}: ${stepColor}`}
+          className="h-6 flex-1"
+          style={{ backgroundColor: stepColor }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const ColorScaleControl = ({
+  scales,
+  currentStyles,
+  onChange,
+}: ColorScaleControlProps) => {
+  const handleToggle = (token: ColorScaleToken, checked: boolean) => {
+    // Keep the panel order so the exported variables don't depend on click order
+    onChange(
+      COLOR_SCALE_TOKENS.filter((item) =>
+        item === token ? checked : scales.includes(item)
+      )
+    );
+  };
+
+  return (
+    <ControlSection title="Color Scales">
+      <p className="mb-3 text-xs text-muted-foreground">
+        Export 50–950 shades as variables like --primary-50 and utilities like
+        bg-primary-50.
+      </p>
+      <div className="space-y-3">
+        {COLOR_SCALE_TOKENS.map((token) => {
+          const id = `color-scale-${token}`;
+          const enabled = scales.includes(token);
+          return (
+            <div key={token} className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={enabled}
+                  onCheckedChange={(checked) =>
+                    handleToggle(token, checked === true)
+                  }
+                />
+                <Label htmlFor={id} className="text-xs font-medium">
+                  {TOKEN_LABELS[token]}
+                </Label>
+              </div>
+              {enabled && <ColorScaleRamp color={currentStyles[token]} />}
+            </div>
+          );
+        })}
+      </div>
+    </ControlSection>
+  );
+};
+
+export default ColorScaleControl;
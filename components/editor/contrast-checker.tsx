@@ -10,7 +10,14 @@ import {
   DialogTrigger,
   DialogDescription,
 } from "../ui/dialog";
-import { Contrast, Check, AlertTriangle, Moon, Sun } from "lucide-react";
+import {
+  Contrast,
+  Check,
+  AlertTriangle,
+  Moon,
+  Sun,
+  Wand2,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Card, CardContent } from "../ui/card";
 import { Badge } from "../ui/badge";
@@ -18,135 +25,48 @@ import { ScrollArea } from "../ui/scroll-area";
 import { Separator } from "../ui/separator";
 import { Tooltip, TooltipContent, TooltipTrigger } from "../ui/tooltip";
 import { useTheme } from "@/components/theme-provider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { usePreferencesStore } from "@/store/preferences-store";
+import {
+  CONTRAST_PAIRS,
+  CONTRAST_STANDARDS,
+  ContrastPair,
+  ContrastPairCategory,
+  checkContrastStandard,
+  meetsContrastStandard,
+  suggestContrastFix,
+} from "@/utils/contrast-checker";
+import { ContrastStandard } from "@/types";
+import { useEditorStore } from "@/store/editor-store";
+import { getModeStyles, updateModeStyles } from "@/utils/theme-modes";
 
 type ContrastCheckerProps = {
   currentStyles: ThemeStyleProps;
 };
 
-const MIN_CONTRAST_RATIO = 4.5;
-
-type ColorCategory = "content" | "interactive" | "functional";
-
-type ColorPair = {
-  id: string;
-  foregroundId: keyof ThemeStyleProps;
-  backgroundId: keyof ThemeStyleProps;
+type ColorPair = ContrastPair & {
   foreground: string | undefined;
   background: string | undefined;
-  label: string;
-  category: ColorCategory;
 };
 
 const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
   const [filter, setFilter] = useState<"all" | "issues">("all");
   const { theme, toggleTheme } = useTheme();
+  const { contrastStandard, setContrastStandard } = usePreferencesStore();
+  const standard = CONTRAST_STANDARDS[contrastStandard];
+  const { themeState, setThemeState } = useEditorStore();
 
-  const colorPairsToCheck: ColorPair[] = [
-    // Content - Base, background, cards, containers
-    {
-      id: "base",
-      foregroundId: "foreground",
-      backgroundId: "background",
-      foreground: currentStyles?.["foreground"],
-      background: currentStyles?.["background"],
-      label: "Base",
-      category: "content",
-    },
-    {
-      id: "card",
-      foregroundId: "card-foreground",
-      backgroundId: "card",
-      foreground: currentStyles?.["card-foreground"],
-      background: currentStyles?.["card"],
-      label: "Card",
-      category: "content",
-    },
-    {
-      id: "popover",
-      foregroundId: "popover-foreground",
-      backgroundId: "popover",
-      foreground: currentStyles?.["popover-foreground"],
-      background: currentStyles?.["popover"],
-      label: "Popover",
-      category: "content",
-    },
-    {
-      id: "muted",
-      foregroundId: "muted-foreground",
-      backgroundId: "muted",
-      foreground: currentStyles?.["muted-foreground"],
-      background: currentStyles?.["muted"],
-      label: "Muted",
-      category: "content",
-    },
-
-    // Interactive - Buttons, links, actions
-    {
-      id: "primary",
-      foregroundId: "primary-foreground",
-      backgroundId: "primary",
-      foreground: currentStyles?.["primary-foreground"],
-      background: currentStyles?.["primary"],
-      label: "Primary",
-      category: "interactive",
-    },
-    {
-      id: "secondary",
-      foregroundId: "secondary-foreground",
-      backgroundId: "secondary",
-      foreground: currentStyles?.["secondary-foreground"],
-      background: currentStyles?.["secondary"],
-      label: "Secondary",
-      category: "interactive",
-    },
-    {
-      id: "accent",
-      foregroundId: "accent-foreground",
-      backgroundId: "accent",
-      foreground: currentStyles?.["accent-foreground"],
-      background: currentStyles?.["accent"],
-      label: "Accent",
-      category: "interactive",
-    },
-
-    // Functional - Sidebar, destructive, special purposes
-    {
-      id: "destructive",
-      foregroundId: "destructive-foreground",
-      backgroundId: "destructive",
-      foreground: currentStyles?.["destructive-foreground"],
-      background: currentStyles?.["destructive"],
-      label: "Destructive",
-      category: "functional",
-    },
-    {
-      id: "sidebar",
-      foregroundId: "sidebar-foreground",
-      backgroundId: "sidebar",
-      foreground: currentStyles?.["sidebar-foreground"],
-      background: currentStyles?.["sidebar"],
-      label: "Sidebar Base",
-      category: "functional",
-    },
-    {
-      id: "sidebar-primary",
-      foregroundId: "sidebar-primary-foreground",
-      backgroundId: "sidebar-primary",
-      foreground: currentStyles?.["sidebar-primary-foreground"],
-      background: currentStyles?.["sidebar-primary"],
-      label: "Sidebar Primary",
-      category: "functional",
-    },
-    {
-      id: "sidebar-accent",
-      foregroundId: "sidebar-accent-foreground",
-      backgroundId: "sidebar-accent",
-      foreground: currentStyles?.["sidebar-accent-foreground"],
-      background: currentStyles?.["sidebar-accent"],
-      label: "Sidebar Accent",
-      category: "functional",
-    },
-  ];
+  const colorPairsToCheck: ColorPair[] = CONTRAST_PAIRS.map((pair) => ({
+    ...pair,
+    foreground: currentStyles?.[pair.foregroundId],
+    background: currentStyles?.[pair.backgroundId],
+  }));
 
   const validColorPairsToCheck = colorPairsToCheck.filter(
     (pair): pair is ColorPair & { foreground: string; background: string } =>
@@ -158,8 +78,15 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
     return contrastResults?.find((res) => res.id === pairId);
   };
 
+  const isPassing = (result: { contrastRatio: number; apcaContrast: number }) =>
+    meetsContrastStandard(
+      result.contrastRatio,
+      result.apcaContrast,
+      contrastStandard
+    );
+
   const totalIssues = contrastResults?.filter(
-    (result) => result.contrastRatio < MIN_CONTRAST_RATIO
+    (result) => !isPassing(result)
   ).length;
 
   const filteredPairs =
@@ -167,17 +94,62 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
       ? colorPairsToCheck
       : colorPairsToCheck.filter((pair) => {
           const result = getContrastResult(pair.id);
-          return result && result.contrastRatio < MIN_CONTRAST_RATIO;
+          return result && !isPassing(result);
         });
 
+  // Write fixed colors into the current mode in a single history entry
+  const applyFixes = (fixes: Partial<ThemeStyleProps>) => {
+    const mode = themeState.currentMode;
+    setThemeState({
+      ...themeState,
+      styles: updateModeStyles(themeState.styles, mode, {
+        ...getModeStyles(themeState.styles, mode),
+        ...fixes,
+      }),
+    });
+  };
+
+  const getSuggestion = (
+    pair: ColorPair,
+    adjust: "foreground" | "background"
+  ) =>
+    pair.foreground && pair.background
+      ? suggestContrastFix(
+          pair.foreground,
+          pair.background,
+          contrastStandard,
+          adjust
+        )
+      : null;
+
+  // Fix every failing pair by adjusting its foreground, checked against the
+  // live colors rather than the debounced results
+  const handleFixAll = () => {
+    const fixes: Partial<ThemeStyleProps> = {};
+    validColorPairsToCheck.forEach((pair) => {
+      if (
+        checkContrastStandard(
+          pair.foreground,
+          pair.background,
+          contrastStandard
+        )
+      ) {
+        return;
+      }
+      const fixed = getSuggestion(pair, "foreground");
+      if (fixed) fixes[pair.foregroundId] = fixed;
+    });
+    if (Object.keys(fixes).length > 0) applyFixes(fixes);
+  };
+
   // Group color pairs by category
-  const categoryLabels: Record<ColorCategory, string> = {
+  const categoryLabels: Record<ContrastPairCategory, string> = {
     content: "Content & Containers",
     interactive: "Interactive Elements",
     functional: "Navigation & Functional",
   };
 
-  const categories: ColorCategory[] = ["content", "interactive", "functional"];
+  const categories: ContrastPairCategory[] = ["content", "interactive", "functional"];
   const groupedPairs = categories
     .map((category) => ({
       category,
@@ -211,10 +183,14 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
                 Contrast Checker
               </DialogTitle>
               <DialogDescription className="text-sm mt-1">
-                WCAG 2.0 AA requires a contrast ratio of at least{" "}
-                {MIN_CONTRAST_RATIO}:1{" • "}
+                {standard.description}
+                {" • "}
                 <a
-                  href="https://www.w3.org/TR/WCAG21/"
+                  href={
+                    standard.metric === "apca"
+                      ? "https://git.apcacontrast.com/documentation/APCA_in_a_Nutshell"
+                      : "https://www.w3.org/TR/WCAG21/"
+                  }
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-primary underline hover:text-primary/80 transition-colors"
@@ -242,6 +218,34 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
                   <p className="text-xs">Toggle theme</p>
                 </TooltipContent>
               </Tooltip>
+              <Select
+                value={contrastStandard}
+                onValueChange={(value: ContrastStandard) =>
+                  setContrastStandard(value)
+                }
+              >
+                <SelectTrigger className="h-8 w-fit gap-1 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(
+                    Object.keys(CONTRAST_STANDARDS) as ContrastStandard[]
+                  ).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {CONTRAST_STANDARDS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleFixAll}
+                disabled={!totalIssues}
+              >
+                <Wand2 className="h-3 w-3 mr-1" />
+                Fix all
+              </Button>
               <Button
                 variant={filter === "all" ? "default" : "outline"}
                 size="sm"
@@ -272,11 +276,25 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {group.pairs.map((pair) => {
                     const result = getContrastResult(pair.id);
-                    const isValid =
-                      result?.contrastRatio !== undefined &&
-                      result?.contrastRatio >= MIN_CONTRAST_RATIO;
+                    const isValid = !!result && isPassing(result);
                     const contrastRatio =
                       result?.contrastRatio?.toFixed(2) ?? "N/A";
+                    const apcaContrast = result
+                      ? `Lc ${result.apcaContrast.toFixed(1)}`
+                      : "N/A";
+                    const score =
+                      standard.metric === "apca"
+                        ? apcaContrast
+                        : contrastRatio;
+                    const suggestions =
+                      result && !isValid
+                        ? (["foreground", "background"] as const).map(
+                            (adjust) => ({
+                              adjust,
+                              color: getSuggestion(pair, adjust),
+                            })
+                          )
+                        : [];
 
                     return (
                       <Card
@@ -311,17 +329,22 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
                               {isValid ? (
                                 <>
                                   <Check className="h-3 w-3" />
-                                  {contrastRatio}
+                                  {score}
                                 </>
                               ) : (
                                 <>
                                   <AlertTriangle className="h-3 w-3" />
-                                  {contrastRatio}
+                                  {score}
                                 </>
                               )}
                             </Badge>
                           </div>
 
+                          {/* Show both algorithms side by side for comparison */}
+                          <p className="text-xs text-muted-foreground font-mono mb-3">
+                            WCAG {contrastRatio}:1 • APCA {apcaContrast}
+                          </p>
+
                           <div className="flex gap-2 items-center">
                             <div className="flex flex-col items-center gap-3 flex-1">
                               <div className="flex w-full items-center gap-3">
@@ -390,6 +413,41 @@ const ContrastChecker = ({ currentStyles }: ContrastCheckerProps) => {
                               )}
                             </div>
                           </div>
+
+                          {/* Nearest passing colors, changing only OKLCH lightness */}
+                          {suggestions.length > 0 && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              <span className="text-xs text-muted-foreground">
+                                Suggested fix:
+                              </span>
+                              {suggestions.map(({ adjust, color }) =>
+                                color ? (
+                                  <Button
+                                    key={adjust}
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 gap-1.5 px-2 text-xs"
+                                    onClick={() =>
+                                      applyFixes({
+                                        [adjust === "foreground"
+                                          ? pair.foregroundId
+                                          : pair.backgroundId]: color,
+                                      })
+                                    }
+                                  >
+                                    <span
+                                      className="size-3 rounded-sm border"
+                                      style={{ backgroundColor: color }}
+                                    />
+                                    {adjust === "foreground"
+                                      ? "Foreground"
+                                      : "Background"}{" "}
+                                    <span className="font-mono">{color}</span>
+                                  </Button>
+                                ) : null
+                              )}
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
                     );
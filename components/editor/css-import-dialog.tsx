@@ -8,15 +8,17 @@
  * 然后导入到编辑器中使用。
  * 
  * 功能包括：
- * 1. 提供文本输入区域让用户粘贴CSS代码
- * 2. 对输入的CSS进行基本验证，确保它包含必要的变量定义
- * 3. 显示错误信息（如果CSS格式有问题）
- * 4. 导入成功时关闭对话框并清空输入框
+ * 1. 提供文本输入区域让用户粘贴CSS代码或 shadcn 注册表JSON，也可以选择本地文件
+ * 2. 解析CSS并与当前主题比较，逐个属性显示亮色和暗色模式的变化(旧色块 → 新色块)
+ * 3. 用户可以取消勾选不想导入的属性，并选择合并到当前主题还是替换整个主题
+ * 4. 列出被忽略和值无效的变量
+ * 5. 显示错误信息（如果没有找到任何可以导入的变量）
+ * 6. 用户确认后应用导入结果，关闭对话框并清空输入框
  * 
  * CSS变量是以"--"开头的特殊标记，比如"--primary: #FF0000"表示主色是红色。
  * 这些变量会被应用到整个网站的主题中。
  */
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -27,92 +29,259 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, ArrowRight } from "lucide-react";
+import { ThemeStyles } from "@/types/theme";
+import {
+  CssImportEntry,
+  CssImportOptions,
+  CssImportResult,
+  CssImportValueChange,
+  getCssImportChanges,
+  parseCssInput,
+} from "@/utils/parse-css-input";
+import {
+  isRegistryItemInput,
+  parseRegistryItem,
+} from "@/utils/parse-registry-item";
+import { usePreferencesStore } from "@/store/preferences-store";
 
 /**
  * 组件属性接口定义
  * 
- * 这个接口描述了这个组件需要接收的三个属性：
+ * 这个接口描述了这个组件需要接收的四个属性：
  * - open: 控制对话框是否显示
  * - onOpenChange: 当对话框开关状态变化时的回调函数
- * - onImport: 当用户点击导入按钮时的回调函数，会把CSS文本传递出去
+ * - currentStyles: 当前的主题样式，用于显示导入前后的差异
+ * - onImport: 当用户确认导入时的回调函数，会把解析结果和用户的选择传递出去
  */
 interface CssImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (css: string) => void;
+  currentStyles: ThemeStyles;
+  onImport: (result: CssImportResult, options: CssImportOptions) => void;
 }
 
+/**
+ * 单个值的预览：颜色显示色块，其他类型显示文本
+ */
+const ValuePreview = ({ value }: { value?: string }) =>
+  value === undefined ? (
+    <span className="text-xs text-muted-foreground">—</span>
+  ) : (
+    <span className="flex items-center gap-1.5 min-w-0">
+      {CSS.supports("color", value) && (
+        <span
+          className="size-3.5 shrink-0 rounded-sm border"
+          style={{ backgroundColor: value }}
+        />
+      )}
+      <span className="truncate font-mono text-[10px]" title={value}>
+        {value}
+      </span>
+    </span>
+  );
+
+/**
+ * 一个模式下的变化：旧值 → 新值，没有变化时显示占位符
+ */
+const ValueChange = ({ change }: { change?: CssImportValueChange }) =>
+  change ? (
+    <span className="flex items-center gap-1.5 min-w-0">
+      <ValuePreview value={change.previous} />
+      <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+      <ValuePreview value={change.next} />
+    </span>
+  ) : (
+    <span className="text-xs text-muted-foreground">unchanged</span>
+  );
+
+/**
+ * 导入报告中的一组变量
+ */
+const ReportSection = ({
+  title,
+  entries,
+  className,
+}: {
+  title: string;
+  entries: CssImportEntry[];
+  className?: string;
+}) =>
+  entries.length === 0 ? null : (
+    <div className="space-y-2">
+      <h3 className={`text-sm font-medium ${className ?? ""}`}>
+        {title} ({entries.length})
+      </h3>
+      <div className="rounded-md border divide-y">
+        {entries.map((entry, index) => (
+          <div
+            key={`${entry.mode}-${entry.name}-${index}`}
+            className="grid grid-cols-[1fr_3rem_1.4fr] items-center gap-3 px-3 py-1.5"
+          >
+            <span className="truncate font-mono text-xs" title={entry.name}>
+              --{entry.name}
+            </span>
+            <span className="text-xs capitalize text-muted-foreground">
+              {entry.mode}
+            </span>
+            <span className="min-w-0">
+              <span
+                className="block truncate font-mono text-[10px]"
+                title={entry.value}
+              >
+                {entry.value}
+              </span>
+              {entry.reason && (
+                <span className="block truncate text-[10px] text-muted-foreground">
+                  {entry.reason}
+                </span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
 const CssImportDialog: React.FC<CssImportDialogProps> = ({
   open,
   onOpenChange,
+  currentStyles,
   onImport,
 }) => {
   // 用于存储用户输入的CSS文本
   const [cssText, setCssText] = useState("");
   // 用于存储验证过程中可能出现的错误信息
   const [error, setError] = useState<string | null>(null);
+  // 解析结果，不为空时显示导入报告
+  const [result, setResult] = useState<CssImportResult | null>(null);
+  // 用户取消勾选的属性和自定义变量
+  const [rejected, setRejected] = useState<string[]>([]);
+  // 是否替换整个主题
+  const [replace, setReplace] = useState(false);
+  // 使用自定义暗黑模式选择器时，导入时也把它识别为暗黑模式
+  const darkModeStrategy = usePreferencesStore((state) => state.darkModeStrategy);
+  const darkModeSelector = usePreferencesStore((state) => state.darkModeSelector);
+
+  // 替换主题时以默认主题为基础，CSS中没有的属性也会列出
+  const changes = useMemo(
+    () => (result ? getCssImportChanges(result, currentStyles, replace) : []),
+    [result, currentStyles, replace]
+  );
+  const acceptedCount = changes.filter(
+    (change) => !rejected.includes(change.name)
+  ).length;
+
+  /**
+   * 切换某个属性是否导入
+   */
+  const toggleChange = (name: string, checked: boolean) => {
+    setRejected((current) =>
+      checked ? current.filter((item) => item !== name) : [...current, name]
+    );
+  };
 
   /**
-   * 处理导入按钮点击的函数
+   * 读取用户选择的CSS或JSON文件
+   */
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setCssText(await selected.text());
+    setError(null);
+  };
+
+  /**
+   * 处理检查按钮点击的函数
    * 
    * 这个函数会：
    * 1. 检查用户是否输入了内容
-   * 2. 检查输入的内容是否看起来像CSS变量（包含"--"和":"）
-   * 3. 如果验证通过，则调用onImport函数并关闭对话框
+   * 2. 解析CSS或注册表JSON，检查是否至少有一个可以导入的变量
+   * 3. 如果验证通过，则显示导入报告
    * 4. 如果验证失败，则显示错误信息
    */
-  const handleImport = () => {
+  const handleReview = () => {
     // 基础验证 - 检查CSS内容是否为空
     if (!cssText.trim()) {
       setError("Please enter CSS content");
       return;
     }
 
+    let parsed: CssImportResult;
     try {
-      // 这里可以添加更复杂的CSS解析验证
-      // 现在只做一个简单的检查
-      if (!cssText.includes("--") || !cssText.includes(":")) {
-        setError(
-          "Invalid CSS format. CSS should contain variable definitions like --primary: #color"
-        );
-        return;
-      }
-
-      // 验证通过，调用导入函数并清理状态
-      onImport(cssText);
-      setCssText("");
-      setError(null);
-      onOpenChange(false);
-    } catch {
-      setError("Failed to parse CSS. Please check your syntax.");
+      parsed = isRegistryItemInput(cssText)
+        ? parseRegistryItem(cssText)
+        : parseCssInput(
+            cssText,
+            darkModeStrategy === "custom" ? [darkModeSelector] : []
+          );
+    } catch (err) {
+      setError(
+        err instanceof SyntaxError
+          ? "Invalid JSON. Please check your syntax."
+          : (err as Error).message
+      );
+      return;
+    }
+
+    if (parsed.report.imported.length === 0) {
+      setError(
+        "No theme variables found. CSS should contain variable definitions like --primary: #color inside :root or .dark"
+      );
+      return;
     }
+
+    setResult(parsed);
+    setRejected([]);
+    setError(null);
   };
 
   /**
    * 处理关闭对话框的函数
    * 
    * 当用户点击取消按钮或者关闭对话框时，
-   * 清空输入框和错误信息，然后关闭对话框
+   * 清空输入框、报告和错误信息，然后关闭对话框
    */
   const handleClose = () => {
     setCssText("");
+    setResult(null);
+    setRejected([]);
+    setReplace(false);
     setError(null);
     onOpenChange(false);
   };
 
+  /**
+   * 应用导入结果并关闭对话框
+   */
+  const handleImport = () => {
+    if (!result) return;
+    onImport(result, { replace, rejected });
+    handleClose();
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[90vh]">
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : handleClose())}
+    >
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] flex flex-col">
         {/* 对话框标题和描述 */}
         <DialogHeader>
           <DialogTitle className="text-foreground">
-            Import Custom CSS
+            Import CSS or Registry Item
           </DialogTitle>
           <DialogDescription>
-            Paste your CSS file below to customize the theme colors. Make sure
-            to include variables like --primary, --background, etc.
+            {result
+              ? "Review the changes and untick any tokens you don't want to import."
+              : "Paste your CSS or a shadcn registry item (registry:style JSON) below. Make sure to include variables like --primary, --background, etc."}
           </DialogDescription>
         </DialogHeader>
 
@@ -124,10 +293,133 @@ const CssImportDialog: React.FC<CssImportDialogProps> = ({
           </Alert>
         )}
 
-        {/* CSS输入区域 */}
-        <div className="grid gap-4 py-4">
-          <Textarea
-            placeholder={`:root {
+        {result ? (
+          /* 导入报告 */
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+            {/* 合并还是替换 */}
+            <RadioGroup
+              value={replace ? "replace" : "merge"}
+              onValueChange={(value) => setReplace(value === "replace")}
+              className="grid gap-2 sm:grid-cols-2"
+            >
+              <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+                <RadioGroupItem value="merge" className="mt-0.5" />
+                <span>
+                  <span className="block text-sm font-medium">
+                    Merge into current
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    Only the selected tokens change.
+                  </span>
+                </span>
+              </Label>
+              <Label className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+                <RadioGroupItem value="replace" className="mt-0.5" />
+                <span>
+                  <span className="block text-sm font-medium">
+                    Replace entire theme
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    Tokens missing from the CSS reset to defaults and other
+                    custom variables and modes are removed. Untick a token to
+                    keep its current value.
+                  </span>
+                </span>
+              </Label>
+            </RadioGroup>
+
+            {/* 逐个属性的差异 */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">
+                  Changes ({acceptedCount} of {changes.length} selected)
+                </h3>
+                {changes.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() =>
+                      setRejected(
+                        rejected.length > 0
+                          ? []
+                          : changes.map((change) => change.name)
+                      )
+                    }
+                  >
+                    {rejected.length > 0 ? "Select all" : "Select none"}
+                  </Button>
+                )}
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Every imported token already matches the current theme.
+                </p>
+              ) : (
+                <div className="rounded-md border divide-y">
+                  <div className="grid grid-cols-[1rem_1fr_1.5fr_1.5fr] gap-3 px-3 py-1.5 text-xs text-muted-foreground">
+                    <span />
+                    <span>Token</span>
+                    <span>Light</span>
+                    <span>Dark</span>
+                  </div>
+                  {changes.map((change) => (
+                    <label
+                      key={`${change.kind}-${change.name}`}
+                      className="grid grid-cols-[1rem_1fr_1.5fr_1.5fr] items-center gap-3 px-3 py-1.5 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={!rejected.includes(change.name)}
+                        onCheckedChange={(checked) =>
+                          toggleChange(change.name, !!checked)
+                        }
+                      />
+                      <span
+                        className="truncate font-mono text-xs"
+                        title={change.name}
+                      >
+                        --{change.name}
+                        {change.kind === "custom" && (
+                          <span className="ml-1.5 font-sans text-[10px] text-muted-foreground">
+                            custom
+                          </span>
+                        )}
+                        {change.reset && (
+                          <span className="ml-1.5 font-sans text-[10px] text-muted-foreground">
+                            {change.kind === "custom" ? "removed" : "reset"}
+                          </span>
+                        )}
+                      </span>
+                      <ValueChange change={change.light} />
+                      <ValueChange change={change.dark} />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <ReportSection
+              title="Invalid"
+              entries={result.report.invalid}
+              className="text-destructive"
+            />
+            <ReportSection
+              title="Ignored"
+              entries={result.report.ignored}
+              className="text-muted-foreground"
+            />
+          </div>
+        ) : (
+          /* CSS输入区域 */
+          <div className="grid gap-4 py-4">
+            <Input
+              type="file"
+              accept=".css,.json,text/css,application/json"
+              onChange={handleFileChange}
+              className="h-9 text-sm"
+            />
+            <Textarea
+              placeholder={`:root {
   --background: 0 0% 100%;
   --foreground: oklch(0.52 0.13 144.17);
   --primary: #3e2723;
@@ -140,18 +432,28 @@ const CssImportDialog: React.FC<CssImportDialogProps> = ({
   /* And more */
 }
   `}
-            className="min-h-[300px] font-mono text-sm text-foreground"
-            value={cssText}
-            onChange={(e) => {
-              setCssText(e.target.value);
-              // 当用户开始输入时，清除错误提示
-              if (error) setError(null);
-            }}
-          />
-        </div>
+              className="min-h-[300px] font-mono text-sm text-foreground"
+              value={cssText}
+              onChange={(e) => {
+                setCssText(e.target.value);
+                // 当用户开始输入时，清除错误提示
+                if (error) setError(null);
+              }}
+            />
+          </div>
+        )}
         
         {/* 底部按钮区域 */}
         <DialogFooter>
+          {result && (
+            <Button
+              variant="outline"
+              onClick={() => setResult(null)}
+              className="text-foreground mr-auto"
+            >
+              Back
+            </Button>
+          )}
           <Button
             variant="outline"
             onClick={handleClose}
@@ -159,7 +461,16 @@ const CssImportDialog: React.FC<CssImportDialogProps> = ({
           >
             Cancel
           </Button>
-          <Button onClick={handleImport}>Import</Button>
+          {result ? (
+            <Button
+              onClick={handleImport}
+              disabled={!replace && acceptedCount === 0}
+            >
+              {replace ? "Replace Theme" : `Import ${acceptedCount} tokens`}
+            </Button>
+          ) : (
+            <Button onClick={handleReview}>Review</Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
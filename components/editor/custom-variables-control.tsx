@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { CustomVariable, CustomVariableType } from "@/types/theme";
+import {
+  CUSTOM_VARIABLE_DEFAULT_VALUES,
+  getCustomVariableNameError,
+  inferCustomVariableType,
+  normalizeCustomVariableName,
+} from "@/utils/custom-variables";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import ColorPicker from "./color-picker";
+import ControlSection from "./control-section";
+
+interface CustomVariablesControlProps {
+  variables: CustomVariable[];
+  currentMode: "light" | "dark";
+  onChange: (variables: CustomVariable[], mergeKey?: string) => void;
+}
+
+const VARIABLE_TYPES: { label: string; value: CustomVariableType }[] = [
+  { label: "Color", value: "color" },
+  { label: "Length", value: "length" },
+  { label: "Raw", value: "raw" },
+];
+
+const TypeSelect = ({
+  value,
+  onChange,
+}: {
+  value: CustomVariableType;
+  onChange: (value: CustomVariableType) => void;
+}) => (
+  <Select
+    value={value}
+    onValueChange={(type) => onChange(type as CustomVariableType)}
+  >
+    <SelectTrigger className="h-8 w-24 text-xs">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {VARIABLE_TYPES.map((type) => (
+        <SelectItem key={type.value} value={type.value} className="text-xs">
+          {type.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const CustomVariableItem = ({
+  variable,
+  index,
+  variables,
+  currentMode,
+  onUpdate,
+  onRemove,
+}: {
+  variable: CustomVariable;
+  index: number;
+  variables: CustomVariable[];
+  currentMode: "light" | "dark";
+  onUpdate: (variable: CustomVariable, continuous?: boolean) => void;
+  onRemove: () => void;
+}) => {
+  const [name, setName] = useState(variable.name);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [value, setValue] = useState(variable[currentMode]);
+
+  useEffect(() => {
+    setName(variable.name);
+    setNameError(null);
+  }, [variable.name]);
+
+  useEffect(() => {
+    setValue(variable[currentMode]);
+  }, [variable, currentMode]);
+
+  const commitName = () => {
+    const cleanName = normalizeCustomVariableName(name);
+    if (cleanName === variable.name) {
+      setName(variable.name);
+      setNameError(null);
+      return;
+    }
+    const error = getCustomVariableNameError(cleanName, variables, index);
+    setNameError(error);
+    if (!error) onUpdate({ ...variable, name: cleanName });
+  };
+
+  // 切换类型时，不符合新类型的值会被重置为默认值
+  const changeType = (type: CustomVariableType) => {
+    const keepValue = (current: string) =>
+      type === "raw" || inferCustomVariableType(current) === type;
+    onUpdate({
+      ...variable,
+      type,
+      light: keepValue(variable.light)
+        ? variable.light
+        : CUSTOM_VARIABLE_DEFAULT_VALUES[type],
+      dark: keepValue(variable.dark)
+        ? variable.dark
+        : CUSTOM_VARIABLE_DEFAULT_VALUES[type],
+    });
+  };
+
+  return (
+    <div className="mb-4 space-y-2 border-b pb-4 last:border-b-0 last:pb-0">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground">--</span>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitName();
+          }}
+          className="h-8 flex-1 text-xs"
+          aria-label="Variable name"
+        />
+        <TypeSelect value={variable.type} onChange={changeType} />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+          onClick={onRemove}
+          aria-label={`Remove --${variable.name}`}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+
+      {variable.type === "color" ? (
+        <ColorPicker
+          color={variable[currentMode]}
+          onChange={(color) =>
+            onUpdate({ ...variable, [currentMode]: color }, true)
+          }
+          label={`--${variable.name}`}
+        />
+      ) : (
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={() => {
+            if (value !== variable[currentMode]) {
+              onUpdate({ ...variable, [currentMode]: value.trim() });
+            }
+          }}
+          className="h-8 text-xs font-mono"
+          aria-label={`--${variable.name} value`}
+        />
+      )}
+    </div>
+  );
+};
+
+const CustomVariablesControl: React.FC<CustomVariablesControlProps> = ({
+  variables,
+  currentMode,
+  onChange,
+}) => {
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<CustomVariableType>("color");
+  const [error, setError] = useState<string | null>(null);
+
+  const addVariable = () => {
+    const nameError = getCustomVariableNameError(newName, variables);
+    setError(nameError);
+    if (nameError) return;
+
+    const value = CUSTOM_VARIABLE_DEFAULT_VALUES[newType];
+    onChange([
+      ...variables,
+      {
+        name: normalizeCustomVariableName(newName),
+        type: newType,
+        light: value,
+        dark: value,
+      },
+    ]);
+    setNewName("");
+  };
+
+  return (
+    <ControlSection title="Custom Variables" expanded={variables.length > 0}>
+      <p className="text-xs text-muted-foreground mb-4">
+        Extra tokens added to your theme. Values are set per mode, currently
+        editing <span className="font-medium">{currentMode}</span>.
+      </p>
+
+      {variables.map((variable, index) => (
+        <CustomVariableItem
+          key={`${index}-${variable.name}`}
+          variable={variable}
+          index={index}
+          variables={variables}
+          currentMode={currentMode}
+          // Dragging a color picker merges into one undo step per variable
+          onUpdate={(updated, continuous) =>
+            onChange(
+              variables.map((v, i) => (i === index ? updated : v)),
+              continuous ? `--${variable.name}` : undefined
+            )
+          }
+          onRemove={() => onChange(variables.filter((_, i) => i !== index))}
+        />
+      ))}
+
+      <div className="mt-4 space-y-1.5">
+        <Label htmlFor="custom-variable-name" className="text-xs font-medium">
+          New Variable
+        </Label>
+        <div className="flex items-center gap-1">
+          <Input
+            id="custom-variable-name"
+            value={newName}
+            placeholder="surface-2"
+            onChange={(e) => {
+              setNewName(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addVariable();
+            }}
+            className="h-8 flex-1 text-xs"
+          />
+          <TypeSelect value={newType} onChange={setNewType} />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={addVariable}
+            aria-label="Add variable"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </ControlSection>
+  );
+};
+
+export default CustomVariablesControl;
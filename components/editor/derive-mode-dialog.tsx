@@ -0,0 +1,195 @@
+/**
+ * 明暗模式派生对话框组件
+ *
+ * 这个对话框从当前主题的一个模式自动推导出另一个模式的配色，
+ * 在替换之前逐个展示目标模式中将要变化的颜色。
+ *
+ * 功能包括：
+ * 1. 选择派生方向：从亮色派生暗色，或者从暗色派生亮色
+ * 2. 对比目标模式当前的颜色和派生后的颜色，高亮发生变化的颜色
+ * 3. 应用后替换目标模式的颜色，可以通过撤销恢复
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ThemeStyleProps, ThemeStyles } from "@/types/theme";
+import { COMMON_STYLES } from "@/config/theme";
+import { deriveThemeMode } from "@/utils/mode-derivation";
+import { cn } from "@/lib/utils";
+
+/**
+ * 组件属性接口定义
+ *
+ * - open: 控制对话框是否显示
+ * - onOpenChange: 当对话框开关状态变化时的回调函数
+ * - styles: 当前的主题样式
+ * - defaultSource: 默认作为来源的模式
+ * - onApply: 应用派生结果的回调函数
+ */
+interface DeriveModeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  styles: ThemeStyles;
+  defaultSource: "light" | "dark";
+  onApply: (styles: ThemeStyles) => void;
+}
+
+/**
+ * 单个颜色的对比行
+ * 左边是目标模式当前的颜色，右边是派生后的颜色
+ */
+const ColorDiffRow = ({
+  name,
+  before,
+  after,
+}: {
+  name: string;
+  before: string;
+  after: string;
+}) => {
+  const changed = before !== after;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-3 rounded-md px-2 py-1.5",
+        changed ? "bg-accent/50" : "opacity-60"
+      )}
+    >
+      <span className="flex-1 truncate text-xs font-medium">{name}</span>
+      <div className="flex items-center gap-1.5">
+        <div
+          className="size-5 rounded border"
+          style={{ backgroundColor: before }}
+          title={before}
+        />
+        <span className="w-16 truncate font-mono text-[10px] text-muted-foreground">
+          {before}
+        </span>
+      </div>
+      <span className="text-xs text-muted-foreground">→</span>
+      <div className="flex items-center gap-1.5">
+        <div
+          className="size-5 rounded border"
+          style={{ backgroundColor: after }}
+          title={after}
+        />
+        <span className="w-16 truncate font-mono text-[10px] text-muted-foreground">
+          {after}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const DeriveModeDialog: React.FC<DeriveModeDialogProps> = ({
+  open,
+  onOpenChange,
+  styles,
+  defaultSource,
+  onApply,
+}) => {
+  const [source, setSource] = useState<"light" | "dark">(defaultSource);
+  const target = source === "light" ? "dark" : "light";
+
+  // 来源或主题变化时重新派生
+  const derived = useMemo(
+    () => deriveThemeMode(styles, source),
+    [styles, source]
+  );
+
+  // 目标模式中所有的颜色属性，以及发生变化的数量
+  const colorKeys = (
+    Object.keys(derived[target]) as (keyof ThemeStyleProps)[]
+  ).filter((key) => !COMMON_STYLES.includes(key));
+  const changedCount = colorKeys.filter(
+    (key) => styles[target][key] !== derived[target][key]
+  ).length;
+
+  /**
+   * 每次打开对话框时，把来源重置为当前编辑的模式
+   * 对话框由外部控制打开，Radix 不会在打开时调用 onOpenChange，所以在这里监听 open
+   */
+  useEffect(() => {
+    if (open) setSource(defaultSource);
+  }, [open, defaultSource]);
+
+  const handleApply = () => {
+    onApply(derived);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">
+            Derive {target === "dark" ? "Dark" : "Light"} Mode
+          </DialogTitle>
+          <DialogDescription>
+            Generate the {target} palette from your {source} colors. Lightness
+            is inverted while hue and chroma are kept, and every foreground is
+            adjusted to at least 4.5:1 contrast.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={source}
+          onValueChange={(value) => setSource(value as "light" | "dark")}
+        >
+          <TabsList className="w-full">
+            <TabsTrigger value="light" className="flex-1">
+              Light → Dark
+            </TabsTrigger>
+            <TabsTrigger value="dark" className="flex-1">
+              Dark → Light
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Current {target} → Derived {target}
+          </span>
+          <span>
+            {changedCount} of {colorKeys.length} colors will change
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-0.5 pr-1">
+          {colorKeys.map((key) => (
+            <ColorDiffRow
+              key={key}
+              name={key}
+              before={styles[target][key]}
+              after={derived[target][key]}
+            />
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="text-foreground"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={changedCount === 0}>
+            Replace {target === "dark" ? "Dark" : "Light"} Colors
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeriveModeDialog;
@@ -93,9 +93,10 @@ const Editor: React.FC<EditorProps> = ({ config }) => {
    * 它将新的样式更新到编辑器状态中，从而触发相关组件的重新渲染。
    * 
    * @param {ThemeStyles} newStyles - 更新后的主题样式
+   * @param {string} mergeKey - 被编辑的控件，同一个控件的连续编辑合并为一条撤销历史
    */
-  const handleStyleChange = (newStyles: ThemeStyles) => {
-    setThemeState({ ...themeState, styles: newStyles });
+  const handleStyleChange = (newStyles: ThemeStyles, mergeKey?: string) => {
+    setThemeState({ ...themeState, styles: newStyles }, mergeKey);
   };
 
   // 确保我们有有效的主题样式
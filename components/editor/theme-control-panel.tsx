@@ -43,13 +43,21 @@ import {
 import { Separator } from "../ui/separator";
 import { AlertCircle } from "lucide-react";
 import ShadowControl from "./shadow-control";
+import CustomVariablesControl from "./custom-variables-control";
+import ColorScaleControl from "./color-scale-control";
+import ChartPaletteControl from "./chart-palette-control";
 import TabsTriggerPill from "./theme-preview/tabs-trigger-pill";
+import {
+  getModeScheme,
+  getModeStyles,
+  updateModeStyles,
+} from "@/utils/theme-modes";
 
 /**
  * 主题控制面板组件定义
  * 
  * @param styles - 当前应用的主题样式
- * @param currentMode - 当前使用的模式（明亮模式或暗黑模式）
+ * @param currentMode - 当前使用的模式（明亮模式、暗黑模式或命名模式）
  * @param onChange - 当样式改变时的回调函数
  */
 const ThemeControlPanel = ({
@@ -70,8 +78,8 @@ const ThemeControlPanel = ({
    */
   const currentStyles = React.useMemo(
     () => ({
-      ...defaultThemeState.styles[currentMode],
-      ...styles?.[currentMode],
+      ...defaultThemeState.styles[getModeScheme(styles, currentMode)],
+      ...getModeStyles(styles, currentMode),
     }),
     [currentMode, styles]
   );
@@ -93,22 +101,25 @@ const ThemeControlPanel = ({
     ) => {
       // 对于通用样式（如字体、圆角等），同时更新明亮和暗黑两种模式
       if (COMMON_STYLES.includes(key)) {
-        onChange({
-          ...styles,
-          light: { ...styles.light, [key]: value },
-          dark: { ...styles.dark, [key]: value },
-        });
+        onChange(
+          {
+            ...styles,
+            light: { ...styles.light, [key]: value },
+            dark: { ...styles.dark, [key]: value },
+          },
+          key
+        );
         return;
       }
 
-      // 只更新当前模式的样式
-      onChange({
-        ...styles,
-        [currentMode]: {
+      // 只更新当前模式的样式(命名模式只保存与基础模式不同的属性)
+      onChange(
+        updateModeStyles(styles, currentMode, {
           ...currentStyles,
           [key]: value,
-        },
-      });
+        }),
+        key
+      );
     },
     [onChange, styles, currentMode, currentStyles]
   );
@@ -207,6 +218,13 @@ const ThemeControlPanel = ({
                 />
               </ControlSection>
 
+              {/* 色阶 - 为主色、次要色和强调色生成50-950的色阶 */}
+              <ColorScaleControl
+                scales={styles.scales ?? []}
+                currentStyles={currentStyles}
+                onChange={(scales) => onChange({ ...styles, scales })}
+              />
+
               {/* 基础颜色设置 - 整个网站的背景色和默认文字颜色 */}
               <ControlSection title="Base Colors">
                 <ColorPicker
@@ -279,6 +297,40 @@ const ThemeControlPanel = ({
                 />
               </ControlSection>
 
+              {/* 状态颜色设置 - 用于成功、警告、提示信息等状态提示 */}
+              <ControlSection title="Status Colors">
+                <ColorPicker
+                  color={currentStyles.success}
+                  onChange={(color) => updateStyle("success", color)}
+                  label="Success"
+                />
+                <ColorPicker
+                  color={currentStyles["success-foreground"]}
+                  onChange={(color) => updateStyle("success-foreground", color)}
+                  label="Success Foreground"
+                />
+                <ColorPicker
+                  color={currentStyles.warning}
+                  onChange={(color) => updateStyle("warning", color)}
+                  label="Warning"
+                />
+                <ColorPicker
+                  color={currentStyles["warning-foreground"]}
+                  onChange={(color) => updateStyle("warning-foreground", color)}
+                  label="Warning Foreground"
+                />
+                <ColorPicker
+                  color={currentStyles.info}
+                  onChange={(color) => updateStyle("info", color)}
+                  label="Info"
+                />
+                <ColorPicker
+                  color={currentStyles["info-foreground"]}
+                  onChange={(color) => updateStyle("info-foreground", color)}
+                  label="Info Foreground"
+                />
+              </ControlSection>
+
               {/* 边框和输入框颜色设置 */}
               <ControlSection title="Border & Input Colors">
                 <ColorPicker
@@ -300,6 +352,19 @@ const ThemeControlPanel = ({
 
               {/* 图表颜色设置 - 用于数据可视化 */}
               <ControlSection title="Chart Colors">
+                {/* 调色板生成器 - 按最小感知距离一次生成五种图表颜色 */}
+                <ChartPaletteControl
+                  currentStyles={currentStyles}
+                  onApply={(colors) =>
+                    onChange(
+                      updateModeStyles(styles, currentMode, {
+                        ...currentStyles,
+                        ...colors,
+                      }),
+                      "chart-palette"
+                    )
+                  }
+                />
                 <ColorPicker
                   color={currentStyles["chart-1"]}
                   onChange={(color) => updateStyle("chart-1", color)}
@@ -461,7 +526,7 @@ const ThemeControlPanel = ({
               </ControlSection>
             </TabsContent>
 
-            {/* 其他设置标签页 - 控制圆角、间距和阴影 */}
+            {/* 其他设置标签页 - 控制圆角、间距、阴影和自定义变量 */}
             <TabsContent value="other">
               {/* 圆角设置 - 控制UI元素的圆角程度 */}
               <ControlSection title="Radius" expanded>
@@ -521,6 +586,16 @@ const ThemeControlPanel = ({
                   }}
                 />
               </div>
+
+              {/* 自定义变量 - 内置属性之外的额外设计令牌 */}
+              <CustomVariablesControl
+                variables={styles.customVariables ?? []}
+                // 自定义变量只有亮色和暗色两个值，命名模式使用它继承的基础模式
+                currentMode={getModeScheme(styles, currentMode)}
+                onChange={(customVariables, mergeKey) =>
+                  onChange({ ...styles, customVariables }, mergeKey)
+                }
+              />
             </TabsContent>
           </ScrollArea>
         </Tabs>
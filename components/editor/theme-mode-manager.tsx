@@ -0,0 +1,199 @@
+/**
+ * 命名模式管理组件
+ *
+ * 操作栏中的弹出面板，列出主题的所有模式(light、dark 和命名模式)：
+ * 1. 点击模式名称切换到该模式进行预览和编辑
+ * 2. 添加新的命名模式，选择它继承的基础模式和可选的CSS选择器
+ * 3. 删除命名模式
+ *
+ * 新模式刚创建时与基础模式完全相同，之后在控制面板中修改的属性只保存差异。
+ */
+import React, { useState } from "react";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useEditorStore } from "@/store/editor-store";
+import { ThemeModeName } from "@/types/theme";
+import {
+  findNamedMode,
+  getModeNameError,
+  getModeNames,
+  getNamedModeSelector,
+  getNamedModes,
+  removeNamedMode,
+} from "@/utils/theme-modes";
+import { cn } from "@/lib/utils";
+
+const ThemeModeManager = () => {
+  const { themeState, setThemeState } = useEditorStore();
+  const { styles, currentMode } = themeState;
+
+  // 新模式的名称、基础模式和选择器
+  const [name, setName] = useState("");
+  const [base, setBase] = useState<ThemeModeName>("dark");
+  const [selector, setSelector] = useState("");
+
+  const modeNames = getModeNames(styles);
+  const nameError = name ? getModeNameError(name, styles) : null;
+
+  /**
+   * 添加命名模式并切换到它
+   */
+  const handleAdd = () => {
+    const cleanName = name.trim();
+    if (getModeNameError(cleanName, styles)) return;
+
+    setThemeState({
+      ...themeState,
+      currentMode: cleanName,
+      styles: {
+        ...styles,
+        modes: [
+          ...getNamedModes(styles),
+          {
+            name: cleanName,
+            base,
+            ...(selector.trim() && { selector: selector.trim() }),
+            styles: {},
+          },
+        ],
+      },
+    });
+    setName("");
+    setSelector("");
+  };
+
+  /**
+   * 删除命名模式，正在查看的模式被删除时切换到它的基础模式
+   */
+  const handleRemove = (mode: string) => {
+    const removed = findNamedMode(styles, mode);
+    setThemeState({
+      ...themeState,
+      currentMode:
+        currentMode === mode && removed ? removed.base : currentMode,
+      styles: removeNamedMode(styles, mode),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 gap-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/50"
+        >
+          <Layers className="size-3.5" />
+          <span className="text-sm capitalize hidden md:block">
+            {currentMode}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Modes</Label>
+          <div className="rounded-md border divide-y">
+            {modeNames.map((mode) => {
+              const namedMode = findNamedMode(styles, mode);
+              return (
+                <div
+                  key={mode}
+                  className={cn(
+                    "flex items-center gap-2 px-2 py-1.5",
+                    mode === currentMode && "bg-muted"
+                  )}
+                >
+                  <button
+                    onClick={() =>
+                      setThemeState({ ...themeState, currentMode: mode })
+                    }
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <span className="text-sm font-medium capitalize">
+                      {mode}
+                    </span>
+                    {namedMode && (
+                      <span className="block truncate text-xs text-muted-foreground">
+                        inherits {namedMode.base} •{" "}
+                        <span className="font-mono">
+                          {getNamedModeSelector(namedMode)}
+                        </span>
+                      </span>
+                    )}
+                  </button>
+                  {namedMode && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      onClick={() => handleRemove(mode)}
+                      aria-label={`Remove ${mode} mode`}
+                    >
+                      <Trash2 className="size-3.5" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* 添加命名模式 */}
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">Add mode</Label>
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="dim"
+              className="h-8 text-sm"
+            />
+            <Select
+              value={base}
+              onValueChange={(value) => setBase(value as ThemeModeName)}
+            >
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {modeNames.map((mode) => (
+                  <SelectItem key={mode} value={mode} className="text-xs">
+                    from {mode}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            value={selector}
+            onChange={(e) => setSelector(e.target.value)}
+            placeholder={`Selector (default .${name.trim() || "name"})`}
+            className="h-8 font-mono text-sm"
+          />
+          {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={handleAdd}
+            disabled={!name || !!nameError}
+          >
+            <Plus className="size-3.5" />
+            Add Mode
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ThemeModeManager;
@@ -4,19 +4,27 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { ThemePreset } from "../../types/theme";
+import { SavedTheme, ThemePreset } from "../../types/theme";
 import { useEditorStore } from "../../store/editor-store";
+import { useThemeLibraryStore } from "../../store/theme-library-store";
 import { getPresetThemeStyles } from "../../utils/theme-presets";
+import { getModeScheme } from "../../utils/theme-modes";
 import { Button } from "../ui/button";
 import {
   ArrowLeft,
   ArrowRight,
   Check,
   ChevronDown,
+  Copy,
   Moon,
+  Pencil,
+  Plus,
   Search,
   Shuffle,
   Sun,
+  Trash2,
+  Wand2,
+  X,
 } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
 import { Separator } from "../ui/separator";
@@ -36,6 +44,7 @@ import {
 import { Input } from "../ui/input";
 import { Badge } from "../ui/badge";
 import { cn } from "@/lib/utils";
+import BrandThemeDialog from "./brand-theme-dialog";
 
 interface ThemePresetSelectProps {
   presets: Record<string, ThemePreset>;
@@ -60,6 +69,142 @@ const isThemeNew = (preset: ThemePreset) => {
   return createdAt > timePeriod;
 };
 
+interface SavedThemeItemProps {
+  theme: SavedTheme;
+  mode: "light" | "dark";
+  isActive: boolean;
+  onSelect: () => void;
+}
+
+const SavedThemeItem = ({
+  theme,
+  mode,
+  isActive,
+  onSelect,
+}: SavedThemeItemProps) => {
+  const { renameTheme, duplicateTheme, deleteTheme } = useThemeLibraryStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(theme.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const commitRename = () => {
+    renameTheme(theme.id, name);
+    setIsEditing(false);
+  };
+
+  // Prevent clicks on the inline actions from selecting the item
+  const stop = (event: React.SyntheticEvent) => event.stopPropagation();
+
+  return (
+    <CommandItem
+      onSelect={() => !isEditing && onSelect()}
+      className="flex items-center gap-2 py-2 hover:bg-secondary/50 group"
+    >
+      <div className="flex gap-0.5 mr-2">
+        <ColorBox color={theme.styles[mode].primary} />
+        <ColorBox color={theme.styles[mode].accent} />
+        <ColorBox color={theme.styles[mode].secondary} />
+        <ColorBox color={theme.styles[mode].border} />
+      </div>
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        {isEditing ? (
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onClick={stop}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") {
+                setName(theme.name);
+                setIsEditing(false);
+              }
+            }}
+            onBlur={commitRename}
+            className="h-7 text-sm"
+          />
+        ) : (
+          <span className="text-sm font-medium truncate">{theme.name}</span>
+        )}
+      </div>
+      {!isEditing && (
+        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 group-data-[selected=true]:opacity-100">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            title="Rename"
+            onClick={(e) => {
+              stop(e);
+              setName(theme.name);
+              setIsEditing(true);
+            }}
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            title="Duplicate"
+            onClick={(e) => {
+              stop(e);
+              duplicateTheme(theme.id);
+            }}
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          {confirmDelete ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-destructive"
+                title="Confirm delete"
+                onClick={(e) => {
+                  stop(e);
+                  deleteTheme(theme.id);
+                }}
+              >
+                <Check className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                title="Cancel"
+                onClick={(e) => {
+                  stop(e);
+                  setConfirmDelete(false);
+                }}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Delete"
+              onClick={(e) => {
+                stop(e);
+                setConfirmDelete(true);
+              }}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      )}
+      {isActive && !isEditing && (
+        <Check className="h-4 w-4 shrink-0 opacity-70" />
+      )}
+    </CommandItem>
+  );
+};
+
 const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
   presets,
   currentPreset,
@@ -67,15 +212,24 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
 }) => {
   const { themeState } = useEditorStore();
   const { hasChangedThemeFromDefault } = useEditorStore();
+  const { savedThemes, createTheme, loadTheme } = useThemeLibraryStore();
   const { theme, toggleTheme } = useTheme();
-  const mode = themeState.currentMode;
+  // 预设只有亮色和暗色，命名模式使用它继承的基础模式来显示色块
+  const mode = getModeScheme(themeState.styles, themeState.currentMode);
   const [search, setSearch] = useState("");
+  const [brandDialogOpen, setBrandDialogOpen] = useState(false);
 
   const presetNames = useMemo(
     () => ["default", ...Object.keys(presets)],
     [presets]
   );
   const value = presetNames?.find((name) => name === currentPreset);
+  const activeSavedTheme = themeState.savedThemeId
+    ? savedThemes[themeState.savedThemeId]
+    : undefined;
+  const triggerStyles =
+    activeSavedTheme?.styles[mode] ??
+    getPresetThemeStyles(value || "default")[mode];
   const currentIndex =
     useMemo(
       () => presetNames.indexOf(value || "default"),
@@ -114,6 +268,16 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
     });
   }, [presetNames, search, presets]);
 
+  const filteredSavedThemes = useMemo(
+    () =>
+      Object.values(savedThemes)
+        .filter((theme) =>
+          theme.name.toLowerCase().includes(search.trim().toLowerCase())
+        )
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [savedThemes, search]
+  );
+
   const handleThemeToggle = (event: React.MouseEvent<HTMLButtonElement>) => {
     const { clientX: x, clientY: y } = event;
     toggleTheme({ x, y });
@@ -129,35 +293,27 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
               className={cn(
                 "w-full md:min-w-56 min-h-14 rounded-none justify-between group relative",
                 (!value || value === "default") &&
+                  !activeSavedTheme &&
                   !hasChangedThemeFromDefault &&
                   "bg-muted/30 animate-pulse"
               )}
             >
               <div className="flex items-center gap-3">
                 <div className="flex gap-0.5">
-                  <ColorBox
-                    color={
-                      getPresetThemeStyles(value || "default")[mode].primary
-                    }
-                  />
-                  <ColorBox
-                    color={
-                      getPresetThemeStyles(value || "default")[mode].accent
-                    }
-                  />
-                  <ColorBox
-                    color={
-                      getPresetThemeStyles(value || "default")[mode].secondary
-                    }
-                  />
-                  <ColorBox
-                    color={
-                      getPresetThemeStyles(value || "default")[mode].border
-                    }
-                  />
+                  <ColorBox color={triggerStyles.primary} />
+                  <ColorBox color={triggerStyles.accent} />
+                  <ColorBox color={triggerStyles.secondary} />
+                  <ColorBox color={triggerStyles.border} />
                 </div>
-                <span className="capitalize font-medium">
-                  {presets[value || "default"]?.label || "default"}
+                <span
+                  className={cn(
+                    "font-medium",
+                    !activeSavedTheme && "capitalize"
+                  )}
+                >
+                  {activeSavedTheme?.name ||
+                    presets[value || "default"]?.label ||
+                    "default"}
                 </span>
               </div>
               <ChevronDown className="size-4 shrink-0" />
@@ -178,10 +334,44 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
               </div>
               <div className="flex items-center justify-between px-4 py-2">
                 <div className="text-xs text-muted-foreground">
-                  {filteredPresets.length} theme
-                  {filteredPresets.length !== 1 ? "s" : ""}
+                  {filteredPresets.length + filteredSavedThemes.length} theme
+                  {filteredPresets.length + filteredSavedThemes.length !== 1
+                    ? "s"
+                    : ""}
                 </div>
                 <div className="flex gap-1">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => createTheme()}
+                      >
+                        <Plus className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      <p className="text-xs">Save as new theme</p>
+                    </TooltipContent>
+                  </Tooltip>
+
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => setBrandDialogOpen(true)}
+                      >
+                        <Wand2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      <p className="text-xs">Generate from brand color</p>
+                    </TooltipContent>
+                  </Tooltip>
+
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
@@ -222,7 +412,26 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
               <Separator />
               <ScrollArea className="h-[500px] max-h-[70vh]">
                 <CommandEmpty>No themes found.</CommandEmpty>
-                <CommandGroup>
+                {filteredSavedThemes.length > 0 && (
+                  <>
+                    <CommandGroup heading="My Themes">
+                      {filteredSavedThemes.map((savedTheme) => (
+                        <SavedThemeItem
+                          key={savedTheme.id}
+                          theme={savedTheme}
+                          mode={mode}
+                          isActive={savedTheme.id === activeSavedTheme?.id}
+                          onSelect={() => {
+                            loadTheme(savedTheme.id);
+                            setSearch("");
+                          }}
+                        />
+                      ))}
+                    </CommandGroup>
+                    <Separator />
+                  </>
+                )}
+                <CommandGroup heading="Built-in Themes">
                   {filteredPresets.map((presetName) => (
                     <CommandItem
                       key={presetName}
@@ -262,7 +471,7 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
                             </Badge>
                           )}
                       </div>
-                      {presetName === value && (
+                      {presetName === value && !activeSavedTheme && (
                         <Check className="h-4 w-4 shrink-0 opacity-70" />
                       )}
                     </CommandItem>
@@ -305,6 +514,11 @@ const ThemePresetSelect: React.FC<ThemePresetSelectProps> = ({
         </TooltipTrigger>
         <TooltipContent>Next theme</TooltipContent>
       </Tooltip>
+
+      <BrandThemeDialog
+        open={brandDialogOpen}
+        onOpenChange={setBrandDialogOpen}
+      />
     </div>
   );
 };
@@ -10,6 +10,7 @@
  * 2. 显示主题的完整调色板
  * 3. 支持全屏预览和主题切换
  * 4. 响应式设计，适应不同尺寸的屏幕
+ * 5. 模拟色觉缺陷(红色盲、绿色盲、蓝色盲、全色盲)下的显示效果
  */
 
 "use client"; // 表示这是一个客户端组件，将在浏览器中运行
@@ -21,7 +22,7 @@ import { ScrollArea, ScrollBar } from "../ui/scroll-area"; // 滚动区域组件
 import ColorPreview from "./theme-preview/color-preview"; // 颜色预览组件，展示调色板
 import TabsTriggerPill from "./theme-preview/tabs-trigger-pill"; // 胶囊型标签触发器组件
 import ExamplesPreviewContainer from "./theme-preview/examples-preview-container"; // 示例预览容器
-import { lazy } from "react"; // React的懒加载函数，用于提高性能
+import { lazy, useState } from "react"; // React的懒加载函数和状态钩子
 import { Button } from "@/components/ui/button"; // 按钮组件
 import { Maximize, Minimize, Moon, Sun } from "lucide-react"; // 图标组件
 import { useFullscreen } from "@/hooks/use-fullscreen"; // 全屏模式自定义钩子
@@ -33,6 +34,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"; // 工具提示组件，用于显示按钮说明
 import { ActionBar } from "./action-bar"; // 操作栏组件
+import ColorVisionControl, {
+  COLOR_VISION_FILTER_ID,
+  ColorVisionFilter,
+  ColorVisionSimulation,
+} from "./theme-preview/color-vision-control"; // 色觉缺陷模拟控件
+import { getModeStyles } from "@/utils/theme-modes"; // 获取任意模式的完整样式
 
 /**
  * 懒加载各种示例组件
@@ -56,7 +63,7 @@ const DemoDashboard = lazy(() => import("@/components/examples/dashboard")); //
  * 并提供一个交互式界面来预览这些样式在不同场景下的效果。
  * 
  * @param styles - 当前应用的主题样式对象，包含颜色、字体等设置
- * @param currentMode - 当前显示模式，"light"(明亮模式)或"dark"(暗黑模式)
+ * @param currentMode - 当前显示模式，"light"(明亮模式)、"dark"(暗黑模式)或命名模式
  */
 const ThemePreviewPanel = ({
   styles,
@@ -68,8 +75,14 @@ const ThemePreviewPanel = ({
   // 使用主题钩子来获取当前主题状态和切换主题的函数
   const { theme, toggleTheme } = useTheme();
 
-  // 如果没有样式或当前模式的样式，不渲染任何内容
-  if (!styles || !styles[currentMode]) {
+  // 色觉缺陷模拟设置，默认为正常色觉
+  const [simulation, setSimulation] = useState<ColorVisionSimulation>({
+    deficiency: "none",
+    severity: 100,
+  });
+
+  // 如果没有样式，不渲染任何内容
+  if (!styles) {
     return null;
   }
 
@@ -160,6 +173,13 @@ const ThemePreviewPanel = ({
                 </Tooltip>
               )}
               
+              {/* 色觉缺陷模拟按钮，同时检查图表颜色是否可以区分 */}
+              <ColorVisionControl
+                simulation={simulation}
+                onChange={setSimulation}
+                styles={getModeStyles(styles, currentMode)}
+              />
+
               {/* 全屏切换按钮，总是显示 */}
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -188,8 +208,18 @@ const ThemePreviewPanel = ({
           {/* 
             滚动区域 - 用于处理内容溢出情况
             让用户可以滚动查看超出可视区域的内容
+            开启色觉缺陷模拟时，整个预览区域都会应用模拟滤镜
           */}
-          <ScrollArea className="rounded-lg flex flex-col flex-1 border m-4 mt-2 overflow-hidden">
+          {/* 色觉缺陷模拟使用的SVG滤镜 */}
+          <ColorVisionFilter simulation={simulation} />
+          <ScrollArea
+            className="rounded-lg flex flex-col flex-1 border m-4 mt-2 overflow-hidden"
+            style={
+              simulation.deficiency !== "none"
+                ? { filter: `url(#${COLOR_VISION_FILTER_ID})` }
+                : undefined
+            }
+          >
             <div className="flex flex-col flex-1 h-full">
               {/* 卡片示例标签页内容 */}
               <TabsContent value="cards" className="space-y-6 my-4 px-4 h-full">
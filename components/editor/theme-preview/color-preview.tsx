@@ -1,4 +1,5 @@
 import { ThemeEditorPreviewProps } from "@/types/theme";
+import { getModeStyles } from "@/utils/theme-modes";
 
 interface ColorPreviewProps {
   styles: ThemeEditorPreviewProps["styles"];
@@ -19,9 +20,10 @@ const renderColorPreview = (label: string, color: string) => (
 );
 
 const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
-  if (!styles || !styles[currentMode]) {
+  if (!styles) {
     return null;
   }
+  const modeStyles = getModeStyles(styles, currentMode);
 
   return (
     <div className="grid grid-cols-1 gap-8">
@@ -29,12 +31,12 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
       <div className="space-y-4">
         <h3 className="text-sm font-medium border-b pb-2">Primary Theme Colors</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Background", styles[currentMode].background)}
-          {renderColorPreview("Foreground", styles[currentMode].foreground)}
-          {renderColorPreview("Primary", styles[currentMode].primary)}
+          {renderColorPreview("Background", modeStyles.background)}
+          {renderColorPreview("Foreground", modeStyles.foreground)}
+          {renderColorPreview("Primary", modeStyles.primary)}
           {renderColorPreview(
             "Primary Foreground",
-            styles[currentMode]["primary-foreground"]
+            modeStyles["primary-foreground"]
           )}
         </div>
       </div>
@@ -45,15 +47,15 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
           Secondary & Accent Colors
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Secondary", styles[currentMode].secondary)}
+          {renderColorPreview("Secondary", modeStyles.secondary)}
           {renderColorPreview(
             "Secondary Foreground",
-            styles[currentMode]["secondary-foreground"]
+            modeStyles["secondary-foreground"]
           )}
-          {renderColorPreview("Accent", styles[currentMode].accent)}
+          {renderColorPreview("Accent", modeStyles.accent)}
           {renderColorPreview(
             "Accent Foreground",
-            styles[currentMode]["accent-foreground"]
+            modeStyles["accent-foreground"]
           )}
         </div>
       </div>
@@ -62,20 +64,20 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
       <div className="space-y-4">
         <h3 className="text-sm font-medium border-b pb-2">UI Component Colors</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Card", styles[currentMode].card)}
+          {renderColorPreview("Card", modeStyles.card)}
           {renderColorPreview(
             "Card Foreground",
-            styles[currentMode]["card-foreground"]
+            modeStyles["card-foreground"]
           )}
-          {renderColorPreview("Popover", styles[currentMode].popover)}
+          {renderColorPreview("Popover", modeStyles.popover)}
           {renderColorPreview(
             "Popover Foreground",
-            styles[currentMode]["popover-foreground"]
+            modeStyles["popover-foreground"]
           )}
-          {renderColorPreview("Muted", styles[currentMode].muted)}
+          {renderColorPreview("Muted", modeStyles.muted)}
           {renderColorPreview(
             "Muted Foreground",
-            styles[currentMode]["muted-foreground"]
+            modeStyles["muted-foreground"]
           )}
         </div>
       </div>
@@ -84,10 +86,10 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
       <div className="space-y-4">
         <h3 className="text-sm font-medium border-b pb-2">Utility & Form Colors</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Border", styles[currentMode].border)}
-          {renderColorPreview("Input", styles[currentMode].input)}
-          {renderColorPreview("Ring", styles[currentMode].ring)}
-          {renderColorPreview("Radius", styles[currentMode].radius)}
+          {renderColorPreview("Border", modeStyles.border)}
+          {renderColorPreview("Input", modeStyles.input)}
+          {renderColorPreview("Ring", modeStyles.ring)}
+          {renderColorPreview("Radius", modeStyles.radius)}
         </div>
       </div>
 
@@ -97,10 +99,25 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
           Status & Feedback Colors
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Destructive", styles[currentMode].destructive)}
+          {renderColorPreview("Destructive", modeStyles.destructive)}
           {renderColorPreview(
             "Destructive Foreground",
-            styles[currentMode]["destructive-foreground"]
+            modeStyles["destructive-foreground"]
+          )}
+          {renderColorPreview("Success", modeStyles.success)}
+          {renderColorPreview(
+            "Success Foreground",
+            modeStyles["success-foreground"]
+          )}
+          {renderColorPreview("Warning", modeStyles.warning)}
+          {renderColorPreview(
+            "Warning Foreground",
+            modeStyles["warning-foreground"]
+          )}
+          {renderColorPreview("Info", modeStyles.info)}
+          {renderColorPreview(
+            "Info Foreground",
+            modeStyles["info-foreground"]
           )}
         </div>
       </div>
@@ -111,11 +128,11 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
           Chart & Visualization Colors
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Chart 1", styles[currentMode]["chart-1"])}
-          {renderColorPreview("Chart 2", styles[currentMode]["chart-2"])}
-          {renderColorPreview("Chart 3", styles[currentMode]["chart-3"])}
-          {renderColorPreview("Chart 4", styles[currentMode]["chart-4"])}
-          {renderColorPreview("Chart 5", styles[currentMode]["chart-5"])}
+          {renderColorPreview("Chart 1", modeStyles["chart-1"])}
+          {renderColorPreview("Chart 2", modeStyles["chart-2"])}
+          {renderColorPreview("Chart 3", modeStyles["chart-3"])}
+          {renderColorPreview("Chart 4", modeStyles["chart-4"])}
+          {renderColorPreview("Chart 5", modeStyles["chart-5"])}
         </div>
       </div>
 
@@ -125,32 +142,32 @@ const ColorPreview = ({ styles, currentMode }: ColorPreviewProps) => {
           Sidebar & Navigation Colors
         </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {renderColorPreview("Sidebar Background", styles[currentMode].sidebar)}
+          {renderColorPreview("Sidebar Background", modeStyles.sidebar)}
           {renderColorPreview(
             "Sidebar Foreground",
-            styles[currentMode]["sidebar-foreground"]
+            modeStyles["sidebar-foreground"]
           )}
           {renderColorPreview(
             "Sidebar Primary",
-            styles[currentMode]["sidebar-primary"]
+            modeStyles["sidebar-primary"]
           )}
           {renderColorPreview(
             "Sidebar Primary Foreground",
-            styles[currentMode]["sidebar-primary-foreground"]
+            modeStyles["sidebar-primary-foreground"]
           )}
           {renderColorPreview(
             "Sidebar Accent",
-            styles[currentMode]["sidebar-accent"]
+            modeStyles["sidebar-accent"]
           )}
           {renderColorPreview(
             "Sidebar Accent Foreground",
-            styles[currentMode]["sidebar-accent-foreground"]
+            modeStyles["sidebar-accent-foreground"]
           )}
           {renderColorPreview(
             "Sidebar Border",
-            styles[currentMode]["sidebar-border"]
+            modeStyles["sidebar-border"]
           )}
-          {renderColorPreview("Sidebar Ring", styles[currentMode]["sidebar-ring"])}
+          {renderColorPreview("Sidebar Ring", modeStyles["sidebar-ring"])}
         </div>
       </div>
     </div>
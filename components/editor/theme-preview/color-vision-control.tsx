@@ -0,0 +1,183 @@
+/**
+ * 色觉缺陷模拟控件
+ *
+ * 预览面板右上角的按钮，打开后可以选择色觉缺陷类型和严重程度，
+ * 同时列出在当前模拟下难以区分的图表颜色对。
+ *
+ * 模拟滤镜本身由 ColorVisionFilter 渲染，预览区域通过 CSS filter 引用它。
+ */
+import { Eye, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ThemeStyleProps } from "@/types/theme";
+import {
+  CHART_COLORS,
+  COLOR_VISION_DEFICIENCY_LABELS,
+  ColorVisionDeficiency,
+  MIN_CHART_COLOR_DISTANCE,
+  findChartColorConflicts,
+  getSimulationMatrix,
+  simulateColorVision,
+  toFeColorMatrixValues,
+} from "@/utils/color-vision";
+import { SliderWithInput } from "../slider-with-input";
+import { cn } from "@/lib/utils";
+
+/**
+ * 模拟设置
+ * severity 为 0-100 的百分比
+ */
+export type ColorVisionSimulation = {
+  deficiency: ColorVisionDeficiency;
+  severity: number;
+};
+
+/**
+ * 预览区域使用的 SVG 滤镜的 id
+ */
+export const COLOR_VISION_FILTER_ID = "color-vision-simulation";
+
+/**
+ * 隐藏的 SVG 滤镜定义
+ * 预览区域通过 `filter: url(#color-vision-simulation)` 应用模拟效果
+ */
+export const ColorVisionFilter = ({
+  simulation,
+}: {
+  simulation: ColorVisionSimulation;
+}) => (
+  <svg className="absolute size-0" aria-hidden="true">
+    <filter id={COLOR_VISION_FILTER_ID}>
+      <feColorMatrix
+        type="matrix"
+        values={toFeColorMatrixValues(
+          getSimulationMatrix(simulation.deficiency, simulation.severity / 100)
+        )}
+      />
+    </filter>
+  </svg>
+);
+
+interface ColorVisionControlProps {
+  simulation: ColorVisionSimulation;
+  onChange: (simulation: ColorVisionSimulation) => void;
+  styles: ThemeStyleProps;
+}
+
+const ColorVisionControl = ({
+  simulation,
+  onChange,
+  styles,
+}: ColorVisionControlProps) => {
+  const { deficiency, severity } = simulation;
+  const conflicts = findChartColorConflicts(styles, deficiency, severity / 100);
+  const isActive = deficiency !== "none";
+
+  // 显示模拟后的颜色，正常色觉时就是原始颜色
+  const simulate = (key: keyof ThemeStyleProps) =>
+    simulateColorVision(styles[key], deficiency, severity / 100) ??
+    styles[key];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-8 group relative", isActive && "text-primary")}
+          title="Color vision simulation"
+        >
+          <Eye className="size-4 group-hover:scale-120 transition-all" />
+          {conflicts.length > 0 && (
+            <span className="absolute top-1 right-1 size-2 rounded-full bg-destructive" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Color vision</Label>
+          <Select
+            value={deficiency}
+            onValueChange={(value: ColorVisionDeficiency) =>
+              onChange({ ...simulation, deficiency: value })
+            }
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(
+                Object.keys(
+                  COLOR_VISION_DEFICIENCY_LABELS
+                ) as ColorVisionDeficiency[]
+              ).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {COLOR_VISION_DEFICIENCY_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isActive && (
+          <SliderWithInput
+            value={severity}
+            onChange={(value) => onChange({ ...simulation, severity: value })}
+            min={0}
+            max={100}
+            step={5}
+            label="Severity"
+            unit="%"
+          />
+        )}
+
+        {/* 图表颜色检查 */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5">
+            {CHART_COLORS.map((key) => (
+              <div
+                key={key}
+                title={key}
+                className="h-5 flex-1 rounded border"
+                style={{ backgroundColor: simulate(key) }}
+              />
+            ))}
+          </div>
+          {conflicts.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              All chart colors are distinguishable.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {conflicts.map(({ first, second, distance }) => (
+                <p
+                  key={`${first}-${second}`}
+                  className="flex items-center gap-1.5 text-xs text-destructive"
+                >
+                  <AlertTriangle className="size-3 shrink-0" />
+                  {first} and {second} are hard to tell apart (ΔE{" "}
+                  {(distance * 100).toFixed(1)}, needs{" "}
+                  {MIN_CHART_COLOR_DISTANCE * 100})
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ColorVisionControl;
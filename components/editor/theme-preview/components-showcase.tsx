@@ -1,4 +1,5 @@
 import { ThemeEditorPreviewProps } from "@/types/theme";
+import { getModeStyles } from "@/utils/theme-modes";
 import { Settings, Info, AlertTriangle, Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,9 +28,10 @@ interface ComponentsShowcaseProps {
 }
 
 const ComponentsShowcase = ({ styles, currentMode }: ComponentsShowcaseProps) => {
-  if (!styles || !styles[currentMode]) {
+  if (!styles) {
     return null;
   }
+  const modeStyles = getModeStyles(styles, currentMode);
 
   return (
     <div className="space-y-6">
@@ -87,9 +89,9 @@ const ComponentsShowcase = ({ styles, currentMode }: ComponentsShowcaseProps) =>
             <div
               className="rounded-lg p-4"
               style={{
-                backgroundColor: styles[currentMode].popover,
-                color: styles[currentMode]["popover-foreground"],
-                border: `1px solid ${styles[currentMode].border}`,
+                backgroundColor: modeStyles.popover,
+                color: modeStyles["popover-foreground"],
+                border: `1px solid ${modeStyles.border}`,
               }}
             >
               <h4 className="text-sm font-medium mb-2">Popover Container</h4>
@@ -101,8 +103,8 @@ const ComponentsShowcase = ({ styles, currentMode }: ComponentsShowcaseProps) =>
             <div
               className="rounded-lg p-4"
               style={{
-                backgroundColor: styles[currentMode].muted,
-                color: styles[currentMode]["muted-foreground"],
+                backgroundColor: modeStyles.muted,
+                color: modeStyles["muted-foreground"],
               }}
             >
               <h4 className="text-sm font-medium mb-2">Muted Container</h4>
@@ -125,6 +127,15 @@ const ComponentsShowcase = ({ styles, currentMode }: ComponentsShowcaseProps) =>
             <Badge variant="secondary">Secondary</Badge>
             <Badge variant="outline">Outline</Badge>
             <Badge variant="destructive">Error</Badge>
+            <Badge className="bg-success text-success-foreground hover:bg-success/80">
+              Success
+            </Badge>
+            <Badge className="bg-warning text-warning-foreground hover:bg-warning/80">
+              Warning
+            </Badge>
+            <Badge className="bg-info text-info-foreground hover:bg-info/80">
+              Info
+            </Badge>
             <Badge className="bg-blue-500 hover:bg-blue-600">Custom</Badge>
           </div>
 
@@ -148,8 +159,8 @@ const ComponentsShowcase = ({ styles, currentMode }: ComponentsShowcaseProps) =>
             <div
               className="rounded-lg border p-4 flex items-start gap-3"
               style={{
-                borderColor: styles[currentMode].border,
-                backgroundColor: `${styles[currentMode].accent}20`,
+                borderColor: modeStyles.border,
+                backgroundColor: `${modeStyles.accent}20`,
               }}
             >
               <Star className="h-5 w-5 text-yellow-500 shrink-0" />
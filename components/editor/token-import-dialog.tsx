@@ -0,0 +1,395 @@
+/**
+ * 设计令牌导入对话框组件
+ *
+ * 这个对话框让用户导入 DTCG 或 Tokens Studio 格式的JSON令牌文件。
+ * 与CSS导入不同，令牌文件的结构由设计师决定，所以导入分为两步：
+ * 1. 粘贴JSON或选择文件
+ * 2. 选择亮色和暗色模式分别使用哪些令牌集，并检查每个令牌映射到的主题属性
+ *
+ * 映射可以逐个调整；没有映射的令牌和无法解析引用的令牌会单独列出，
+ * 而不是被悄悄丢弃。
+ */
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle } from "lucide-react";
+import { ThemeStyleProps } from "@/types/theme";
+import { defaultLightThemeStyles } from "@/config/theme";
+import {
+  ParsedTokenFile,
+  TokenImportResult,
+  TokenMappingTarget,
+  applyTokenMapping,
+  getDefaultTokenMapping,
+  getTokenPaths,
+  parseTokenFile,
+  resolveTokenSets,
+} from "@/utils/parse-design-tokens";
+import { cn } from "@/lib/utils";
+
+/**
+ * 组件属性接口定义
+ *
+ * - open: 控制对话框是否显示
+ * - onOpenChange: 当对话框开关状态变化时的回调函数
+ * - onImport: 确认导入时的回调函数，传入按映射生成的结果
+ */
+interface TokenImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (result: TokenImportResult) => void;
+}
+
+// Select不允许空字符串作为值，用这个值表示"不导入"
+const SKIP_VALUE = "__skip";
+
+// 可以选择的导入目标
+const THEME_KEYS = Object.keys(
+  defaultLightThemeStyles
+) as (keyof ThemeStyleProps)[];
+
+/**
+ * 令牌值的预览：颜色显示色块，其他类型显示文本
+ */
+const TokenValue = ({ value }: { value?: string }) =>
+  value === undefined ? (
+    <span className="text-xs text-muted-foreground">—</span>
+  ) : (
+    <span className="flex items-center gap-1.5 min-w-0">
+      {CSS.supports("color", value) && (
+        <span
+          className="size-3.5 shrink-0 rounded-sm border"
+          style={{ backgroundColor: value }}
+        />
+      )}
+      <span className="truncate font-mono text-[10px]" title={value}>
+        {value}
+      </span>
+    </span>
+  );
+
+const TokenImportDialog: React.FC<TokenImportDialogProps> = ({
+  open,
+  onOpenChange,
+  onImport,
+}) => {
+  // 用户输入的JSON文本
+  const [jsonText, setJsonText] = useState("");
+  // 解析或校验过程中的错误信息
+  const [error, setError] = useState<string | null>(null);
+  // 解析后的令牌文件，不为空时进入映射步骤
+  const [file, setFile] = useState<ParsedTokenFile | null>(null);
+  // 每个模式选择的令牌集
+  const [selectedSets, setSelectedSets] = useState<
+    Record<"light" | "dark", string[]>
+  >({ light: [], dark: [] });
+  // 用户手动调整过的映射，覆盖自动猜测的结果
+  const [overrides, setOverrides] = useState<
+    Record<string, TokenMappingTarget>
+  >({});
+
+  // 令牌集选择变化时重新展开令牌
+  const resolved = useMemo(
+    () => (file ? resolveTokenSets(file, selectedSets) : null),
+    [file, selectedSets]
+  );
+  const mapping = useMemo(
+    () =>
+      resolved ? { ...getDefaultTokenMapping(resolved), ...overrides } : {},
+    [resolved, overrides]
+  );
+  const paths = resolved ? getTokenPaths(resolved) : [];
+  const unmapped = paths.filter((path) => !mapping[path]);
+
+  /**
+   * 重置所有状态
+   */
+  const reset = () => {
+    setJsonText("");
+    setError(null);
+    setFile(null);
+    setOverrides({});
+  };
+
+  /**
+   * 读取用户选择的JSON文件
+   */
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setJsonText(await selected.text());
+    setError(null);
+  };
+
+  /**
+   * 解析JSON并进入映射步骤
+   */
+  const handleParse = () => {
+    if (!jsonText.trim()) {
+      setError("Please paste a token file or choose one");
+      return;
+    }
+
+    try {
+      const parsed = parseTokenFile(jsonText);
+      setFile(parsed);
+      setSelectedSets(parsed.defaultSets);
+      setOverrides({});
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof SyntaxError
+          ? "Invalid JSON. Please check your syntax."
+          : (err as Error).message
+      );
+    }
+  };
+
+  /**
+   * 切换某个模式是否使用某个令牌集
+   */
+  const toggleSet = (mode: "light" | "dark", set: string, checked: boolean) => {
+    setSelectedSets((current) => ({
+      ...current,
+      [mode]: checked
+        ? [...current[mode], set]
+        : current[mode].filter((item) => item !== set),
+    }));
+  };
+
+  const handleImport = () => {
+    if (!resolved) return;
+    onImport(applyTokenMapping(resolved, mapping));
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : handleClose())}
+    >
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">
+            Import Design Tokens
+          </DialogTitle>
+          <DialogDescription>
+            {file
+              ? "Choose the token sets for each mode and check how tokens map onto theme properties."
+              : "Paste a W3C Design Tokens (DTCG) or Tokens Studio JSON file. References like {color.primary} are resolved."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 如果有错误，显示错误提示 */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!file ? (
+          /* 第一步：输入JSON */
+          <div className="grid gap-3 py-2">
+            <Input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="h-9 text-sm"
+            />
+            <Textarea
+              placeholder={`{
+  "color": {
+    "blue": { "$type": "color", "$value": "#3b82f6" },
+    "primary": { "$type": "color", "$value": "{color.blue}" }
+  }
+}`}
+              className="min-h-[280px] font-mono text-sm text-foreground"
+              value={jsonText}
+              onChange={(e) => {
+                setJsonText(e.target.value);
+                // 当用户开始输入时，清除错误提示
+                if (error) setError(null);
+              }}
+            />
+          </div>
+        ) : (
+          /* 第二步：选择令牌集并调整映射 */
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Token sets</h3>
+              <div className="rounded-md border divide-y">
+                {file.sets.map((set) => (
+                  <div
+                    key={set}
+                    className="flex items-center gap-4 px-3 py-2 text-sm"
+                  >
+                    <span className="flex-1 font-mono text-xs">{set}</span>
+                    {(["light", "dark"] as const).map((mode) => (
+                      <label
+                        key={mode}
+                        className="flex items-center gap-1.5 text-xs capitalize"
+                      >
+                        <Checkbox
+                          checked={selectedSets[mode].includes(set)}
+                          onCheckedChange={(checked) =>
+                            toggleSet(mode, set, !!checked)
+                          }
+                        />
+                        {mode}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* 无法解析的引用和没有映射的令牌 */}
+            {resolved && resolved.unresolved.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4 mr-2" />
+                <AlertDescription>
+                  {resolved.unresolved.length} token(s) reference missing or
+                  circular tokens and were skipped:{" "}
+                  <span className="font-mono text-xs">
+                    {resolved.unresolved.join(", ")}
+                  </span>
+                </AlertDescription>
+              </Alert>
+            )}
+            {unmapped.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4 mr-2" />
+                <AlertDescription>
+                  {unmapped.length} token(s) are not mapped and will not be
+                  imported:{" "}
+                  <span className="font-mono text-xs">
+                    {unmapped.join(", ")}
+                  </span>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">
+                Mapping ({paths.length - unmapped.length} of {paths.length}{" "}
+                tokens)
+              </h3>
+              <div className="rounded-md border divide-y">
+                {paths.map((path) => (
+                  <div
+                    key={path}
+                    className={cn(
+                      "grid grid-cols-[1.4fr_1fr_1fr_1.2fr] items-center gap-3 px-3 py-1.5",
+                      !mapping[path] && "bg-muted/50"
+                    )}
+                  >
+                    <span className="truncate font-mono text-xs" title={path}>
+                      {path}
+                    </span>
+                    <TokenValue value={resolved?.tokens.light[path]?.value} />
+                    <TokenValue value={resolved?.tokens.dark[path]?.value} />
+                    <Select
+                      value={mapping[path] || SKIP_VALUE}
+                      onValueChange={(value) =>
+                        setOverrides((current) => ({
+                          ...current,
+                          [path]: (value === SKIP_VALUE
+                            ? ""
+                            : value) as TokenMappingTarget,
+                        }))
+                      }
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_VALUE}>
+                          Don&apos;t import
+                        </SelectItem>
+                        <SelectItem value="custom">Custom variable</SelectItem>
+                        <SelectItem value="shadow">Shadow</SelectItem>
+                        {THEME_KEYS.map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {key}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* 底部按钮区域 */}
+        <DialogFooter>
+          {file ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setFile(null)}
+                className="text-foreground mr-auto"
+              >
+                Back
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                className="text-foreground"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={paths.length === unmapped.length}
+              >
+                Import
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                className="text-foreground"
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleParse}>Next</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TokenImportDialog;
@@ -34,7 +34,7 @@ const roadmapItems = [
     title: "Multi-Project Management",
     description:
       "Save and manage multiple theme projects, making it easy to switch between designs.",
-    status: "Planned",
+    status: "In Progress",
     icon: <Folder className="size-5" />,
   },
   {
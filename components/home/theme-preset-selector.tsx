@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { useEditorStore } from "@/store/editor-store";
 import { motion } from "motion/react";
 import { getPresetThemeStyles, presets } from "@/utils/theme-presets";
+import { getModeScheme } from "@/utils/theme-modes";
 import { cn } from "@/lib/utils";
 import { colorFormatter } from "@/utils/color-converter";
 import { DemoContainer } from "@/components/examples/demo-cards";
@@ -24,7 +25,7 @@ const ColorBox = ({ color }: { color: string }) => {
 
 export function ThemePresetSelector() {
   const { themeState, applyThemePreset } = useEditorStore();
-  const mode = themeState.currentMode;
+  const mode = getModeScheme(themeState.styles, themeState.currentMode);
   const presetNames = Object.keys(presets);
   const isMobile = useIsMobile();
 
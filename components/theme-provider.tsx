@@ -2,7 +2,7 @@
  * 主题提供者组件
  * 
  * 这个组件负责：
- * 1. 管理全局主题状态（亮色/暗色模式）
+ * 1. 管理全局主题状态（亮色/暗色模式以及命名模式）
  * 2. 应用主题样式到 DOM
  * 3. 处理主题切换动画
  * 4. 提供主题相关的 Context
@@ -12,12 +12,18 @@
 
 import { createContext, useContext, useEffect } from "react";
 import { useEditorStore } from "../store/editor-store";
-import { colorFormatter } from "../utils/color-converter";
 import { setShadowVariables } from "@/utils/shadows";
 import { applyStyleToElement } from "@/utils/apply-style-to-element";
-import { ThemeStyleProps, ThemeStyles } from "@/types/theme";
+import { ThemeModeName, ThemeStyleProps, ThemeStyles } from "@/types/theme";
 import { useThemePresetFromUrl } from "@/hooks/use-theme-preset-from-url";
+import { useThemeShareFromUrl } from "@/hooks/use-theme-share-from-url";
 import { COMMON_STYLES } from "@/config/theme";
+import { getCustomVariables } from "@/utils/custom-variables";
+import {
+  getModeScheme,
+  getModeStyles,
+  getNextMode,
+} from "@/utils/theme-modes";
 
 // 主题类型定义
 type Theme = "dark" | "light";
@@ -32,9 +38,11 @@ type ThemeProviderProps = {
 type Coords = { x: number; y: number };
 
 // Context 状态类型
+// theme 是当前模式继承的基础模式，mode 是当前模式的名称(可能是命名模式)
 type ThemeProviderState = {
   theme: Theme;
-  setTheme: (theme: Theme) => void;
+  mode: ThemeModeName;
+  setTheme: (mode: ThemeModeName) => void;
   toggleTheme: (coords?: Coords) => void;
 };
 
@@ -44,6 +52,7 @@ const COMMON_NON_COLOR_KEYS = COMMON_STYLES;
 // Context 初始状态
 const initialState: ThemeProviderState = {
   theme: "light",
+  mode: "light",
   setTheme: () => null,
   toggleTheme: () => null,
 };
@@ -69,25 +78,45 @@ const applyCommonStyles = (root: HTMLElement, themeStyles: ThemeStyleProps) => {
 
 /**
  * 辅助函数：应用主题颜色
- * 将颜色相关的样式变量应用到根元素
- * 会自动转换颜色格式到 HSL
+ * 将颜色相关的样式变量按原始写法应用到根元素
+ * 不转换为 HSL，否则 Display P3 和超出sRGB的 OKLCH 颜色会被映射到sRGB内，预览与选择的颜色不同
  */
-const applyThemeColors = (
-  root: HTMLElement,
-  themeStyles: ThemeStyles,
-  mode: Theme
-) => {
-  Object.entries(themeStyles[mode]).forEach(([key, value]) => {
+const applyThemeColors = (root: HTMLElement, themeStyles: ThemeStyleProps) => {
+  Object.entries(themeStyles).forEach(([key, value]) => {
     if (
       typeof value === "string" &&
       !COMMON_NON_COLOR_KEYS.includes(key as (typeof COMMON_NON_COLOR_KEYS)[number])
     ) {
-      const hslValue = colorFormatter(value, "hsl", "4");
-      applyStyleToElement(root, key, hslValue);
+      applyStyleToElement(root, key, value);
     }
   });
 };
 
+// 上一次应用到根元素的自定义变量名，用于移除已被删除或重命名的变量
+let appliedCustomVariableNames: string[] = [];
+
+/**
+ * 辅助函数：应用自定义变量
+ * 将用户声明的额外变量应用到根元素，并移除不再存在的变量
+ */
+const applyCustomVariables = (
+  root: HTMLElement,
+  themeStyles: ThemeStyles,
+  mode: Theme
+) => {
+  const variables = getCustomVariables(themeStyles);
+  const names = variables.map((variable) => variable.name);
+
+  appliedCustomVariableNames
+    .filter((name) => !names.includes(name))
+    .forEach((name) => root.style.removeProperty(`--${name}`));
+
+  variables.forEach((variable) => {
+    applyStyleToElement(root, variable.name, variable[mode]);
+  });
+  appliedCustomVariableNames = names;
+};
+
 /**
  * 辅助函数：更新主题类名
  * 在根元素上添加/移除 dark 类
@@ -117,33 +146,39 @@ export function ThemeProvider({ children, ...props }: ThemeProviderProps) {
 
   // 处理 URL 中的主题预设
   useThemePresetFromUrl();
+  // 处理 URL 中的分享主题
+  useThemeShareFromUrl();
 
   // 当主题状态改变时更新 DOM
   useEffect(() => {
     const root = window.document.documentElement;
     const { currentMode: mode, styles: themeStyles } = themeState;
+    // 命名模式按它继承的基础模式决定 dark 类名和自定义变量的值
+    const scheme = getModeScheme(themeStyles, mode);
 
-    updateThemeClass(root, mode);
+    updateThemeClass(root, scheme);
     applyCommonStyles(root, themeStyles.light);
-    applyThemeColors(root, themeStyles, mode);
+    applyThemeColors(root, getModeStyles(themeStyles, mode));
+    applyCustomVariables(root, themeStyles, scheme);
     setShadowVariables(themeState);
   }, [themeState]);
 
   /**
    * 处理主题模式变更
    */
-  const handleThemeChange = (newMode: Theme) => {
+  const handleThemeChange = (newMode: ThemeModeName) => {
     setThemeState({ ...themeState, currentMode: newMode });
   };
 
   /**
    * 处理主题切换
+   * 按 light、dark、命名模式的顺序循环切换
    * 支持平滑过渡动画，使用 View Transitions API
    * 如果浏览器不支持或用户选择减少动画，则直接切换
    */
   const handleThemeToggle = (coords?: Coords) => {
     const root = document.documentElement;
-    const newMode = themeState.currentMode === "light" ? "dark" : "light";
+    const newMode = getNextMode(themeState.styles, themeState.currentMode);
 
     // 检查用户是否倾向减少动画
     const prefersReducedMotion = window.matchMedia(
@@ -170,7 +205,8 @@ export function ThemeProvider({ children, ...props }: ThemeProviderProps) {
 
   // 准备要提供给 Context 的值
   const value: ThemeProviderState = {
-    theme: themeState.currentMode,
+    theme: getModeScheme(themeState.styles, themeState.currentMode),
+    mode: themeState.currentMode,
     setTheme: handleThemeChange,
     toggleTheme: handleThemeToggle,
   };
@@ -7,7 +7,8 @@
  * 工作流程：
  * 1. 尝试从 localStorage 读取之前保存的主题状态
  * 2. 如果没有保存的状态，则根据系统主题偏好选择默认主题
- * 3. 将主题样式变量应用到根元素
+ * 3. 如果当前是命名模式，沿着继承链合并出完整样式
+ * 4. 将主题样式变量应用到根元素
  * 
  * 这个脚本会在 React 水合（hydration）之前执行，
  * 确保页面一开始就应用了正确的主题。
@@ -50,15 +51,29 @@ export function ThemeScript() {
       const prefersDark = window.matchMedia("(prefers-color-scheme: dark)").matches;
       const mode = themeState?.currentMode ?? (prefersDark ? "dark" : "light");
 
+      /**
+       * 获取模式的完整样式
+       * 命名模式沿着继承链合并到亮色或暗色模式，出现循环时从亮色模式开始继承
+       */
+      const resolveModeStyles = (styles, modeName, depth) => {
+        if (modeName === "light" || modeName === "dark") return styles[modeName];
+        const namedMode = (styles.modes || []).find((item) => item.name === modeName);
+        if (!namedMode || depth > 10) return styles.light;
+        return Object.assign(
+          {},
+          resolveModeStyles(styles, namedMode.base, depth + 1),
+          namedMode.styles
+        );
+      };
+
       /**
        * 根据当前模式选择要应用的样式
        * 1. 优先使用保存的主题样式
        * 2. 如果没有保存的样式，则使用默认样式
        */
       const activeStyles =
-        mode === "dark"
-          ? themeState?.styles?.dark || defaultDarkStyles
-          : themeState?.styles?.light || defaultLightStyles;
+        (themeState?.styles && resolveModeStyles(themeState.styles, mode, 0)) ||
+        (mode === "dark" ? defaultDarkStyles : defaultLightStyles);
 
       /**
        * 获取所有需要应用的样式名称
@@ -63,6 +63,7 @@ export const DEFAULT_FONT_MONO =
  * - 主要和次要按钮颜色
  * - 弱化文本颜色
  * - 强调色和破坏性操作色
+ * - 成功、警告、提示等状态色
  * - 边框和输入框颜色
  * - 图表颜色系列
  * - 侧边栏专用颜色
@@ -87,6 +88,12 @@ export const defaultLightThemeStyles = {
   "accent-foreground": "hsl(0 0% 20.5%)", // 强调元素文本色: 深灰色
   destructive: "hsl(0 80% 57.7%)",     // 破坏性操作背景色: 鲜红色
   "destructive-foreground": "hsl(0 0% 100%)", // 破坏性操作文本色: 纯白色
+  success: "hsl(142 72% 29%)",          // 成功状态背景色: 翠绿色
+  "success-foreground": "hsl(0 0% 100%)", // 成功状态文本色: 纯白色
+  warning: "hsl(38 92% 50%)",           // 警告状态背景色: 琥珀色
+  "warning-foreground": "hsl(0 0% 14.5%)", // 警告状态文本色: 深灰色接近黑色
+  info: "hsl(221 83% 53%)",             // 提示信息背景色: 亮蓝色
+  "info-foreground": "hsl(0 0% 100%)",  // 提示信息文本色: 纯白色
   border: "hsl(0 0% 92.2%)",           // 边框颜色: 浅灰色
   input: "hsl(0 0% 92.2%)",            // 输入框边框颜色: 浅灰色
   ring: "hsl(0 0% 70.8%)",             // 焦点环颜色: 中灰色
@@ -145,6 +152,12 @@ export const defaultDarkThemeStyles = {
   "accent-foreground": "hsl(0 0% 98%)", // 强调元素文本色: 几乎纯白
   destructive: "hsl(0 62.8% 30.6%)",  // 破坏性操作背景色: 暗红色
   "destructive-foreground": "hsl(0 85.7% 97.3%)", // 破坏性操作文本色: 几乎纯白带粉色调
+  success: "hsl(142 69% 29%)",        // 成功状态背景色: 暗绿色
+  "success-foreground": "hsl(138 76% 97%)", // 成功状态文本色: 几乎纯白带绿色调
+  warning: "hsl(32 95% 44%)",         // 警告状态背景色: 暗琥珀色
+  "warning-foreground": "hsl(240 10% 3.9%)", // 警告状态文本色: 几乎纯黑的深蓝灰色
+  info: "hsl(224 76% 48%)",           // 提示信息背景色: 深蓝色
+  "info-foreground": "hsl(214 100% 97%)", // 提示信息文本色: 几乎纯白带蓝色调
   border: "hsl(240 3.7% 15.9%)",      // 边框颜色: 深灰色
   input: "hsl(240 3.7% 15.9%)",       // 输入框边框颜色: 深灰色
   ring: "hsl(240 4.9% 83.9%)",        // 焦点环颜色: 浅灰色
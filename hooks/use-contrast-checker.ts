@@ -1,7 +1,7 @@
 // 导入 React 的核心 Hook: useState 用于管理状态，useEffect 用于处理副作用，useCallback 用于记忆回调函数。
 import { useState, useEffect, useCallback } from "react";
 // 导入实际计算对比度的函数。
-import { getContrastRatio } from "../utils/contrast-checker";
+import { getApcaContrast, getContrastRatio } from "../utils/contrast-checker";
 // 导入防抖函数，用于限制函数调用的频率。
 import { debounce } from "../utils/debounce";
 
@@ -14,10 +14,11 @@ type ColorPair = {
 };
 
 // 定义对比度计算结果的数据结构类型。
-// 每个结果包含对应颜色对的 id 和计算出的对比度数值。
+// 每个结果包含对应颜色对的 id、WCAG 2 对比度数值和 APCA Lc 值。
 type ContrastResult = {
   id: string;
   contrastRatio: number; // 对比度是一个数值
+  apcaContrast: number; // APCA Lc 值，带符号（浅色文字在深色背景上为负值）
 };
 
 /**
@@ -26,7 +27,7 @@ type ContrastResult = {
  * 
  * @param colorPairs - 一个包含多个颜色对对象的数组。每个对象需要符合 `ColorPair` 类型定义。
  *                     例如: [{ id: 'text-on-button', foreground: '#FFFFFF', background: '#007bff' }, ...]
- * @returns 返回一个数组，包含每个颜色对的 `id` 和计算得到的 `contrastRatio`。数组的顺序与输入 `colorPairs` 的顺序一致。
+ * @returns 返回一个数组，包含每个颜色对的 `id` 以及计算得到的 `contrastRatio` 和 `apcaContrast`。数组的顺序与输入 `colorPairs` 的顺序一致。
  *          如果计算出错或输入为空，则返回空数组。
  */
 export function useContrastChecker(colorPairs: ColorPair[]) {
@@ -53,10 +54,13 @@ export function useContrastChecker(colorPairs: ColorPair[]) {
           const ratio = parseFloat(
             getContrastRatio(pair.foreground, pair.background)
           );
+          // APCA 区分文字和背景，前景色作为文字颜色传入。
+          const apca = getApcaContrast(pair.foreground, pair.background);
           // 返回包含 id 和计算出的对比度的结果对象。
           return {
             id: pair.id,
             contrastRatio: ratio,
+            apcaContrast: apca,
           };
         });
 
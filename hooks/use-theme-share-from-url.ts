@@ -0,0 +1,44 @@
+/**
+ * 从分享链接加载主题的自定义Hook
+ *
+ * 与useThemePresetFromUrl类似，但处理的是完整的自定义主题：
+ * 当URL中带有 `?share=<编码后的主题>` 参数时，解码主题并加载到编辑器中，
+ * 然后从URL中移除该参数，避免刷新页面时覆盖用户之后的修改。
+ *
+ * 加载分享主题会记录到撤销历史中，用户可以随时撤销回自己原来的主题。
+ */
+import { useQueryState } from "nuqs";
+import React from "react";
+import { useEditorStore } from "@/store/editor-store";
+import { decodeThemeShare, THEME_SHARE_PARAM } from "@/utils/theme-share";
+import { toast } from "@/components/ui/use-toast";
+
+export const useThemeShareFromUrl = () => {
+  // 获取和设置URL中的"share"参数
+  const [shared, setShared] = useQueryState(THEME_SHARE_PARAM);
+
+  React.useEffect(() => {
+    if (!shared) return;
+
+    const theme = decodeThemeShare(shared);
+    if (theme) {
+      const { themeState, setThemeState } = useEditorStore.getState();
+      setThemeState({
+        ...themeState,
+        preset: theme.preset,
+        savedThemeId: undefined, // 分享的主题不属于当前用户的主题库
+        styles: theme.styles,
+      });
+      useEditorStore.setState({ hasChangedThemeFromDefault: true });
+    } else {
+      toast({
+        title: "Invalid share link",
+        description: "The shared theme could not be loaded",
+        variant: "destructive",
+      });
+    }
+
+    // 处理完后从URL中移除share参数
+    setShared(null);
+  }, [shared, setShared]);
+};
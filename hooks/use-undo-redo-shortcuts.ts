@@ -0,0 +1,60 @@
+/**
+ * 撤销/重做快捷键 Hook
+ *
+ * 这个Hook在全局监听键盘事件，为主题编辑器提供常用的撤销/重做快捷键：
+ * - Ctrl/Cmd + Z: 撤销上一次主题编辑
+ * - Shift + Ctrl/Cmd + Z: 重做被撤销的编辑
+ * - Ctrl + Y: 重做(Windows上的习惯用法)
+ *
+ * 当焦点在文本输入框中时，快捷键会交给浏览器处理，
+ * 这样用户在输入框里编辑文字时，原生的文字撤销依然可用。
+ */
+import { useEffect } from "react";
+import { useEditorStore } from "@/store/editor-store";
+
+/**
+ * 判断事件目标是否是可编辑的文本区域
+ *
+ * @param target 键盘事件的目标元素
+ * @returns 如果是输入框、文本域或可编辑元素则返回true
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tagName = target.tagName;
+  return (
+    tagName === "INPUT" ||
+    tagName === "TEXTAREA" ||
+    tagName === "SELECT" ||
+    target.isContentEditable
+  );
+};
+
+export const useUndoRedoShortcuts = () => {
+  const undo = useEditorStore((state) => state.undo);
+  const redo = useEditorStore((state) => state.redo);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 只处理带有Ctrl(Windows/Linux)或Cmd(macOS)的组合键
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y" && event.ctrlKey && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    // 组件卸载时移除监听，避免内存泄漏
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+};
@@ -0,0 +1,173 @@
+/**
+ * 颜色往返检查脚本
+ *
+ * 对默认主题和每个预设，在每种颜色格式、Tailwind v3/v4、是否无损的组合下：
+ * 1. 导出主题CSS，再用CSS导入读回来
+ * 2. 检查明亮和暗黑模式的每个颜色(包括颜色类型的自定义变量)都还原为同一个颜色
+ *    (按8位sRGB比较，包括透明度)
+ * 3. 把读回的主题再导出一次，检查两次导出的CSS相同
+ *
+ * 超出sRGB的颜色在HEX、RGB、HSL、HWB中会映射到sRGB内，这些组合检查它们还原为映射后的颜色。
+ * 预设中没有超出sRGB的颜色和半透明的颜色，所以另外检查一个使用广色域主要色的主题，
+ * 和一个带半透明自定义变量的主题。
+ *
+ * 用法：npm run check-color-round-trip，有颜色无法还原时以状态码1退出。
+ */
+
+import * as culori from "culori";
+import { ColorFormat } from "@/types";
+import { ThemeStyles } from "@/types/theme";
+import { COMMON_STYLES, defaultThemeState } from "@/config/theme";
+import { getPresetThemeStyles, presets } from "@/utils/theme-presets";
+import { generateThemeCode } from "@/utils/theme-style-generator";
+import { applyCssImport, parseCssInput } from "@/utils/parse-css-input";
+import { getColorGamut, mapToGamut } from "@/utils/oklch";
+import { getCustomVariables } from "@/utils/custom-variables";
+
+const COLOR_FORMATS: ColorFormat[] = [
+  "hex",
+  "rgb",
+  "hsl",
+  "hwb",
+  "oklch",
+  "lab",
+  "lch",
+  "p3",
+];
+const TAILWIND_VERSIONS = ["3", "4"] as const;
+
+// 可以表示超出sRGB的颜色的格式
+const WIDE_GAMUT_FORMATS: ColorFormat[] = ["oklch", "lab", "lch", "p3"];
+
+// 阴影颜色只用于生成 --shadow-*，由阴影的往返单独保证
+const SKIPPED_PROPERTIES = [...COMMON_STYLES, "shadow-color"];
+
+// 主要色超出sRGB的主题：暗黑模式的主要色还超出了Display P3
+const WIDE_GAMUT_THEME: ThemeStyles = {
+  light: { ...defaultThemeState.styles.light, primary: "color(display-p3 0 1 0)" },
+  dark: { ...defaultThemeState.styles.dark, primary: "oklch(0.7 0.3 150)" },
+};
+
+// 带半透明自定义颜色变量的主题
+const TRANSLUCENT_THEME: ThemeStyles = {
+  ...defaultThemeState.styles,
+  customVariables: [
+    {
+      name: "overlay",
+      type: "color",
+      light: "rgb(0 0 0 / 0.5)",
+      dark: "oklch(0.9 0.02 250 / 0.35)",
+    },
+  ],
+};
+
+/**
+ * 只保留明亮和暗黑模式，CSS导入不会读取命名模式
+ */
+const getThemes = (): [string, ThemeStyles][] => [
+  ["default", defaultThemeState.styles],
+  ["wide-gamut", WIDE_GAMUT_THEME],
+  ["translucent", TRANSLUCENT_THEME],
+  ...Object.keys(presets).map((name): [string, ThemeStyles] => {
+    const { light, dark } = getPresetThemeStyles(name);
+    return [name, { light, dark }];
+  }),
+];
+
+/**
+ * 导出主题的CSS变量
+ */
+const exportTheme = (
+  styles: ThemeStyles,
+  format: ColorFormat,
+  tailwindVersion: "3" | "4",
+  lossless: boolean
+) =>
+  generateThemeCode(
+    { ...defaultThemeState, styles },
+    format,
+    tailwindVersion,
+    undefined,
+    "none",
+    { lossless }
+  );
+
+/**
+ * 把导出的CSS读回主题
+ */
+const importTheme = (css: string) =>
+  applyCssImport(parseCssInput(css), defaultThemeState.styles, {
+    replace: true,
+    rejected: [],
+  });
+
+/**
+ * 获取模式中需要检查的颜色：内置颜色属性和颜色类型的自定义变量
+ */
+const getColors = (styles: ThemeStyles, mode: "light" | "dark") =>
+  new Map<string, string>([
+    ...Object.entries(styles[mode]).filter(
+      ([property]) => !SKIPPED_PROPERTIES.includes(property)
+    ),
+    ...getCustomVariables(styles)
+      .filter((variable) => variable.type === "color")
+      .map((variable): [string, string] => [
+        `--${variable.name}`,
+        variable[mode],
+      ]),
+  ]);
+
+/**
+ * 转换为8位sRGB(包括透明度)，用来比较两个颜色
+ */
+const toHex8 = (color: string) => {
+  const parsed = culori.parse(color);
+  return parsed ? culori.formatHex8(parsed) : null;
+};
+
+const failures: string[] = [];
+let checked = 0;
+
+getThemes().forEach(([name, styles]) => {
+  COLOR_FORMATS.forEach((format) => {
+    TAILWIND_VERSIONS.forEach((tailwindVersion) => {
+      [false, true].forEach((lossless) => {
+        const label = `${name} ${format} v${tailwindVersion}${lossless ? " lossless" : ""}`;
+        const css = exportTheme(styles, format, tailwindVersion, lossless);
+        const imported = importTheme(css);
+
+        (["light", "dark"] as const).forEach((mode) => {
+          const importedColors = getColors(imported, mode);
+          getColors(styles, mode).forEach((value, property) => {
+            if (!toHex8(value)) return;
+            const expected =
+              !WIDE_GAMUT_FORMATS.includes(format) &&
+              getColorGamut(value) !== "srgb"
+                ? mapToGamut(value, "rgb")
+                : value;
+
+            checked++;
+            const result = importedColors.get(property);
+            if (!result || toHex8(result) !== toHex8(expected)) {
+              failures.push(
+                `${label}: ${mode} ${property} ${value} came back as ${result}`
+              );
+            }
+          });
+        });
+
+        if (exportTheme(imported, format, tailwindVersion, lossless) !== css) {
+          failures.push(`${label}: exporting the imported theme changes the CSS`);
+        }
+      });
+    });
+  });
+});
+
+failures.forEach((failure) => console.error(failure));
+console.log(
+  failures.length === 0
+    ? `Color round trip check passed (${checked} colors)`
+    : `Color round trip check failed: ${failures.length} problems`
+);
+process.exitCode = failures.length === 0 ? 0 : 1;
@@ -0,0 +1,73 @@
+/**
+ * globals.css 补丁检查脚本
+ *
+ * 用默认主题更新 scripts/fixtures/globals.css，检查：
+ * 1. 项目自己的变量和规则保持不变，例如 :root 中的 --header-height、
+ *    .dark .prose、.navbar-dark 和 @theme inline 中的 --color-my-brand
+ * 2. 旧主题的值和不再生成的变量(关闭色阶后的 --primary-50)被删除
+ * 3. 新主题的每个变量在输出中出现的次数与主题代码相同，没有重复声明
+ * 4. 再次更新得到相同的结果
+ *
+ * 用法：npm run check-patch-globals-css，有检查失败时以状态码1退出。
+ */
+
+import fs from "fs";
+import path from "path";
+import { defaultThemeState } from "@/config/theme";
+import { generateThemeCode } from "@/utils/theme-style-generator";
+import { patchGlobalsCss } from "@/utils/patch-globals-css";
+
+const FIXTURE_PATH = path.join(process.cwd(), "scripts", "fixtures", "globals.css");
+
+// 更新后必须保留的内容
+const PRESERVED = [
+  '@import "tailwindcss";',
+  "@custom-variant dark (&:is(.dark *));",
+  "--header-height: 4rem;",
+  "--my-brand: oklch(0.6 0.15 200);",
+  ".dark .prose {\n  --tw-prose-body: oklch(0.9 0 0);\n}",
+  ".navbar-dark {\n  --nav-bg: oklch(0.15 0 0);\n}",
+  "--color-my-brand: var(--my-brand);",
+  "@apply bg-background text-foreground;",
+];
+
+// 更新后必须删除的内容
+const REMOVED = ["oklch(0.5 0.2 30)", "oklch(0.7 0.15 30)", "--primary-50"];
+
+/**
+ * 统计文本出现的次数
+ */
+const countOccurrences = (text: string, search: string) =>
+  text.split(search).length - 1;
+
+const css = fs.readFileSync(FIXTURE_PATH, "utf-8");
+const themeCode = generateThemeCode(defaultThemeState, "oklch", "4");
+const { css: patched } = patchGlobalsCss(css, themeCode);
+
+const failures = [
+  ...PRESERVED.filter((text) => !patched.includes(text)).map(
+    (text) => `Missing preserved content: ${JSON.stringify(text)}`
+  ),
+  ...REMOVED.filter((text) => patched.includes(text)).map(
+    (text) => `Stale content left behind: ${JSON.stringify(text)}`
+  ),
+  ...Array.from(new Set(themeCode.match(/--[\w-]+:/g) ?? []))
+    .filter(
+      (name) => countOccurrences(patched, name) !== countOccurrences(themeCode, name)
+    )
+    .map(
+      (name) =>
+        `${name} appears ${countOccurrences(patched, name)} times, expected ${countOccurrences(themeCode, name)}`
+    ),
+  ...(patchGlobalsCss(patched, themeCode).css === patched
+    ? []
+    : ["Patching the result again changes it"]),
+];
+
+failures.forEach((failure) => console.error(failure));
+console.log(
+  failures.length === 0
+    ? "globals.css patch check passed"
+    : `globals.css patch check failed: ${failures.length} problems`
+);
+process.exitCode = failures.length === 0 ? 0 : 1;
@@ -5,10 +5,12 @@
  * 1. 将项目中定义的主题转换为 shadcn/ui 期望的格式
  * 2. 处理颜色值的转换（从 HSL 到 OKLCH 颜色空间）
  * 3. 为亮色和暗色模式生成完整的主题配置
- * 4. 生成并保存最终的主题注册文件
+ * 4. 为预设中的命名模式生成使用各自选择器的CSS规则
+ * 5. 为预设中开启了色阶的颜色生成 50-950 色阶
+ * 6. 生成并保存最终的主题注册文件
  */
 
-import { ThemeStyles, ThemeStyleProps } from "@/types/theme";
+import { ThemeModeName, ThemeStyles, ThemeStyleProps } from "@/types/theme";
 import { getPresetThemeStyles, presets } from "@/utils/theme-presets";
 import fs from "fs";
 import path from "path";
@@ -18,6 +20,17 @@ import {
   defaultLightThemeStyles,
 } from "@/config/theme";
 import { getShadowMap } from "@/utils/shadows";
+import {
+  formatCustomVariableValue,
+  getCustomVariables,
+} from "@/utils/custom-variables";
+import {
+  getModeScheme,
+  getModeStyles,
+  getNamedModeSelector,
+  getNamedModes,
+} from "@/utils/theme-modes";
+import { getColorScaleVariables } from "@/utils/color-scales";
 
 /**
  * 主题文件存储目录
@@ -62,6 +75,46 @@ const getThemeValue = (
   return dark[key] || light[key] || "";
 };
 
+/**
+ * 获取指定模式下的自定义变量
+ * 
+ * @param styles - 原始主题样式
+ * @param mode - 主题模式
+ * @returns 变量名到值的映射，颜色类型的值会转换为 OKLCH 格式
+ */
+const getCustomRegistryVars = (
+  styles: ThemeStyles,
+  mode: "light" | "dark"
+): Record<string, string> => {
+  return Object.fromEntries(
+    getCustomVariables(styles).map((variable) => [
+      variable.name,
+      formatCustomVariableValue(variable, mode, convertToRegistryColor),
+    ])
+  );
+};
+
+/**
+ * 获取指定模式下的色阶变量
+ *
+ * 与生成的CSS一样，只包含预设在 scales 中开启的颜色，没有开启色阶时为空。
+ *
+ * @param styles - 原始主题样式(颜色尚未转换)
+ * @param mode - 主题模式
+ * @returns 变量名到值的映射，颜色会转换为 OKLCH 格式
+ */
+const getColorScaleRegistryVars = (
+  styles: ThemeStyles,
+  mode: ThemeModeName
+): Record<string, string> => {
+  return Object.fromEntries(
+    getColorScaleVariables(styles, mode).map(([name, value]) => [
+      name,
+      convertToRegistryColor(value),
+    ])
+  );
+};
+
 /**
  * 将主题样式转换为注册表格式
  * 
@@ -76,7 +129,7 @@ const getThemeValue = (
  * 支持的颜色变量包括：
  * - 基础色：background, foreground
  * - 组件色：card, popover, primary, secondary, accent
- * - 功能色：destructive, muted
+ * - 功能色：destructive, success, warning, info, muted
  * - 图表色：chart-1 到 chart-5
  * - 侧边栏色：sidebar 相关变量
  */
@@ -109,6 +162,12 @@ const convertThemeStyles = (styles: ThemeStyles) => {
     result["destructive-foreground"] = convertColor(
       theme["destructive-foreground"]
     );
+    result.success = convertColor(theme.success);
+    result["success-foreground"] = convertColor(theme["success-foreground"]);
+    result.warning = convertColor(theme.warning);
+    result["warning-foreground"] = convertColor(theme["warning-foreground"]);
+    result.info = convertColor(theme.info);
+    result["info-foreground"] = convertColor(theme["info-foreground"]);
     result.border = convertColor(theme.border);
     result.input = convertColor(theme.input);
     result.ring = convertColor(theme.ring);
@@ -140,6 +199,43 @@ const convertThemeStyles = (styles: ThemeStyles) => {
   };
 };
 
+/**
+ * 生成命名模式的CSS规则
+ * 
+ * 注册表的 cssVars 只支持亮色和暗色，所以命名模式放在 css 中，
+ * 以模式的选择器为键，值是这个模式完整的变量(颜色、阴影和自定义变量)。
+ * 
+ * @param styles - 原始主题样式(颜色尚未转换)
+ * @returns 选择器到变量的映射
+ */
+const getNamedModeRules = (
+  styles: ThemeStyles
+): Record<string, Record<string, string>> => {
+  return Object.fromEntries(
+    getNamedModes(styles).map((mode) => {
+      const scheme = getModeScheme(styles, mode.name);
+      const modeStyles = convertThemeStyles({
+        light: { ...defaultLightThemeStyles, ...getModeStyles(styles, mode.name) },
+        dark: { ...defaultDarkThemeStyles },
+      }).light;
+      const shadows = getShadowMap({ styles, currentMode: mode.name });
+      const vars = {
+        ...modeStyles,
+        ...getColorScaleRegistryVars(styles, mode.name),
+        ...shadows,
+        ...getCustomRegistryVars(styles, scheme),
+      };
+
+      return [
+        getNamedModeSelector(mode),
+        Object.fromEntries(
+          Object.entries(vars).map(([key, value]) => [`--${key}`, value])
+        ),
+      ];
+    })
+  );
+};
+
 /**
  * 生成指定主题的注册表配置
  * 
@@ -148,11 +244,17 @@ const convertThemeStyles = (styles: ThemeStyles) => {
  * 处理步骤：
  * 1. 获取并转换主题样式
  * 2. 为亮色和暗色模式生成阴影配置
- * 3. 生成最终的主题配置对象
+ * 3. 附加色阶和预设中声明的自定义变量
+ * 4. 为命名模式生成CSS规则
+ * 5. 生成最终的主题配置对象
  */
 const generateThemeRegistry = (name: string) => {
-  // 获取并转换主题样式
-  const { light, dark } = convertThemeStyles(getPresetThemeStyles(name));
+  // 获取并转换主题样式，命名模式和色阶需要在转换前基于原始颜色生成
+  const presetStyles = getPresetThemeStyles(name);
+  const namedModeRules = getNamedModeRules(presetStyles);
+  const lightScales = getColorScaleRegistryVars(presetStyles, "light");
+  const darkScales = getColorScaleRegistryVars(presetStyles, "dark");
+  const { light, dark } = convertThemeStyles(presetStyles);
 
   // 为亮色和暗色模式生成阴影变量
   const lightShadows = getShadowMap({
@@ -177,6 +279,7 @@ const generateThemeRegistry = (name: string) => {
           "letter-spacing": "var(--tracking-normal)",
         },
       },
+      ...namedModeRules,
     },
     cssVars: {
       theme: {
@@ -193,6 +296,7 @@ const generateThemeRegistry = (name: string) => {
       },
       light: {
         ...light,
+        ...lightScales,
         "shadow-2xs": lightShadows["shadow-2xs"],
         "shadow-xs": lightShadows["shadow-xs"],
         "shadow-sm": lightShadows["shadow-sm"],
@@ -204,9 +308,11 @@ const generateThemeRegistry = (name: string) => {
         "tracking-normal":
           getThemeValue(dark, light, "letter-spacing") || "0em",
         spacing: getThemeValue(dark, light, "spacing") || "0.25rem",
+        ...getCustomRegistryVars(presetStyles, "light"),
       },
       dark: {
         ...dark,
+        ...darkScales,
         "shadow-2xs": darkShadows["shadow-2xs"],
         "shadow-xs": darkShadows["shadow-xs"],
         "shadow-sm": darkShadows["shadow-sm"],
@@ -215,6 +321,7 @@ const generateThemeRegistry = (name: string) => {
         "shadow-lg": darkShadows["shadow-lg"],
         "shadow-xl": darkShadows["shadow-xl"],
         "shadow-2xl": darkShadows["shadow-2xl"],
+        ...getCustomRegistryVars(presetStyles, "dark"),
       },
     },
   };
@@ -0,0 +1,521 @@
+/**
+ * tweakcn 命令行工具
+ *
+ * 不打开编辑器也能在项目中使用主题，适合在脚本和CI中运行：
+ * 1. export：把预设或主题JSON导出为CSS变量(Tailwind v3/v4)、完整的 globals.css、
+ *    DTCG设计令牌或 tailwind.config.ts
+ * 2. import：把CSS或 shadcn 注册表文件转换为主题JSON
+ * 3. contrast：检查所有模式中颜色对的对比度，有颜色对不满足标准时以状态码1退出
+ * 4. apply：把主题写入项目的 globals.css，只替换其中由生成器输出的主题变量
+ *
+ * 用法：npm run tweakcn -- <命令> [参数] [选项]
+ * 参数错误或文件无法读取时以状态码2退出。
+ */
+
+import fs from "fs";
+import { parseArgs } from "util";
+import {
+  ColorFormat,
+  ColorFormatOptions,
+  ContrastStandard,
+  DarkModeOptions,
+  DarkModeStrategy,
+  GamutFallback,
+} from "@/types";
+import { ThemeEditorState, ThemeStyles } from "@/types/theme";
+import { defaultThemeState } from "@/config/theme";
+import { getPresetThemeStyles, presets } from "@/utils/theme-presets";
+import {
+  generateGlobalsCss,
+  generateThemeCode,
+} from "@/utils/theme-style-generator";
+import { generateDesignTokensJson } from "@/utils/design-tokens";
+import { generateTailwindConfig } from "@/utils/tailwind-config-generator";
+import { applyCssImport, parseCssInput } from "@/utils/parse-css-input";
+import {
+  isRegistryItemInput,
+  parseRegistryItem,
+} from "@/utils/parse-registry-item";
+import {
+  CONTRAST_PAIRS,
+  CONTRAST_STANDARDS,
+  getApcaContrast,
+  getContrastRatio,
+  meetsContrastStandard,
+} from "@/utils/contrast-checker";
+import {
+  getModeNames,
+  getModeStyles,
+  getNamedModeSelector,
+  getNamedModes,
+} from "@/utils/theme-modes";
+import { patchGlobalsCss } from "@/utils/patch-globals-css";
+
+const USAGE = `Usage: tweakcn <command> [arguments] [options]
+
+Commands:
+  export <preset|theme.json>            Print the theme as CSS, globals.css, DTCG tokens or a Tailwind config
+  import <file.css|registry.json|->     Convert CSS or a shadcn registry item to theme JSON
+  contrast <preset|theme.json>          Audit color contrast in every mode, exits with 1 on failures
+  apply <preset|theme.json> <globals.css>  Replace the generated theme variables in globals.css
+
+Options:
+  --format <css|globals|dtcg|tailwind-config>  Output of export (default css)
+  --tailwind <3|4>                      Tailwind CSS version (apply detects it from the file)
+  --color-format <hex|rgb|hsl|hwb|oklch|lab|lch|p3>  Color format (default hsl for v3, oklch for v4)
+  --gamut-fallback <none|supports|media>  Map colors outside sRGB into sRGB and restore them
+                                        behind @supports or @media (color-gamut: p3)
+  --precision <n>                       Decimal places of color values (default depends on the format)
+  --lossless                            Keep colors already written in the output format as authored
+  --dark-mode <class|data-attribute|custom|media|media-class>  How dark mode is toggled
+  --dark-selector <selector>            Selector used with --dark-mode custom (import also reads it as dark mode)
+  --standard <wcag-aa|wcag-aaa|wcag-large|apca>  Standard used by contrast (default wcag-aa)
+  --json                                Print the contrast report as JSON
+  -o, --output <file>                   Write to a file instead of stdout
+  -h, --help                            Show this help
+
+Themes are preset names (${Object.keys(presets).length} available, e.g. "default") or JSON files
+containing theme styles or a shadcn registry item.`;
+
+const FORMATS = ["css", "globals", "dtcg", "tailwind-config"] as const;
+const TAILWIND_VERSIONS = ["3", "4"] as const;
+const COLOR_FORMATS: ColorFormat[] = [
+  "hex",
+  "rgb",
+  "hsl",
+  "hwb",
+  "oklch",
+  "lab",
+  "lch",
+  "p3",
+];
+const GAMUT_FALLBACKS: GamutFallback[] = ["none", "supports", "media"];
+const DARK_MODE_STRATEGIES: DarkModeStrategy[] = [
+  "class",
+  "data-attribute",
+  "custom",
+  "media",
+  "media-class",
+];
+const CONTRAST_STANDARD_NAMES = Object.keys(
+  CONTRAST_STANDARDS
+) as ContrastStandard[];
+
+// Tailwind v4 项目的 globals.css 会导入 tailwindcss
+const TAILWIND_V4_IMPORT_REGEX = /@import\s+["']tailwindcss["']/;
+
+type CliOptions = {
+  format?: string;
+  tailwind?: string;
+  "color-format"?: string;
+  "dark-mode"?: string;
+  "dark-selector"?: string;
+  "gamut-fallback"?: string;
+  precision?: string;
+  lossless?: boolean;
+  standard?: string;
+  json?: boolean;
+  output?: string;
+};
+
+/**
+ * 用户输入错误，只输出错误信息，不输出调用栈
+ */
+class CliError extends Error {}
+
+/**
+ * 校验选项的值是否在允许的范围内
+ *
+ * @param value 用户输入的值
+ * @param choices 允许的值
+ * @param option 选项名称，用于错误信息
+ * @returns 校验后的值，没有输入时返回undefined
+ */
+const getChoice = <T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  option: string
+): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new CliError(
+      `Invalid --${option} "${value}", expected one of: ${choices.join(", ")}`
+    );
+  }
+  return value as T;
+};
+
+/**
+ * 读取文件，"-" 表示标准输入
+ */
+const readInput = (source: string): string => {
+  try {
+    return fs.readFileSync(source === "-" ? 0 : source, "utf8");
+  } catch {
+    throw new CliError(`Cannot read "${source}"`);
+  }
+};
+
+/**
+ * 输出结果，指定了 --output 时写入文件
+ */
+const writeOutput = (content: string, output?: string) => {
+  const text = content.endsWith("\n") ? content : `${content}\n`;
+  if (output) {
+    fs.writeFileSync(output, text);
+    console.error(`Wrote ${output}`);
+  } else {
+    process.stdout.write(text);
+  }
+};
+
+/**
+ * 加载主题
+ *
+ * 参数可以是：
+ * 1. 预设名称
+ * 2. shadcn 注册表文件(包含 cssVars)
+ * 3. 主题样式JSON(包含 light/dark，或者包在 styles 中)，缺少的属性使用默认值
+ *
+ * @param source 预设名称或文件路径
+ * @returns 完整的主题样式
+ */
+const loadTheme = (source: string | undefined): ThemeStyles => {
+  if (!source) throw new CliError("Missing theme: pass a preset name or a file");
+
+  if (source !== "-" && !fs.existsSync(source)) {
+    if (source === "default" || presets[source]) {
+      return getPresetThemeStyles(source);
+    }
+    throw new CliError(`Unknown preset or file "${source}"`);
+  }
+
+  const input = readInput(source);
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(input);
+  } catch {
+    throw new CliError(`"${source}" is not valid JSON`);
+  }
+
+  if ("cssVars" in json) {
+    return applyCssImport(parseRegistryItem(input), defaultThemeState.styles, {
+      replace: true,
+      rejected: [],
+    });
+  }
+
+  const styles = (json.styles ?? json) as Partial<ThemeStyles>;
+  if (!styles.light && !styles.dark) {
+    throw new CliError(`"${source}" does not contain light or dark styles`);
+  }
+
+  const defaultStyles = defaultThemeState.styles;
+  return {
+    ...styles,
+    light: { ...defaultStyles.light, ...styles.light },
+    dark: { ...defaultStyles.dark, ...styles.dark },
+  };
+};
+
+/**
+ * 读取暗黑模式的切换方式
+ */
+const getDarkModeOptions = (options: CliOptions): DarkModeOptions => {
+  const strategy =
+    getChoice(options["dark-mode"], DARK_MODE_STRATEGIES, "dark-mode") ??
+    (options["dark-selector"] ? "custom" : "class");
+  return { strategy, selector: options["dark-selector"] };
+};
+
+/**
+ * 读取颜色格式，没有指定时 Tailwind v3 使用HSL，v4 使用OKLCH
+ */
+const getColorFormat = (
+  options: CliOptions,
+  tailwindVersion: "3" | "4"
+): ColorFormat =>
+  getChoice(options["color-format"], COLOR_FORMATS, "color-format") ??
+  (tailwindVersion === "4" ? "oklch" : "hsl");
+
+/**
+ * 读取广色域颜色的覆盖方式
+ */
+const getGamutFallback = (options: CliOptions): GamutFallback =>
+  getChoice(options["gamut-fallback"], GAMUT_FALLBACKS, "gamut-fallback") ??
+  "none";
+
+/**
+ * 读取颜色的小数位数和无损模式
+ */
+const getColorOptions = (options: CliOptions): ColorFormatOptions => {
+  const precision =
+    options.precision === undefined ? undefined : Number(options.precision);
+  if (
+    precision !== undefined &&
+    !(Number.isInteger(precision) && precision >= 0)
+  ) {
+    throw new CliError(
+      `Invalid precision "${options.precision}": expected a whole number of decimal places`
+    );
+  }
+  return { precision, lossless: options.lossless };
+};
+
+/**
+ * 创建生成器需要的编辑器状态
+ */
+const toEditorState = (styles: ThemeStyles): ThemeEditorState => ({
+  styles,
+  currentMode: "light",
+});
+
+/**
+ * export 命令：导出主题代码
+ */
+const runExport = ([source]: string[], options: CliOptions) => {
+  const styles = loadTheme(source);
+  const format = getChoice(options.format, FORMATS, "format") ?? "css";
+  const tailwindVersion =
+    getChoice(options.tailwind, TAILWIND_VERSIONS, "tailwind") ??
+    (format === "globals" ? "4" : "3");
+  const colorFormat = getColorFormat(options, tailwindVersion);
+  const darkMode = getDarkModeOptions(options);
+
+  switch (format) {
+    case "globals":
+      writeOutput(
+        generateGlobalsCss(
+          toEditorState(styles),
+          colorFormat,
+          darkMode,
+          getGamutFallback(options),
+          getColorOptions(options)
+        ),
+        options.output
+      );
+      break;
+    case "dtcg":
+      writeOutput(
+        generateDesignTokensJson(styles, options.lossless),
+        options.output
+      );
+      break;
+    case "tailwind-config":
+      writeOutput(
+        generateTailwindConfig(toEditorState(styles), colorFormat, darkMode),
+        options.output
+      );
+      break;
+    default:
+      writeOutput(
+        generateThemeCode(
+          toEditorState(styles),
+          colorFormat,
+          tailwindVersion,
+          darkMode,
+          getGamutFallback(options),
+          getColorOptions(options)
+        ),
+        options.output
+      );
+  }
+};
+
+/**
+ * import 命令：把CSS或注册表文件转换为主题JSON
+ * 导入报告输出到标准错误，不影响重定向的JSON
+ */
+const runImport = ([source]: string[], options: CliOptions) => {
+  if (!source) throw new CliError("Missing input: pass a file or - for stdin");
+
+  const input = readInput(source);
+  let result;
+  try {
+    result = isRegistryItemInput(input)
+      ? parseRegistryItem(input)
+      : parseCssInput(
+          input,
+          options["dark-selector"] ? [options["dark-selector"]] : []
+        );
+  } catch (error) {
+    throw new CliError((error as Error).message);
+  }
+
+  const { imported, ignored, invalid } = result.report;
+  if (imported.length === 0) {
+    throw new CliError(`No theme variables found in "${source}"`);
+  }
+
+  const styles = applyCssImport(result, defaultThemeState.styles, {
+    replace: true,
+    rejected: [],
+  });
+  writeOutput(JSON.stringify(styles, null, 2), options.output);
+
+  console.error(
+    `Imported ${imported.length} variables, ignored ${ignored.length}, invalid ${invalid.length}`
+  );
+  invalid.forEach(({ name, mode, value, reason }) =>
+    console.error(`  ${mode} --${name}: ${value} (${reason})`)
+  );
+};
+
+/**
+ * contrast 命令：检查所有模式中颜色对的对比度
+ *
+ * @returns 是否所有颜色对都满足标准
+ */
+const runContrast = ([source]: string[], options: CliOptions): boolean => {
+  const styles = loadTheme(source);
+  const standard =
+    getChoice(options.standard, CONTRAST_STANDARD_NAMES, "standard") ??
+    "wcag-aa";
+
+  const results = getModeNames(styles).flatMap((mode) => {
+    const modeStyles = getModeStyles(styles, mode);
+    return CONTRAST_PAIRS.map((pair) => {
+      const foreground = modeStyles[pair.foregroundId];
+      const background = modeStyles[pair.backgroundId];
+      const ratio = parseFloat(getContrastRatio(foreground, background));
+      const apca = Math.round(getApcaContrast(foreground, background) * 10) / 10;
+      return {
+        mode,
+        id: pair.id,
+        label: pair.label,
+        foreground,
+        background,
+        ratio,
+        apca,
+        pass: meetsContrastStandard(ratio, apca, standard),
+      };
+    });
+  });
+  const failures = results.filter((result) => !result.pass);
+
+  if (options.json) {
+    writeOutput(
+      JSON.stringify({ standard, failures: failures.length, results }, null, 2),
+      options.output
+    );
+    return failures.length === 0;
+  }
+
+  const lines: string[] = [];
+  getModeNames(styles).forEach((mode) => {
+    lines.push(mode);
+    results
+      .filter((result) => result.mode === mode)
+      .forEach((result) => {
+        lines.push(
+          `  ${result.pass ? "PASS" : "FAIL"}  ${result.label.padEnd(16)}` +
+            `${result.ratio.toFixed(2).padStart(6)}:1  Lc ${result.apca.toFixed(1).padStart(6)}`
+        );
+      });
+    lines.push("");
+  });
+  lines.push(
+    `${failures.length} of ${results.length} pairs fail ${CONTRAST_STANDARDS[standard].label}`
+  );
+  writeOutput(lines.join("\n"), options.output);
+
+  return failures.length === 0;
+};
+
+/**
+ * apply 命令：替换 globals.css 中的主题变量代码块
+ * 没有指定 --tailwind 时，根据文件是否导入 tailwindcss 判断版本
+ */
+const runApply = ([source, target]: string[], options: CliOptions) => {
+  const styles = loadTheme(source);
+  if (!target) throw new CliError("Missing target: pass the path to globals.css");
+
+  const css = readInput(target);
+  const tailwindVersion =
+    getChoice(options.tailwind, TAILWIND_VERSIONS, "tailwind") ??
+    (TAILWIND_V4_IMPORT_REGEX.test(css) ? "4" : "3");
+  const darkMode = getDarkModeOptions(options);
+  const themeCode = generateThemeCode(
+    toEditorState(styles),
+    getColorFormat(options, tailwindVersion),
+    tailwindVersion,
+    darkMode,
+    getGamutFallback(options),
+    getColorOptions(options)
+  );
+
+  const result = patchGlobalsCss(css, themeCode, [
+    ...getNamedModes(styles).map(getNamedModeSelector),
+    ...(darkMode.strategy === "custom" && darkMode.selector
+      ? [darkMode.selector]
+      : []),
+  ]);
+  const output = options.output ?? target;
+  fs.writeFileSync(output, result.css);
+  console.error(
+    result.replaced > 0
+      ? `Updated ${result.replaced} theme blocks in ${output} (Tailwind v${tailwindVersion})`
+      : `No theme blocks found, appended the theme to ${output} (Tailwind v${tailwindVersion})`
+  );
+};
+
+/**
+ * 解析命令行参数并执行命令
+ *
+ * @returns 进程的退出状态码
+ */
+const main = (): number => {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      tailwind: { type: "string" },
+      "color-format": { type: "string" },
+      "dark-mode": { type: "string" },
+      "dark-selector": { type: "string" },
+      "gamut-fallback": { type: "string" },
+      precision: { type: "string" },
+      lossless: { type: "boolean" },
+      standard: { type: "string" },
+      json: { type: "boolean" },
+      output: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  switch (command) {
+    case "export":
+      runExport(args, values);
+      return 0;
+    case "import":
+      runImport(args, values);
+      return 0;
+    case "contrast":
+      return runContrast(args, values) ? 0 : 1;
+    case "apply":
+      runApply(args, values);
+      return 0;
+    default:
+      throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  // parseArgs 的参数错误(如未知选项)也按用户输入错误处理
+  const message = (error as Error).message;
+  console.error(
+    error instanceof CliError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+      ? `tweakcn: ${message}`
+      : error
+  );
+  process.exitCode = 2;
+}
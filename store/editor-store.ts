@@ -1,7 +1,8 @@
 /**
  * 编辑器状态管理文件
  * 
- * 这个文件使用Zustand库实现了编辑器状态的管理，包括主题状态的存储、修改和持久化。
+ * 这个文件使用Zustand库实现了编辑器状态的管理，包括主题状态的存储、修改和持久化，
+ * 以及主题编辑的撤销/重做历史。
  * Zustand是一个轻量级的状态管理库，类似Redux但更简单，它提供了一个中心化的状态存储，
  * 便于跨组件共享状态，同时支持通过中间件实现额外功能，如状态持久化。
  */
@@ -14,6 +15,51 @@ import { ThemeStyleProps } from "@/types/theme";
 import { isEqual } from "@ngard/tiny-isequal";
 import { defaultThemeState, COMMON_STYLES } from "@/config/theme";
 import { getPresetThemeStyles } from "@/utils/theme-presets";
+import { mergeCustomVariables } from "@/utils/custom-variables";
+import { COLOR_SCALE_TOKENS } from "@/utils/color-scales";
+import {
+  getModeNames,
+  getModeScheme,
+  getNamedModes,
+  mergeNamedModes,
+} from "@/utils/theme-modes";
+
+/**
+ * 历史记录的最大条数
+ * 超过这个数量时，最早的记录会被丢弃，避免内存无限增长
+ */
+const MAX_HISTORY_COUNT = 30;
+
+/**
+ * 连续编辑的合并时间窗口（毫秒）
+ * 
+ * 拖动滑块或颜色选择器时，会在很短的时间内触发大量的状态更新。
+ * 如果两次更新来自同一个控件(合并键相同)且间隔小于这个值，就把它们合并为同一条历史记录，
+ * 这样一次完整的拖动只需要一次撤销就能回到拖动之前的状态；
+ * 快速地先后修改两个不同的属性仍然是两条历史记录。
+ */
+const HISTORY_MERGE_THRESHOLD_MS = 500;
+
+/**
+ * 确保当前模式存在于新的主题样式中
+ * 
+ * 应用预设、重置或撤销之后，正在查看的命名模式可能已经不存在了，
+ * 这时切换到它原来继承的亮色或暗色模式。
+ * 
+ * @param themeState 新的主题状态
+ * @param previousStyles 更新之前的主题样式
+ * @returns 当前模式有效的主题状态
+ */
+const withValidMode = (
+  themeState: ThemeEditorState,
+  previousStyles: ThemeEditorState["styles"]
+): ThemeEditorState =>
+  getModeNames(themeState.styles).includes(themeState.currentMode)
+    ? themeState
+    : {
+        ...themeState,
+        currentMode: getModeScheme(previousStyles, themeState.currentMode),
+      };
 
 /**
  * 编辑器状态存储接口
@@ -25,16 +71,25 @@ import { getPresetThemeStyles } from "@/utils/theme-presets";
  * - 应用主题预设的方法
  * - 重置主题的方法
  * - 检查主题变更状态的方法
+ * - 撤销/重做历史及其操作方法
  */
 interface EditorStore {
   themeState: ThemeEditorState;            // 当前的主题编辑器状态
-  setThemeState: (state: ThemeEditorState) => void;  // 设置新的主题状态
+  setThemeState: (state: ThemeEditorState, mergeKey?: string) => void;  // 设置新的主题状态
   applyThemePreset: (preset: string) => void;  // 应用指定的主题预设
   resetToDefault: () => void;              // 重置到默认主题
   resetToCurrentPreset: () => void;        // 重置到当前选择的预设主题
   hasDefaultThemeChanged: () => boolean;   // 检查当前主题是否与默认主题不同
   hasCurrentPresetChanged: () => boolean;  // 检查当前主题是否与当前预设不同
   hasChangedThemeFromDefault: boolean;     // 标记是否已从默认主题更改过
+  history: ThemeEditorState[];             // 可撤销的历史状态(从旧到新)
+  future: ThemeEditorState[];              // 可重做的状态(从近到远)
+  lastHistoryTimestamp: number;            // 最近一次记录历史的时间，用于合并连续编辑
+  lastHistoryMergeKey: string | null;      // 最近一次编辑的合并键，只有同一个控件的编辑才会合并
+  undo: () => void;                        // 撤销上一次主题编辑
+  redo: () => void;                        // 重做被撤销的主题编辑
+  canUndo: () => boolean;                  // 是否有可撤销的编辑
+  canRedo: () => boolean;                  // 是否有可重做的编辑
 }
 
 /**
@@ -49,100 +104,281 @@ interface EditorStore {
  * 4. resetToCurrentPreset: 重置到当前选择的预设主题
  * 5. hasDefaultThemeChanged: 检查是否已修改默认主题
  * 6. hasCurrentPresetChanged: 检查是否已修改当前预设主题
+ * 7. undo / redo: 撤销或重做主题编辑
+ * 
+ * 撤销历史只保存在内存中，不会被持久化到localStorage。
  */
 export const useEditorStore = create<EditorStore>()(
   persist(
-    (set, get) => ({
-      themeState: defaultThemeState,  // 初始化为默认主题状态
-      hasChangedThemeFromDefault: false,  // 初始未改变标志
-
+    (set, get) => {
       /**
-       * 设置新的主题编辑器状态
-       * @param state 新的主题编辑器状态对象
-       */
-      setThemeState: (state: ThemeEditorState) => {
-        set({ themeState: state });
-      },
-
-      /**
-       * 应用指定名称的预设主题
+       * 带历史记录地更新主题状态
        * 
-       * 会更新当前主题状态，替换为指定预设的样式，
-       * 同时记录当前使用的预设名称。
-       * 如果切换到非默认预设，会设置hasChangedThemeFromDefault标志。
+       * 更新前会把当前状态压入历史栈，并清空重做栈。
        * 
-       * @param preset 预设主题的名称
+       * @param themeState 新的主题状态
+       * @param mergeKey 合并键，通常是被编辑的属性名；不传时不与任何编辑合并
+       * @param updates 需要一并更新的其他字段
        */
-      applyThemePreset: (preset: string) => {
-        const themeState = get().themeState;
-        const updates: Partial<EditorStore> = {
-          themeState: {
-            ...themeState,
-            preset,
-            styles: getPresetThemeStyles(preset),  // 获取预设主题样式
-          },
-        };
-        if (preset !== "default") {
-          updates.hasChangedThemeFromDefault = true;  // 标记已从默认主题更改
-        }
-        set(updates);
-      },
+      const commitThemeState = (
+        themeState: ThemeEditorState,
+        mergeKey?: string,
+        updates: Partial<EditorStore> = {}
+      ) => {
+        const {
+          themeState: previous,
+          history,
+          lastHistoryTimestamp,
+          lastHistoryMergeKey,
+        } = get();
+        const now = Date.now();
+        const shouldMerge =
+          mergeKey !== undefined &&
+          mergeKey === lastHistoryMergeKey &&
+          now - lastHistoryTimestamp < HISTORY_MERGE_THRESHOLD_MS;
 
-      /**
-       * 重置到默认主题
-       * 
-       * 保留当前的主题模式(亮色/暗色)，但将所有样式重置为默认值。
-       */
-      resetToDefault: () => {
-        const mode = get().themeState.currentMode;
-        set({ themeState: { ...defaultThemeState, currentMode: mode } });
-      },
-
-      /**
-       * 重置到当前选择的预设主题
-       * 
-       * 不改变预设选择，但将所有样式重置为当前预设的原始样式。
-       * 用于放弃对当前预设的自定义修改。
-       */
-      resetToCurrentPreset: () => {
-        const themeState = get().themeState;
         set({
-          themeState: {
-            ...themeState,
-            styles: getPresetThemeStyles(themeState.preset || "default"),
-          },
+          ...updates,
+          themeState: withValidMode(themeState, previous.styles),
+          history: shouldMerge
+            ? history
+            : [...history, previous].slice(-MAX_HISTORY_COUNT),
+          future: [],
+          // 非连续编辑(如应用预设)之后的下一次编辑不应与其合并
+          lastHistoryTimestamp: mergeKey !== undefined ? now : 0,
+          lastHistoryMergeKey: mergeKey ?? null,
         });
-      },
+      };
 
-      /**
-       * 检查当前主题是否与默认主题不同
-       * 
-       * 通过深度比较当前主题样式和默认主题样式来判断。
-       * 
-       * @returns {boolean} 若有变更返回true，否则返回false
-       */
-      hasDefaultThemeChanged: () => {
-        const state = get();
-        return !isEqual(state.themeState.styles, defaultThemeState.styles);
-      },
+      return {
+        themeState: defaultThemeState,  // 初始化为默认主题状态
+        hasChangedThemeFromDefault: false,  // 初始未改变标志
+        history: [],                    // 初始没有可撤销的历史
+        future: [],                     // 初始没有可重做的历史
+        lastHistoryTimestamp: 0,
+        lastHistoryMergeKey: null,
 
-      /**
-       * 检查当前主题是否与当前预设的原始主题不同
-       * 
-       * 通过深度比较当前主题样式和预设主题原始样式来判断。
-       * 
-       * @returns {boolean} 若有变更返回true，否则返回false
-       */
-      hasCurrentPresetChanged: () => {
-        const state = get();
-        const presetStyles = getPresetThemeStyles(
-          state.themeState.preset || "default"
-        );
-        return !isEqual(state.themeState.styles, presetStyles);
-      },
-    }),
+        /**
+         * 设置新的主题编辑器状态
+         * 
+         * 如果样式或预设发生了变化，会记录一条撤销历史；
+         * 同一个控件的连续快速编辑(如拖动滑块)会被合并为一条。
+         * 仅切换亮色/暗色模式不会记录历史。
+         * 
+         * @param state 新的主题编辑器状态对象
+         * @param mergeKey 合并键，例如被编辑的属性名；不传时每次编辑都单独记录
+         */
+        setThemeState: (state: ThemeEditorState, mergeKey?: string) => {
+          const previous = get().themeState;
+          if (
+            previous.preset === state.preset &&
+            isEqual(previous.styles, state.styles)
+          ) {
+            set({ themeState: state });
+            return;
+          }
+          commitThemeState(state, mergeKey);
+        },
+
+        /**
+         * 应用指定名称的预设主题
+         * 
+         * 会更新当前主题状态，替换为指定预设的样式，
+         * 同时记录当前使用的预设名称，并脱离正在编辑的已保存主题。
+         * 如果切换到非默认预设，会设置hasChangedThemeFromDefault标志。
+         * 
+         * @param preset 预设主题的名称
+         */
+        applyThemePreset: (preset: string) => {
+          const themeState = get().themeState;
+          const updates: Partial<EditorStore> = {};
+          if (preset !== "default") {
+            updates.hasChangedThemeFromDefault = true;  // 标记已从默认主题更改
+          }
+          const presetStyles = getPresetThemeStyles(preset);  // 获取预设主题样式
+          const { customVariables, scales } = themeState.styles;
+          const withVariables = customVariables?.length
+            ? {
+                ...presetStyles,
+                customVariables: mergeCustomVariables(
+                  customVariables,
+                  presetStyles.customVariables
+                ),
+              }
+            : presetStyles;
+          // 开启的色阶同样保留，色阶会按新预设的颜色重新生成
+          const styles = scales?.length
+            ? {
+                ...withVariables,
+                scales: COLOR_SCALE_TOKENS.filter(
+                  (token) =>
+                    scales.includes(token) ||
+                    presetStyles.scales?.includes(token)
+                ),
+              }
+            : withVariables;
+          commitThemeState(
+            {
+              ...themeState,
+              preset,
+              savedThemeId: undefined,  // 切换到预设后不再编辑主题库中的主题
+              // 用户声明的自定义变量和命名模式不属于任何预设，切换预设时保留下来；
+              // 命名模式只保存差异，所以会继承新预设的颜色
+              styles: getNamedModes(themeState.styles).length
+                ? {
+                    ...styles,
+                    modes: mergeNamedModes(
+                      themeState.styles.modes,
+                      presetStyles.modes
+                    ),
+                  }
+                : styles,
+            },
+            undefined,
+            updates
+          );
+        },
+
+        /**
+         * 重置到默认主题
+         * 
+         * 保留当前的主题模式(亮色/暗色)，但将所有样式重置为默认值。
+         */
+        resetToDefault: () => {
+          const mode = get().themeState.currentMode;
+          commitThemeState({ ...defaultThemeState, currentMode: mode });
+        },
+
+        /**
+         * 重置到当前选择的预设主题
+         * 
+         * 不改变预设选择，但将所有样式重置为当前预设的原始样式。
+         * 用于放弃对当前预设的自定义修改。
+         */
+        resetToCurrentPreset: () => {
+          const themeState = get().themeState;
+          commitThemeState(
+            {
+              ...themeState,
+              styles: getPresetThemeStyles(themeState.preset || "default"),
+            }
+          );
+        },
+
+        /**
+         * 检查当前主题是否与默认主题不同
+         * 
+         * 通过深度比较当前主题样式和默认主题样式来判断。
+         * 
+         * @returns {boolean} 若有变更返回true，否则返回false
+         */
+        hasDefaultThemeChanged: () => {
+          const state = get();
+          return !isEqual(state.themeState.styles, defaultThemeState.styles);
+        },
+
+        /**
+         * 检查当前主题是否与当前预设的原始主题不同
+         * 
+         * 通过深度比较当前主题样式和预设主题原始样式来判断。
+         * 
+         * @returns {boolean} 若有变更返回true，否则返回false
+         */
+        hasCurrentPresetChanged: () => {
+          const state = get();
+          const presetStyles = getPresetThemeStyles(
+            state.themeState.preset || "default"
+          );
+          return !isEqual(state.themeState.styles, presetStyles);
+        },
+
+        /**
+         * 撤销上一次主题编辑
+         * 
+         * 从历史栈中取出最近的状态并恢复，当前状态移入重做栈。
+         * 恢复时保留当前的亮色/暗色模式，避免撤销时界面模式跳动。
+         */
+        undo: () => {
+          const { history, future, themeState } = get();
+          if (history.length === 0) return;
+
+          const previous = history[history.length - 1];
+          set({
+            themeState: withValidMode(
+              { ...previous, currentMode: themeState.currentMode },
+              themeState.styles
+            ),
+            history: history.slice(0, -1),
+            future: [themeState, ...future].slice(0, MAX_HISTORY_COUNT),
+            lastHistoryTimestamp: 0,
+            lastHistoryMergeKey: null,
+          });
+        },
+
+        /**
+         * 重做被撤销的主题编辑
+         * 
+         * 从重做栈中取出最近被撤销的状态并恢复，当前状态重新压入历史栈。
+         */
+        redo: () => {
+          const { history, future, themeState } = get();
+          if (future.length === 0) return;
+
+          const [next, ...rest] = future;
+          set({
+            themeState: withValidMode(
+              { ...next, currentMode: themeState.currentMode },
+              themeState.styles
+            ),
+            history: [...history, themeState].slice(-MAX_HISTORY_COUNT),
+            future: rest,
+            lastHistoryTimestamp: 0,
+            lastHistoryMergeKey: null,
+          });
+        },
+
+        /**
+         * 检查是否有可撤销的编辑
+         * @returns {boolean} 历史栈不为空时返回true
+         */
+        canUndo: () => get().history.length > 0,
+
+        /**
+         * 检查是否有可重做的编辑
+         * @returns {boolean} 重做栈不为空时返回true
+         */
+        canRedo: () => get().future.length > 0,
+      };
+    },
     {
       name: "editor-storage", // localStorage中的唯一存储名称
+      // 只持久化主题相关状态，撤销历史仅在当前会话中有效
+      partialize: (state) => ({
+        themeState: state.themeState,
+        hasChangedThemeFromDefault: state.hasChangedThemeFromDefault,
+      }),
+      // 旧版本保存的主题可能缺少后来新增的属性(例如状态颜色)，
+      // 恢复时用基础预设的值补齐，避免生成的CSS中出现undefined
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<EditorStore> | undefined;
+        if (!persisted?.themeState) return { ...currentState, ...persisted };
+
+        const base = getPresetThemeStyles(
+          persisted.themeState.preset ?? "default"
+        );
+        return {
+          ...currentState,
+          ...persisted,
+          themeState: {
+            ...persisted.themeState,
+            styles: {
+              ...persisted.themeState.styles,
+              light: { ...base.light, ...persisted.themeState.styles.light },
+              dark: { ...base.dark, ...persisted.themeState.styles.dark },
+            },
+          },
+        };
+      },
     }
   )
 );
@@ -8,7 +8,13 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { ColorFormat } from "@/types";
+import {
+  CodeFormat,
+  ColorFormat,
+  ContrastStandard,
+  DarkModeStrategy,
+  GamutFallback,
+} from "@/types";
 
 /**
  * 包管理器类型
@@ -28,15 +34,34 @@ type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
  * - Tailwind CSS版本选择
  * - 颜色格式选择
  * - 包管理器选择
+ * - 对比度检查标准选择
+ * - 代码面板输出格式选择
+ * - 生成的CSS中暗黑模式的切换方式和自定义选择器
+ * - 超出sRGB的颜色的广色域覆盖方式
+ * - 每种颜色格式的小数位数，以及是否保留颜色的原始写法
  * - 以及修改这些设置的方法
  */
 interface PreferencesStore {
   tailwindVersion: "3" | "4";           // 使用的Tailwind CSS版本
   colorFormat: ColorFormat;             // 颜色格式偏好
   packageManager: PackageManager;       // 首选包管理器
+  contrastStandard: ContrastStandard;   // 对比度检查使用的标准
+  codeFormat: CodeFormat;               // 代码面板的输出格式
+  darkModeStrategy: DarkModeStrategy;   // 暗黑模式的切换方式
+  darkModeSelector: string;             // 自定义切换方式使用的选择器
+  gamutFallback: GamutFallback;         // 广色域颜色的覆盖方式
+  colorPrecision: Partial<Record<ColorFormat, number>>; // 各颜色格式的小数位数，未设置时使用默认位数
+  losslessColors: boolean;              // 颜色已经是输出格式时是否保留原始写法
   setTailwindVersion: (version: "3" | "4") => void;  // 设置Tailwind版本
   setColorFormat: (format: ColorFormat) => void;     // 设置颜色格式
   setPackageManager: (pm: PackageManager) => void;   // 设置包管理器
+  setContrastStandard: (standard: ContrastStandard) => void; // 设置对比度标准
+  setCodeFormat: (format: CodeFormat) => void;       // 设置输出格式
+  setDarkModeStrategy: (strategy: DarkModeStrategy) => void; // 设置暗黑模式切换方式
+  setDarkModeSelector: (selector: string) => void;   // 设置自定义暗黑模式选择器
+  setGamutFallback: (fallback: GamutFallback) => void; // 设置广色域覆盖方式
+  setColorPrecision: (format: ColorFormat, precision?: number) => void; // 设置颜色格式的小数位数
+  setLosslessColors: (lossless: boolean) => void;    // 设置是否保留颜色的原始写法
 }
 
 /**
@@ -53,6 +78,12 @@ interface PreferencesStore {
  * - Tailwind CSS版本: 4
  * - 颜色格式: oklch (一种更现代的颜色格式，支持更广色域)
  * - 包管理器: pnpm
+ * - 对比度标准: WCAG 2 AA
+ * - 输出格式: CSS
+ * - 暗黑模式切换方式: .dark 类名
+ * - 广色域覆盖: 不生成
+ * - 小数位数: 各格式的默认位数(见 DEFAULT_COLOR_PRECISION)
+ * - 保留原始写法: 否
  */
 export const usePreferencesStore = create<PreferencesStore>()(
   persist(
@@ -60,6 +91,13 @@ export const usePreferencesStore = create<PreferencesStore>()(
       tailwindVersion: "4",          // 默认使用Tailwind CSS v4
       colorFormat: "oklch",          // 默认使用oklch颜色格式
       packageManager: "pnpm",        // 默认使用pnpm包管理器
+      contrastStandard: "wcag-aa",   // 默认使用WCAG 2 AA标准
+      codeFormat: "css",             // 默认输出CSS代码
+      darkModeStrategy: "class",     // 默认使用 .dark 类名切换
+      darkModeSelector: '[data-mode="dark"]', // 自定义选择器的初始值
+      gamutFallback: "none",         // 默认不生成广色域覆盖
+      colorPrecision: {},            // 默认使用各格式的默认位数
+      losslessColors: false,         // 默认统一转换为输出格式
 
       /**
        * 设置Tailwind CSS版本
@@ -71,7 +109,7 @@ export const usePreferencesStore = create<PreferencesStore>()(
 
       /**
        * 设置颜色格式
-       * @param format 颜色格式，如"hex"、"rgb"、"hsl"或"oklch"等
+       * @param format 颜色格式，如"hex"、"rgb"、"hsl"、"oklch"、"lab"、"lch"、"hwb"或"p3"
        */
       setColorFormat: (format: ColorFormat) => {
         set({ colorFormat: format });
@@ -84,6 +122,71 @@ export const usePreferencesStore = create<PreferencesStore>()(
       setPackageManager: (pm: PackageManager) => {
         set({ packageManager: pm });
       },
+
+      /**
+       * 设置对比度检查标准
+       * @param standard 对比度标准，如"wcag-aa"、"wcag-aaa"、"wcag-large"或"apca"
+       */
+      setContrastStandard: (standard: ContrastStandard) => {
+        set({ contrastStandard: standard });
+      },
+
+      /**
+       * 设置代码面板的输出格式
+       * @param format 输出格式，"css"、"globals"(完整的 globals.css) 或 "dtcg"(W3C设计令牌JSON)
+       */
+      setCodeFormat: (format: CodeFormat) => {
+        set({ codeFormat: format });
+      },
+
+      /**
+       * 设置暗黑模式的切换方式
+       * @param strategy 切换方式，"class"、"data-attribute"、"custom"、"media" 或 "media-class"
+       */
+      setDarkModeStrategy: (strategy: DarkModeStrategy) => {
+        set({ darkModeStrategy: strategy });
+      },
+
+      /**
+       * 设置自定义切换方式使用的选择器
+       * @param selector CSS选择器，如 '[data-mode="dark"]' 或 ".theme-dark"
+       */
+      setDarkModeSelector: (selector: string) => {
+        set({ darkModeSelector: selector });
+      },
+
+      /**
+       * 设置广色域颜色的覆盖方式
+       * @param fallback "none"、"supports"(@supports 检测P3支持) 或 "media"(@media 检测P3屏幕)
+       */
+      setGamutFallback: (fallback: GamutFallback) => {
+        set({ gamutFallback: fallback });
+      },
+
+      /**
+       * 设置颜色格式的小数位数
+       * @param format 颜色格式
+       * @param precision 小数位数，不传时恢复为默认位数
+       */
+      setColorPrecision: (format: ColorFormat, precision?: number) => {
+        set((state) => {
+          const { [format]: _, ...colorPrecision } = state.colorPrecision;
+          return {
+            colorPrecision:
+              precision === undefined
+                ? colorPrecision
+                : { ...colorPrecision, [format]: precision },
+          };
+        });
+      },
+
+      /**
+       * 设置是否保留颜色的原始写法
+       * @param lossless 为true时，颜色已经是输出格式的会原样输出，例如导入的OKLCH颜色
+       */
+      setLosslessColors: (lossless: boolean) => {
+        set({ losslessColors: lossless });
+      },
     }),
     {
       name: "preferences-storage", // localStorage中的唯一存储名称
@@ -0,0 +1,239 @@
+/**
+ * 主题库状态管理文件
+ *
+ * 这个文件使用Zustand库实现了用户主题库的管理。主题库可以保存多个命名的自定义主题，
+ * 方便在不同项目(例如多个客户品牌)之间来回切换。
+ *
+ * 主题库与编辑器状态的关系：
+ * - 编辑器状态(editor-store)始终只保存"当前正在编辑"的一个主题
+ * - 当编辑器正在编辑主题库中的某个主题时，themeState.savedThemeId 会指向该主题
+ * - 编辑器中的每一次修改都会自动同步回主题库，因此切换主题时不会丢失任何修改
+ *
+ * 所有保存的主题都会通过persist中间件持久化到localStorage中。
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { SavedTheme, ThemeStyles } from "@/types/theme";
+import { getPresetThemeStyles } from "@/utils/theme-presets";
+import { useEditorStore } from "./editor-store";
+
+/**
+ * 主题库存储接口
+ *
+ * 定义了主题库需要提供的所有属性和方法:
+ * - 所有保存的主题
+ * - 创建、复制、重命名、删除主题的方法
+ * - 在编辑器中加载主题的方法
+ */
+interface ThemeLibraryStore {
+  savedThemes: Record<string, SavedTheme>;              // 按ID索引的所有保存的主题
+  createTheme: (name?: string, styles?: ThemeStyles) => string; // 创建新主题并在编辑器中打开，返回新主题ID
+  duplicateTheme: (id: string) => string | null;        // 复制指定主题，返回副本ID
+  renameTheme: (id: string, name: string) => void;      // 重命名指定主题
+  deleteTheme: (id: string) => void;                    // 删除指定主题
+  loadTheme: (id: string) => void;                      // 在编辑器中打开指定主题
+  updateThemeStyles: (id: string, styles: ThemeStyles) => void; // 更新指定主题的样式
+}
+
+/**
+ * 生成主题的唯一ID
+ * 使用时间戳加随机字符串，足以在本地主题库中保证唯一
+ */
+const generateThemeId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 生成一个不与现有主题重名的默认名称
+ *
+ * @param savedThemes 当前所有保存的主题
+ * @param baseName 名称前缀
+ * @returns 例如 "My Theme 3"
+ */
+const getUniqueThemeName = (
+  savedThemes: Record<string, SavedTheme>,
+  baseName: string
+) => {
+  const names = new Set(Object.values(savedThemes).map((theme) => theme.name));
+  if (!names.has(baseName)) return baseName;
+
+  let index = 2;
+  while (names.has(`${baseName} ${index}`)) {
+    index++;
+  }
+  return `${baseName} ${index}`;
+};
+
+/**
+ * 主题库存储实例
+ *
+ * 使用Zustand的create函数创建状态存储，同时通过persist中间件实现状态持久化。
+ */
+export const useThemeLibraryStore = create<ThemeLibraryStore>()(
+  persist(
+    (set, get) => ({
+      savedThemes: {},  // 初始主题库为空
+
+      /**
+       * 创建新主题
+       *
+       * 默认以编辑器中当前的样式作为新主题的内容，创建后立即在编辑器中打开。
+       * 如果传入了样式(例如由品牌色生成的主题)，新主题不基于任何预设。
+       *
+       * @param name 主题名称(可选，默认自动生成)
+       * @param styles 主题样式(可选，默认使用编辑器当前样式)
+       * @returns 新主题的ID
+       */
+      createTheme: (name?: string, styles?: ThemeStyles) => {
+        const { themeState } = useEditorStore.getState();
+        const now = new Date().toISOString();
+        const id = generateThemeId();
+        const theme: SavedTheme = {
+          id,
+          name:
+            name?.trim() || getUniqueThemeName(get().savedThemes, "My Theme"),
+          basePreset: styles ? undefined : themeState.preset,
+          styles: styles ?? themeState.styles,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set({ savedThemes: { ...get().savedThemes, [id]: theme } });
+        get().loadTheme(id);
+        return id;
+      },
+
+      /**
+       * 复制主题
+       *
+       * 创建一个内容相同、名称带有"(copy)"后缀的新主题，但不会切换编辑器。
+       *
+       * @param id 要复制的主题ID
+       * @returns 副本的ID，如果原主题不存在则返回null
+       */
+      duplicateTheme: (id: string) => {
+        const { savedThemes } = get();
+        const source = savedThemes[id];
+        if (!source) return null;
+
+        const now = new Date().toISOString();
+        const copyId = generateThemeId();
+        set({
+          savedThemes: {
+            ...savedThemes,
+            [copyId]: {
+              ...source,
+              id: copyId,
+              name: getUniqueThemeName(savedThemes, `${source.name} (copy)`),
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+        });
+        return copyId;
+      },
+
+      /**
+       * 重命名主题
+       *
+       * @param id 主题ID
+       * @param name 新名称(空白名称会被忽略)
+       */
+      renameTheme: (id: string, name: string) => {
+        const { savedThemes } = get();
+        const theme = savedThemes[id];
+        const trimmed = name.trim();
+        if (!theme || !trimmed) return;
+
+        set({
+          savedThemes: {
+            ...savedThemes,
+            [id]: { ...theme, name: trimmed, updatedAt: new Date().toISOString() },
+          },
+        });
+      },
+
+      /**
+       * 删除主题
+       *
+       * 如果被删除的主题正在编辑器中打开，编辑器会保留当前样式，
+       * 但不再与主题库关联。
+       *
+       * @param id 主题ID
+       */
+      deleteTheme: (id: string) => {
+        const { [id]: _removed, ...rest } = get().savedThemes;
+        set({ savedThemes: rest });
+
+        const { themeState } = useEditorStore.getState();
+        if (themeState.savedThemeId === id) {
+          useEditorStore.setState({
+            themeState: { ...themeState, savedThemeId: undefined },
+          });
+        }
+      },
+
+      /**
+       * 在编辑器中打开主题
+       *
+       * 当前主题的修改已经实时同步到主题库，所以这里可以直接切换。
+       * 切换本身会记录到编辑器的撤销历史中。
+       *
+       * @param id 主题ID
+       */
+      loadTheme: (id: string) => {
+        const theme = get().savedThemes[id];
+        if (!theme) return;
+
+        // 较早保存的主题可能缺少后来新增的属性，用基础预设的值补齐
+        const base = getPresetThemeStyles(theme.basePreset ?? "default");
+        const { themeState, setThemeState } = useEditorStore.getState();
+        setThemeState({
+          ...themeState,
+          preset: theme.basePreset,
+          savedThemeId: id,
+          styles: {
+            ...theme.styles,
+            light: { ...base.light, ...theme.styles.light },
+            dark: { ...base.dark, ...theme.styles.dark },
+          },
+        });
+        useEditorStore.setState({ hasChangedThemeFromDefault: true });
+      },
+
+      /**
+       * 更新主题样式
+       *
+       * @param id 主题ID
+       * @param styles 新的主题样式
+       */
+      updateThemeStyles: (id: string, styles: ThemeStyles) => {
+        const { savedThemes } = get();
+        const theme = savedThemes[id];
+        if (!theme || theme.styles === styles) return;
+
+        set({
+          savedThemes: {
+            ...savedThemes,
+            [id]: { ...theme, styles, updatedAt: new Date().toISOString() },
+          },
+        });
+      },
+    }),
+    {
+      name: "theme-library-storage", // localStorage中的唯一存储名称
+    }
+  )
+);
+
+/**
+ * 自动同步编辑器修改到主题库
+ *
+ * 只要编辑器正在编辑主题库中的主题，每次样式变化都会写回主题库，
+ * 包括撤销/重做和重置操作。
+ */
+useEditorStore.subscribe((state, previousState) => {
+  const { savedThemeId, styles } = state.themeState;
+  if (!savedThemeId || styles === previousState.themeState.styles) return;
+  useThemeLibraryStore.getState().updateThemeStyles(savedThemeId, styles);
+});
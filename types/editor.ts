@@ -7,7 +7,7 @@
  * 编辑器系统是应用的核心功能，这些类型定义决定了编辑器的结构和交互方式。
  */
 
-import { ThemeStyles } from "./theme";
+import { ThemeModeName, ThemeStyles } from "./theme";
 
 /**
  * 基础编辑器状态接口
@@ -47,12 +47,13 @@ export interface EditorPreviewProps {
  * 主题编辑器特定状态接口
  * 
  * 扩展基础编辑器状态，添加主题编辑器特有的属性。
- * 包括当前主题预设和选中的主题模式(亮色/暗色)。
+ * 包括当前主题预设、正在编辑的已保存主题和选中的主题模式(亮色/暗色)。
  */
 export interface ThemeEditorState extends BaseEditorState {
   preset?: string;               // 当前使用的主题预设名称(可选)
+  savedThemeId?: string;         // 当前正在编辑的主题库中主题的ID(可选)
   styles: ThemeStyles;           // 当前编辑的完整主题样式
-  currentMode: "light" | "dark"; // 当前选中的主题模式
+  currentMode: ThemeModeName;    // 当前选中的主题模式(亮色、暗色或命名模式)
 }
 
 /**
@@ -35,4 +35,35 @@ export type ReadOnlyColorDisplayProps = {
   linkTo: string;
 };
 
-export type ColorFormat = "hex" | "rgb" | "hsl" | "oklch";
+export type ColorFormat =
+  | "hex"
+  | "rgb"
+  | "hsl"
+  | "oklch"
+  | "lab"
+  | "lch"
+  | "hwb"
+  | "p3";
+
+export type GamutFallback = "none" | "supports" | "media";
+
+export type ColorFormatOptions = {
+  precision?: number;
+  lossless?: boolean;
+};
+
+export type ContrastStandard = "wcag-aa" | "wcag-aaa" | "wcag-large" | "apca";
+
+export type CodeFormat = "css" | "globals" | "dtcg";
+
+export type DarkModeStrategy =
+  | "class"
+  | "data-attribute"
+  | "custom"
+  | "media"
+  | "media-class";
+
+export type DarkModeOptions = {
+  strategy: DarkModeStrategy;
+  selector?: string;
+};
@@ -30,6 +30,12 @@ export interface ThemeStyleProps {
   "accent-foreground": string; // 强调元素文本颜色
   destructive: string;       // 危险/删除操作背景色
   "destructive-foreground": string; // 危险/删除操作文本颜色
+  success: string;           // 成功状态背景色
+  "success-foreground": string; // 成功状态文本颜色
+  warning: string;           // 警告状态背景色
+  "warning-foreground": string; // 警告状态文本颜色
+  info: string;              // 提示信息背景色
+  "info-foreground": string; // 提示信息文本颜色
   border: string;            // 边框颜色
   input: string;             // 输入框边框颜色
   ring: string;              // 聚焦状态环状高亮颜色
@@ -60,15 +66,71 @@ export interface ThemeStyleProps {
   spacing: string;           // 基础间距单位
 }
 
+/**
+ * 自定义变量类型
+ * 
+ * - color: 颜色值，会跟随导出的颜色格式转换，并在Tailwind v4中映射为--color-*
+ * - length: 尺寸值，如 1rem、12px
+ * - raw: 任意CSS值，原样输出
+ */
+export type CustomVariableType = "color" | "length" | "raw";
+
+/**
+ * 自定义CSS变量接口
+ * 
+ * 用户在固定的主题属性之外额外声明的变量，例如 --surface-2 或 --highlight。
+ * 每个变量在亮色和暗色模式下分别有自己的值。
+ */
+export interface CustomVariable {
+  name: string;              // 变量名(不含--前缀)
+  type: CustomVariableType;  // 变量类型
+  light: string;             // 亮色模式下的值
+  dark: string;              // 暗色模式下的值
+}
+
+/**
+ * 可以生成色阶(50-950)的颜色属性
+ */
+export type ColorScaleToken = "primary" | "secondary" | "accent";
+
+/**
+ * 内置的两种基础模式
+ */
+export type BaseThemeMode = "light" | "dark";
+
+/**
+ * 主题模式名称
+ * 
+ * 除了内置的 light 和 dark，还可以是 ThemeStyles.modes 中声明的命名模式(如 "dim")
+ */
+export type ThemeModeName = BaseThemeMode | (string & {});
+
+/**
+ * 命名模式接口
+ * 
+ * 亮色和暗色之外的额外配色方案，例如 "dim"、"high-contrast" 或 "sepia"。
+ * 每个命名模式继承一个基础模式(可以是 light、dark 或其他命名模式)，
+ * 只保存与基础模式不同的属性，基础模式修改后命名模式会跟着变化。
+ */
+export interface NamedThemeMode {
+  name: string;                       // 模式名称，如 "dim"
+  base: ThemeModeName;                // 继承的模式
+  selector?: string;                  // 生成CSS时使用的选择器，默认为 .名称
+  styles: Partial<ThemeStyleProps>;   // 与基础模式不同的属性
+}
+
 /**
  * 完整主题样式接口
  * 
- * 包含亮色和暗色两种模式的完整主题样式。
+ * 包含亮色和暗色两种模式的完整主题样式，以及可选的命名模式。
  * 应用会根据用户选择或系统设置来切换显示亮色或暗色主题。
  */
 export interface ThemeStyles {
   light: ThemeStyleProps;  // 亮色主题的完整样式属性
   dark: ThemeStyleProps;   // 暗色主题的完整样式属性
+  customVariables?: CustomVariable[]; // 用户自定义的额外变量(可选)
+  modes?: NamedThemeMode[]; // 亮色和暗色之外的命名模式(可选)
+  scales?: ColorScaleToken[]; // 需要生成 50-950 色阶的颜色属性(可选)
 }
 
 /**
@@ -79,7 +141,7 @@ export interface ThemeStyles {
  */
 export interface ThemeEditorState {
   styles: ThemeStyles;               // 完整的主题样式(亮色和暗色)
-  currentMode: "light" | "dark";     // 当前选择的主题模式
+  currentMode: ThemeModeName;        // 当前选择的主题模式
 }
 
 /**
@@ -90,7 +152,7 @@ export interface ThemeEditorState {
  */
 export interface ThemeEditorPreviewProps {
   styles: ThemeStyles;             // 完整的主题样式(亮色和暗色)
-  currentMode: "light" | "dark";   // 当前选择的主题模式
+  currentMode: ThemeModeName;      // 当前选择的主题模式
 }
 
 /**
@@ -101,8 +163,8 @@ export interface ThemeEditorPreviewProps {
  */
 export interface ThemeEditorControlsProps {
   styles: ThemeStyles;                      // 完整的主题样式(亮色和暗色)
-  currentMode: "light" | "dark";            // 当前选择的主题模式
-  onChange: (styles: ThemeStyles) => void;  // 样式变更时的回调函数
+  currentMode: ThemeModeName;               // 当前选择的主题模式
+  onChange: (styles: ThemeStyles, mergeKey?: string) => void;  // 样式变更时的回调函数，mergeKey 标识连续编辑的控件
 }
 
 /**
@@ -119,5 +181,24 @@ export type ThemePreset = {
   styles: {
     light?: Partial<ThemeStyleProps>;        // 亮色模式下的样式(可选且可部分定义)
     dark?: Partial<ThemeStyleProps>;         // 暗色模式下的样式(可选且可部分定义)
+    customVariables?: CustomVariable[];      // 预设自带的自定义变量(可选)
+    modes?: NamedThemeMode[];                // 预设自带的命名模式(可选)
+    scales?: ColorScaleToken[];              // 预设生成色阶的颜色属性(可选)
   };
 };
+
+/**
+ * 用户保存的主题类型
+ * 
+ * 定义主题库中一个用户自定义主题的数据结构。
+ * 与预设不同，保存的主题总是包含完整的亮色和暗色样式，
+ * 并且可以被重命名、复制和删除。
+ */
+export type SavedTheme = {
+  id: string;                                // 主题的唯一标识符
+  name: string;                              // 用户可编辑的主题名称
+  basePreset?: string;                       // 创建该主题时所基于的预设名称(可选)
+  styles: ThemeStyles;                       // 完整的主题样式(亮色和暗色)
+  createdAt: string;                         // 创建时间(ISO格式)
+  updatedAt: string;                         // 最后修改时间(ISO格式)
+};
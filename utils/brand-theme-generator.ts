@@ -0,0 +1,261 @@
+/**
+ * 品牌色主题生成器
+ *
+ * 这个文件可以从一个品牌色(以及可选的辅助色和中性色调)出发，
+ * 自动推导出亮色和暗色模式下的全部颜色属性，省去逐个调整颜色选择器的麻烦。
+ *
+ * 生成过程在OKLCH颜色空间中进行：
+ * 1. 中性色(背景、卡片、边框等)使用品牌色或中性色调的色相，配合极低的色度
+ * 2. 主要色直接使用品牌色，辅助色用于次要按钮和强调色
+ * 3. 每一对前景/背景颜色都会调整亮度，直到满足WCAG对比度目标
+ * 4. 图表颜色从品牌色的色相出发，在色环上均匀分布
+ *
+ * 危险色、状态色以及字体、圆角、阴影等非颜色属性沿用默认主题。
+ */
+
+import { ThemeStyleProps, ThemeStyles } from "@/types/theme";
+import { defaultThemeState } from "@/config/theme";
+import {
+  Oklch,
+  ensureContrast,
+  formatOklchHex,
+  getWcagContrast,
+  parseOklch,
+} from "./oklch";
+
+/**
+ * 生成选项
+ */
+export type BrandThemeOptions = {
+  brand: string;          // 品牌色(必填)
+  secondary?: string;     // 辅助色(可选)
+  neutralTint?: string;   // 中性色调(可选，默认跟随品牌色的色相)
+};
+
+/**
+ * 正文文本与背景之间的对比度目标(WCAG AAA)
+ */
+export const TEXT_CONTRAST_TARGET = 7;
+
+/**
+ * 按钮等控件上的文本与控件背景之间的对比度目标(WCAG AA)
+ */
+export const CONTROL_CONTRAST_TARGET = 4.5;
+
+// 没有指定中性色调时，中性色带有的品牌色度
+const DEFAULT_NEUTRAL_CHROMA = 0.006;
+// 中性色允许的最大色度，避免背景过于鲜艳
+const MAX_NEUTRAL_CHROMA = 0.03;
+// 图表颜色在色环上的偏移量
+const CHART_HUE_OFFSETS = [0, 72, 144, 216, 288];
+
+/**
+ * 在白色和黑色(带一点色调)之间选择与背景对比度更高的前景色
+ *
+ * @param background 背景色(十六进制)
+ * @param hue 前景色的色相
+ * @returns 前景色
+ */
+const pickForeground = (background: string, hue: number): Oklch => {
+  const light = { l: 0.985, c: 0.005, h: hue };
+  const dark = { l: 0.145, c: 0.01, h: hue };
+  return getWcagContrast(formatOklchHex(light), background) >=
+    getWcagContrast(formatOklchHex(dark), background)
+    ? light
+    : dark;
+};
+
+/**
+ * 生成一对填充色(背景 + 前景)，例如主要按钮
+ *
+ * 先选择对比度更高的前景色，如果仍然达不到目标，
+ * 就调整背景的亮度(远离前景色)，直到满足对比度目标。
+ *
+ * @param color 背景色
+ * @returns 十六进制的背景色和前景色
+ */
+const createFilledPair = (color: Oklch) => {
+  const foreground = pickForeground(formatOklchHex(color), color.h);
+  const foregroundHex = formatOklchHex(foreground);
+  const background = ensureContrast(
+    color,
+    foregroundHex,
+    CONTROL_CONTRAST_TARGET
+  );
+  return { background: formatOklchHex(background), foreground: foregroundHex };
+};
+
+/**
+ * 生成满足对比度目标的文本颜色
+ *
+ * @param color 期望的文本颜色
+ * @param background 文本所在的背景色(十六进制)
+ * @param target 对比度目标
+ * @returns 十六进制的文本颜色
+ */
+const createText = (color: Oklch, background: string, target: number) =>
+  formatOklchHex(ensureContrast(color, background, target));
+
+/**
+ * 生成单个模式下的所有颜色
+ *
+ * @param mode 主题模式
+ * @param brand 品牌色
+ * @param secondary 辅助色(可选)
+ * @param neutral 中性色的色相和色度
+ * @returns 该模式下的颜色属性
+ */
+const generateModeTokens = (
+  mode: "light" | "dark",
+  brand: Oklch,
+  secondary: Oklch | null,
+  neutral: { h: number; c: number }
+): Partial<ThemeStyleProps> => {
+  const isDark = mode === "dark";
+  const n = (l: number) => ({ l, c: neutral.c, h: neutral.h });
+  const accentHue = (secondary ?? brand).h;
+
+  const background = formatOklchHex(n(isDark ? 0.145 : 0.995));
+  const foreground = createText(
+    n(isDark ? 0.985 : 0.145),
+    background,
+    TEXT_CONTRAST_TARGET
+  );
+  const card = formatOklchHex(n(isDark ? 0.205 : 1));
+  const cardForeground = createText(
+    n(isDark ? 0.985 : 0.145),
+    card,
+    TEXT_CONTRAST_TARGET
+  );
+
+  // 暗色模式下，过暗的品牌色在深色背景上不够醒目，适当提亮
+  const primaryColor = isDark ? { ...brand, l: Math.max(brand.l, 0.6) } : brand;
+  const primary = createFilledPair(primaryColor);
+
+  // 辅助色作为次要按钮；没有辅助色时次要按钮使用中性色
+  const secondaryBackground = formatOklchHex(n(isDark ? 0.27 : 0.96));
+  const secondaryPair = secondary
+    ? createFilledPair(
+        isDark ? { ...secondary, l: Math.max(secondary.l, 0.6) } : secondary
+      )
+    : {
+        background: secondaryBackground,
+        foreground: createText(
+          n(isDark ? 0.985 : 0.205),
+          secondaryBackground,
+          CONTROL_CONTRAST_TARGET
+        ),
+      };
+
+  const muted = formatOklchHex(n(isDark ? 0.27 : 0.96));
+  const mutedForeground = createText(
+    n(isDark ? 0.71 : 0.55),
+    muted,
+    CONTROL_CONTRAST_TARGET
+  );
+
+  // 强调色是辅助色(或品牌色)的浅色/深色版本
+  const accent = formatOklchHex({
+    l: isDark ? 0.3 : 0.95,
+    c: Math.min((secondary ?? brand).c * 0.3, 0.05),
+    h: accentHue,
+  });
+  const accentForeground = createText(
+    {
+      l: isDark ? 0.95 : 0.3,
+      c: Math.min((secondary ?? brand).c, 0.08),
+      h: accentHue,
+    },
+    accent,
+    CONTROL_CONTRAST_TARGET
+  );
+
+  const border = formatOklchHex(n(isDark ? 0.3 : 0.92));
+  const input = formatOklchHex(n(isDark ? 0.34 : 0.92));
+  const ring = formatOklchHex({ ...primaryColor, l: isDark ? 0.55 : 0.7 });
+
+  // 图表颜色：从品牌色的色相出发均匀分布，有辅助色时第二种颜色使用辅助色的色相
+  const chartChroma = Math.min(Math.max(brand.c, 0.1), 0.17);
+  const charts = CHART_HUE_OFFSETS.map((offset, index) =>
+    formatOklchHex({
+      l: isDark ? 0.7 : 0.65,
+      c: chartChroma,
+      h:
+        index === 1 && secondary
+          ? secondary.h
+          : (brand.h + offset) % 360,
+    })
+  );
+
+  const sidebar = formatOklchHex(n(isDark ? 0.205 : 0.985));
+  const sidebarForeground = createText(
+    n(isDark ? 0.985 : 0.145),
+    sidebar,
+    TEXT_CONTRAST_TARGET
+  );
+
+  return {
+    background,
+    foreground,
+    card,
+    "card-foreground": cardForeground,
+    popover: card,
+    "popover-foreground": cardForeground,
+    primary: primary.background,
+    "primary-foreground": primary.foreground,
+    secondary: secondaryPair.background,
+    "secondary-foreground": secondaryPair.foreground,
+    muted,
+    "muted-foreground": mutedForeground,
+    accent,
+    "accent-foreground": accentForeground,
+    border,
+    input,
+    ring,
+    "chart-1": charts[0],
+    "chart-2": charts[1],
+    "chart-3": charts[2],
+    "chart-4": charts[3],
+    "chart-5": charts[4],
+    sidebar,
+    "sidebar-foreground": sidebarForeground,
+    "sidebar-primary": primary.background,
+    "sidebar-primary-foreground": primary.foreground,
+    "sidebar-accent": accent,
+    "sidebar-accent-foreground": accentForeground,
+    "sidebar-border": border,
+    "sidebar-ring": ring,
+    "shadow-color": formatOklchHex(n(0)),
+  };
+};
+
+/**
+ * 从品牌色生成完整的主题
+ *
+ * @param options 品牌色、辅助色和中性色调
+ * @returns 完整的主题样式，品牌色无效时返回null
+ */
+export const generateThemeFromBrandColor = (
+  options: BrandThemeOptions
+): ThemeStyles | null => {
+  const brand = parseOklch(options.brand);
+  if (!brand) return null;
+
+  const secondary = options.secondary ? parseOklch(options.secondary) : null;
+  const tint = options.neutralTint ? parseOklch(options.neutralTint) : null;
+  const neutral = tint
+    ? { h: tint.h, c: Math.min(tint.c, MAX_NEUTRAL_CHROMA) }
+    : { h: brand.h, c: Math.min(brand.c, DEFAULT_NEUTRAL_CHROMA) };
+
+  const { light, dark } = defaultThemeState.styles;
+  return {
+    light: {
+      ...light,
+      ...generateModeTokens("light", brand, secondary, neutral),
+    },
+    dark: {
+      ...dark,
+      ...generateModeTokens("dark", brand, secondary, neutral),
+    },
+  };
+};
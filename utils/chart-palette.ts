@@ -0,0 +1,253 @@
+/**
+ * 图表调色板生成器
+ *
+ * 为 chart-1 到 chart-5 生成一组颜色，并保证它们在图表中可以区分：
+ * 1. sequential(顺序)：同一色相从深到浅(暗色背景下从浅到深)的五级，用于表示数量的大小
+ * 2. diverging(发散)：两端分别是种子色和它的对比色，中间是接近灰色的颜色，用于表示正负偏差
+ * 3. categorical(分类)：色相在色环上分散开的五种颜色，用于区分互不相关的系列
+ *
+ * 生成在OKLCH中进行，颜色都在sRGB色域内。生成后会检查OKLab中的感知距离：
+ * - 每种颜色与背景色之间不低于最小距离
+ * - 相邻的两种颜色之间不低于最小距离；分类调色板中的任意两种颜色都可能相邻
+ *   (例如饼图和堆叠柱状图)，所以检查所有的颜色对
+ * 距离不够时会拉开这些颜色的亮度，直到满足要求或者无法再调整。
+ */
+
+import { Oklch, formatOklch, getMaxChroma, parseOklch } from "./oklch";
+import { CHART_COLORS, getPerceptualDistance } from "./color-vision";
+
+/**
+ * 调色板类型
+ */
+export type ChartPaletteMode = "sequential" | "diverging" | "categorical";
+
+/**
+ * 各种调色板类型在界面中显示的名称
+ */
+export const CHART_PALETTE_MODE_LABELS: Record<ChartPaletteMode, string> = {
+  sequential: "Sequential",
+  diverging: "Diverging",
+  categorical: "Categorical",
+};
+
+/**
+ * 生成选项
+ */
+export type ChartPaletteOptions = {
+  mode: ChartPaletteMode;  // 调色板类型
+  seed: string;            // 种子色，通常是主要色
+  background: string;      // 图表所在的背景色
+  minDistance: number;     // 最小感知距离(OKLab中的欧几里得距离)
+};
+
+/**
+ * 生成结果
+ */
+export type ChartPalette = {
+  colors: string[];            // chart-1 到 chart-5 的颜色
+  neighborDistance: number;    // 相邻颜色之间最小的距离
+  backgroundDistance: number;  // 颜色与背景之间最小的距离
+  satisfied: boolean;          // 是否满足最小距离的要求
+};
+
+// 图表颜色可以使用的亮度范围，太暗或太亮的颜色很难看出色相
+const DARKEST = 0.3;
+const LIGHTEST = 0.92;
+// 发散和分类调色板的最小色度，灰色的种子色也能生成可以区分的颜色
+const MIN_HUE_CHROMA = 0.1;
+// 分类调色板的最大色度，避免颜色过于刺眼
+const MAX_CATEGORICAL_CHROMA = 0.2;
+// 分类调色板的色相偏移，相邻的颜色相差144度，任意两种颜色至少相差72度
+const CATEGORICAL_HUE_OFFSETS = [0, 144, 288, 72, 216];
+// 分类调色板的亮度偏移，让色觉缺陷者也能通过亮度区分颜色
+const CATEGORICAL_LIGHTNESS_OFFSETS = [0, 0.08, -0.08, 0.04, -0.04];
+// 计算相对色度时sRGB边界色度的下限(与色阶生成相同)
+const MIN_REFERENCE_CHROMA = 0.05;
+// 拉开亮度时每次调整的步长和最多调整的次数
+const LIGHTNESS_STEP = 0.01;
+const MAX_ADJUSTMENTS = 100;
+// 亮度范围留出的余量，避免格式化为 oklch() 时四舍五入让距离略低于最小距离
+const ROUNDING_MARGIN = 0.001;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * 计算颜色可以使用的亮度范围
+ * 与背景的亮度差不低于最小距离时，感知距离也一定不低于最小距离
+ *
+ * @returns [离背景最远的亮度, 离背景最近的亮度]
+ */
+const getLightnessRange = (
+  backgroundLightness: number,
+  minDistance: number
+): [number, number] => {
+  const gap = minDistance + ROUNDING_MARGIN;
+  return backgroundLightness >= 0.5
+    ? [DARKEST, clamp(backgroundLightness - gap, DARKEST, LIGHTEST)]
+    : [LIGHTEST, clamp(backgroundLightness + gap, DARKEST, LIGHTEST)];
+};
+
+/**
+ * 种子色在sRGB中的相对色度(0-1)
+ */
+const getRelativeChroma = (seed: Oklch) =>
+  Math.min(
+    seed.c / Math.max(getMaxChroma(seed.l, seed.h, "rgb"), MIN_REFERENCE_CHROMA),
+    1
+  );
+
+/**
+ * 在亮度范围内均匀取值
+ */
+const interpolate = (from: number, to: number, ratio: number) =>
+  from + (to - from) * ratio;
+
+/**
+ * 生成顺序调色板：chart-1 离背景最远，最醒目
+ */
+const generateSequential = (
+  seed: Oklch,
+  [far, near]: [number, number]
+): Oklch[] => {
+  const relativeChroma = getRelativeChroma(seed);
+  return CHART_COLORS.map((_, index) => {
+    const l = interpolate(far, near, index / (CHART_COLORS.length - 1));
+    return { l, c: relativeChroma * getMaxChroma(l, seed.h, "rgb"), h: seed.h };
+  });
+};
+
+/**
+ * 生成发散调色板：chart-1 和 chart-5 是两端，chart-3 是中间接近灰色的颜色
+ */
+const generateDiverging = (
+  seed: Oklch,
+  [far, near]: [number, number]
+): Oklch[] => {
+  const relativeChroma = getRelativeChroma(seed);
+  const middle = interpolate(far, near, 0.5);
+  const opposite = (seed.h + 180) % 360;
+  const arm = (l: number, h: number, ratio: number): Oklch => {
+    const maxChroma = getMaxChroma(l, h, "rgb");
+    const chroma = Math.max(relativeChroma * maxChroma, MIN_HUE_CHROMA);
+    return { l, c: Math.min(chroma, maxChroma) * ratio, h };
+  };
+  return [
+    arm(far, seed.h, 1),
+    arm(middle, seed.h, 0.6),
+    { l: near, c: 0, h: seed.h },
+    arm(middle, opposite, 0.6),
+    arm(far, opposite, 1),
+  ];
+};
+
+/**
+ * 生成分类调色板：chart-1 使用种子色的色相，其余颜色在色环上分散开
+ */
+const generateCategorical = (
+  seed: Oklch,
+  [far, near]: [number, number]
+): Oklch[] => {
+  const [low, high] = far < near ? [far, near] : [near, far];
+  const base = clamp(seed.l, low, high);
+  const chroma = clamp(seed.c, MIN_HUE_CHROMA, MAX_CATEGORICAL_CHROMA);
+  return CATEGORICAL_HUE_OFFSETS.map((offset, index) => {
+    const l = clamp(base + CATEGORICAL_LIGHTNESS_OFFSETS[index], low, high);
+    const h = (seed.h + offset) % 360;
+    return { l, c: Math.min(chroma, getMaxChroma(l, h, "rgb")), h };
+  });
+};
+
+/**
+ * 获取需要检查距离的颜色对
+ */
+const getNeighborPairs = (mode: ChartPaletteMode): [number, number][] =>
+  CHART_COLORS.flatMap((_, i) =>
+    CHART_COLORS.slice(i + 1)
+      .map((__, offset): [number, number] => [i, i + offset + 1])
+      .filter(([, j]) => mode === "categorical" || j === i + 1)
+  );
+
+/**
+ * 计算调色板的最小距离
+ */
+const measurePalette = (
+  colors: string[],
+  background: string,
+  pairs: [number, number][]
+) => ({
+  neighborDistance: Math.min(
+    ...pairs.map(([i, j]) => getPerceptualDistance(colors[i], colors[j]))
+  ),
+  backgroundDistance: Math.min(
+    ...colors.map((color) => getPerceptualDistance(color, background))
+  ),
+});
+
+/**
+ * 生成图表调色板
+ *
+ * @param options 生成选项
+ * @returns chart-1 到 chart-5 的颜色以及它们的最小距离；种子色或背景色无法解析时返回null
+ */
+export const generateChartPalette = ({
+  mode,
+  seed,
+  background,
+  minDistance,
+}: ChartPaletteOptions): ChartPalette | null => {
+  const seedColor = parseOklch(seed);
+  const backgroundColor = parseOklch(background);
+  if (!seedColor || !backgroundColor) return null;
+
+  const range = getLightnessRange(backgroundColor.l, minDistance);
+  const [low, high] = range[0] < range[1] ? range : [range[1], range[0]];
+  const generate = {
+    sequential: generateSequential,
+    diverging: generateDiverging,
+    categorical: generateCategorical,
+  }[mode];
+  const palette = generate(seedColor, range);
+  const pairs = getNeighborPairs(mode);
+
+  // 距离不够的颜色对向相反的方向调整亮度，色度随之收缩以保持在sRGB内
+  for (let attempt = 0; attempt < MAX_ADJUSTMENTS; attempt++) {
+    const conflicts = pairs.filter(
+      ([i, j]) =>
+        getPerceptualDistance(formatOklch(palette[i]), formatOklch(palette[j])) <
+        minDistance
+    );
+    if (conflicts.length === 0) break;
+
+    let moved = false;
+    conflicts.forEach(([i, j]) => {
+      const [darker, lighter] =
+        palette[i].l <= palette[j].l ? [i, j] : [j, i];
+      [
+        [darker, -LIGHTNESS_STEP],
+        [lighter, LIGHTNESS_STEP],
+      ].forEach(([index, step]) => {
+        const color = palette[index];
+        const l = clamp(color.l + step, low, high);
+        if (l === color.l) return;
+        moved = true;
+        palette[index] = {
+          ...color,
+          l,
+          c: Math.min(color.c, getMaxChroma(l, color.h, "rgb")),
+        };
+      });
+    });
+    if (!moved) break;
+  }
+
+  const colors = palette.map(formatOklch);
+  const distances = measurePalette(colors, background, pairs);
+  return {
+    colors,
+    ...distances,
+    satisfied:
+      distances.neighborDistance >= minDistance &&
+      distances.backgroundDistance >= minDistance,
+  };
+};
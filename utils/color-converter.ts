@@ -9,29 +9,206 @@
  * - RGB: 红绿蓝三原色格式，如 rgb(255, 0, 0)
  * - HSL: 色相、饱和度、亮度格式，如 hsl(0, 100%, 50%)
  * - OKLCH: 一种感知均匀的颜色格式，更符合人眼对颜色的感知
+ * - LAB / LCH / HWB: CSS Color 4 中的其他颜色函数
+ * - Display P3: 广色域显示器的颜色空间，如 color(display-p3 1 0 0)
+ *
+ * OKLCH、LAB、LCH和Display P3可以表示超出sRGB的颜色。HEX、RGB、HSL、HWB只能表示sRGB，
+ * 超出的颜色先在OKLCH中保持亮度和色相、降低色度映射到sRGB内，再转换。
  * 
  * 不同的场景可能需要不同的颜色格式，这个工具让我们可以灵活地在这些格式间切换。
+ *
+ * 每种格式的小数位数可以单独设置。没有设置时使用默认位数，个别颜色按默认位数
+ * 无法还原时会多保留几位，保证导出后再导入得到同一个颜色(按8位sRGB比较)。
+ * 无损模式下，原始值已经是目标格式时直接保留原始写法。
  */
 
 import * as culori from "culori";  // 导入culori库，这是一个强大的颜色处理库
-import { ColorFormat } from "../types";
+import { ColorFormat, ColorFormatOptions } from "../types";
+
+/**
+ * 各格式默认保留的小数位数
+ *
+ * - HEX和RGB的通道是0-255的整数，不需要小数
+ * - HSL、HWB、LAB、LCH的百分比和色相保留两位小数，可以还原绝大多数8位sRGB颜色
+ * - OKLCH的亮度和色度范围很小(0-1、0-0.4)，Display P3的通道是0-1，两位小数会产生明显的色差，所以保留四位
+ *
+ * 这只是最少的位数，按它无法还原的颜色会自动增加位数(见 getRoundTripPrecision)。
+ */
+export const DEFAULT_COLOR_PRECISION: Record<ColorFormat, number> = {
+  hex: 0,
+  rgb: 0,
+  hsl: 2,
+  hwb: 2,
+  lab: 2,
+  lch: 2,
+  oklch: 4,
+  p3: 4,
+};
+
+// 只能表示sRGB的格式
+const SRGB_ONLY_FORMATS: ColorFormat[] = ["hex", "rgb", "hsl", "hwb"];
+
+// 把颜色映射到sRGB内(与 utils/oklch 的 mapToGamut 使用相同的算法)
+const mapToSrgb = culori.toGamut("rgb", "oklch");
+
+// 透明度保留的小数位数，足以还原8位的透明度
+const ALPHA_PRECISION = 3;
+
+// 没有指定位数时，为了还原颜色最多在默认位数上增加的位数
+const MAX_EXTRA_PRECISION = 4;
+
+/**
+ * 原始写法对应的颜色格式，用来在无损模式下判断是否可以直接保留原始值
+ */
+const AUTHORED_FORMAT_PATTERNS: [ColorFormat, RegExp][] = [
+  ["hex", /^#[0-9a-f]{3,8}$/i],
+  ["rgb", /^rgba?\(/i],
+  ["hsl", /^hsla?\(/i],
+  ["hwb", /^hwb\(/i],
+  ["lab", /^lab\(/i],
+  ["lch", /^lch\(/i],
+  ["oklch", /^oklch\(/i],
+  ["p3", /^color\(\s*display-p3\s/i],
+];
 
 /**
  * 格式化数字
  * 
  * 这个函数用来美化显示数字：
- * 1. 如果是整数（如5.0），则显示为"5"
- * 2. 如果是小数（如5.67），则保留两位小数，显示为"5.67"
- * 3. 如果数字不存在，则返回"0"
+ * 1. 按指定的位数四舍五入，并去掉末尾多余的0，如5.50显示为"5.5"，5.00显示为"5"
+ * 2. 0和-0都显示为"0"
+ * 3. 如果数字不存在（如无彩色的色相），则返回"0"
  * 
  * 就像是帮数字"化妆"，让它们看起来更整洁、更统一
  * 
  * @param num 需要格式化的数字
+ * @param precision 保留的小数位数
  * @returns 格式化后的数字字符串
  */
-const formatNumber = (num?: number) => {
-  if (!num) return "0";
-  return num % 1 === 0 ? num : num.toFixed(2);
+const formatNumber = (num: number | undefined, precision: number) => {
+  if (num === undefined || !Number.isFinite(num)) return "0";
+  // Number() 会去掉末尾的0，String(-0) 的结果是"0"
+  return String(Number(num.toFixed(precision)));
+};
+
+/**
+ * 获取颜色原始写法对应的格式
+ *
+ * @param colorValue 原始颜色值
+ * @returns 颜色格式，命名颜色等无法对应的写法返回null
+ */
+const getAuthoredFormat = (colorValue: string): ColorFormat | null =>
+  AUTHORED_FORMAT_PATTERNS.find(([, pattern]) => pattern.test(colorValue))?.[0] ??
+  null;
+
+/**
+ * 在无损模式下保留原始写法
+ *
+ * Tailwind v3 的HSL颜色不带"hsl()"前缀，所以只有不带逗号和透明度的写法可以保留
+ *
+ * @returns 可以保留时返回原始值，否则返回null
+ */
+const keepAuthoredValue = (
+  colorValue: string,
+  format: ColorFormat,
+  tailwindVersion: "3" | "4"
+): string | null => {
+  const value = colorValue.trim();
+  if (getAuthoredFormat(value) !== format) return null;
+  if (format !== "hsl" || tailwindVersion === "4") return value;
+
+  const match = value.match(/^hsl\(\s*([^,/()]+?)\s*\)$/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * 按指定的位数把颜色转换为目标格式
+ */
+const formatColor = (
+  color: culori.Color,
+  format: ColorFormat,
+  tailwindVersion: "3" | "4",
+  precision: number
+): string => {
+  const formatValue = (num?: number) => formatNumber(num, precision);
+  // 半透明的颜色在函数格式中加上"/ 透明度"，不透明时省略
+  const alpha =
+    color.alpha !== undefined && color.alpha < 1
+      ? ` / ${formatNumber(color.alpha, ALPHA_PRECISION)}`
+      : "";
+
+  // 根据目标格式进行转换
+  switch (format) {
+    case "hsl": {
+      // 将颜色转换为HSL格式
+      const hsl = culori.converter("hsl")(color);
+      const values = `${formatValue(hsl.h)} ${formatValue(hsl.s * 100)}% ${formatValue(hsl.l * 100)}%${alpha}`;
+      // Tailwind v4要求HSL格式带有"hsl()"前缀，Tailwind v3只需要HSL的值，不要前缀
+      return tailwindVersion === "4" ? `hsl(${values})` : values;
+    }
+    case "rgb": {
+      // 转换为RGB格式，例如"rgb(64, 128, 192)"
+      if (precision === 0 && !alpha) return culori.formatRgb(color);
+      // 需要小数或透明度时自己拼接，culori会把通道四舍五入为整数、透明度保留两位小数
+      const rgb = culori.converter("rgb")(color);
+      const channels = [rgb.r, rgb.g, rgb.b].map((value) =>
+        formatValue(Math.min(Math.max(value, 0), 1) * 255)
+      );
+      return rgb.alpha !== undefined && rgb.alpha < 1
+        ? `rgba(${channels.join(", ")}, ${formatNumber(rgb.alpha, ALPHA_PRECISION)})`
+        : `rgb(${channels.join(", ")})`;
+    }
+    case "oklch": {
+      // 转换为OKLCH格式
+      const oklch = culori.converter("oklch")(color);
+      return `oklch(${formatValue(oklch.l)} ${formatValue(oklch.c)} ${formatValue(oklch.h)}${alpha})`;
+    }
+    case "hex":
+      // 转换为十六进制格式，例如"#4080c0"，半透明时使用八位的"#4080c080"
+      return alpha ? culori.formatHex8(color) : culori.formatHex(color);
+    case "lab": {
+      // 转换为CIE LAB格式，例如"lab(54.29% -0.55 -36.93)"
+      const lab = culori.converter("lab")(color);
+      return `lab(${formatValue(lab.l)}% ${formatValue(lab.a)} ${formatValue(lab.b)}${alpha})`;
+    }
+    case "lch": {
+      // 转换为CIE LCH格式，例如"lch(54.29% 36.93 269.15)"
+      const lch = culori.converter("lch")(color);
+      return `lch(${formatValue(lch.l)}% ${formatValue(lch.c)} ${formatValue(lch.h)}${alpha})`;
+    }
+    case "hwb": {
+      // 转换为HWB格式，例如"hwb(210 25% 25%)"
+      const hwb = culori.converter("hwb")(color);
+      return `hwb(${formatValue(hwb.h)} ${formatValue(hwb.w * 100)}% ${formatValue(hwb.b * 100)}%${alpha})`;
+    }
+    case "p3": {
+      // 转换为Display P3格式，例如"color(display-p3 0.2995 0.4924 0.7367)"
+      const p3 = culori.converter("p3")(color);
+      return `color(display-p3 ${formatValue(p3.r)} ${formatValue(p3.g)} ${formatValue(p3.b)}${alpha})`;
+    }
+  }
+};
+
+/**
+ * 获取能还原颜色的小数位数
+ *
+ * 从格式的默认位数开始，重新解析后不是同一个8位sRGB颜色(包括透明度)时逐位增加。
+ * 超出sRGB的颜色无法按8位sRGB比较，使用默认位数。
+ */
+const getRoundTripPrecision = (color: culori.Color, format: ColorFormat) => {
+  const defaultPrecision = DEFAULT_COLOR_PRECISION[format];
+  if (!culori.displayable(color)) return defaultPrecision;
+
+  const expected = culori.formatHex8(color);
+  const maxPrecision = defaultPrecision + MAX_EXTRA_PRECISION;
+  let precision = defaultPrecision;
+  while (
+    precision < maxPrecision &&
+    culori.formatHex8(formatColor(color, format, "4", precision)) !== expected
+  ) {
+    precision++;
+  }
+  return precision;
 };
 
 /**
@@ -45,47 +222,40 @@ const formatNumber = (num?: number) => {
  * - 把 "rgb(255, 0, 0)" 转换成 "#FF0000"（HEX格式）
  * 
  * @param colorValue 原始颜色值（任何有效的CSS颜色表示）
- * @param format 目标颜色格式（hsl、rgb、oklch或hex）
+ * @param format 目标颜色格式（hsl、rgb、oklch、hex、lab、lch、hwb或p3）
  * @param tailwindVersion Tailwind CSS版本（3或4），会影响HSL格式的输出
+ * @param options 小数位数和无损模式，没有指定位数时使用能还原颜色的最少位数
  * @returns 转换后的颜色字符串
  */
 export const colorFormatter = (
   colorValue: string,
   format: ColorFormat = "hsl",
-  tailwindVersion: "3" | "4" = "3"
+  tailwindVersion: "3" | "4" = "3",
+  options: ColorFormatOptions = {}
 ): string => {
   try {
     // 使用culori解析颜色值
     const color = culori.parse(colorValue);
     if (!color) throw new Error("Invalid color input");
 
-    // 根据目标格式进行转换
-    switch (format) {
-      case "hsl": {
-        // 将颜色转换为HSL格式
-        const hsl = culori.converter("hsl")(color);
-        // Tailwind v4要求HSL格式带有"hsl()"前缀
-        if (tailwindVersion === "4") {
-          return `hsl(${formatNumber(hsl.h)} ${formatNumber(hsl.s * 100)}% ${formatNumber(hsl.l * 100)}%)`;
-        }
-        // Tailwind v3只需要HSL的值，不要前缀
-        return `${formatNumber(hsl.h)} ${formatNumber(hsl.s * 100)}% ${formatNumber(hsl.l * 100)}%`;
-      }
-      case "rgb":
-        // 转换为RGB格式，例如"rgb(64, 128, 192)"
-        return culori.formatRgb(color);
-      case "oklch": {
-        // 转换为OKLCH格式
-        const oklch = culori.converter("oklch")(color);
-        return `oklch(${formatNumber(oklch.l)} ${formatNumber(oklch.c)} ${formatNumber(oklch.h)})`;
-      }
-      case "hex":
-        // 转换为十六进制格式，例如"#4080c0"
-        return culori.formatHex(color);
-      default:
-        // 如果指定了未知格式，则返回原始值
-        return colorValue;
+    // 无损模式：原始值已经是目标格式时原样返回
+    if (options.lossless) {
+      const authored = keepAuthoredValue(colorValue, format, tailwindVersion);
+      if (authored) return authored;
     }
+
+    // 超出sRGB时HSL的饱和度会大于100%、HWB的白度会小于0，先映射到sRGB内
+    const inGamut =
+      SRGB_ONLY_FORMATS.includes(format) && !culori.displayable(color)
+        ? mapToSrgb(color)
+        : color;
+
+    return formatColor(
+      inGamut,
+      format,
+      tailwindVersion,
+      options.precision ?? getRoundTripPrecision(inGamut, format)
+    );
   } catch (error) {
     // 如果转换过程出错，记录错误并返回原始值
     console.error(`Failed to convert color: ${colorValue}`, error);
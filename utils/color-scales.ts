@@ -0,0 +1,168 @@
+/**
+ * 色阶生成工具
+ *
+ * Tailwind 的调色板为每种颜色提供 50-950 共11级的色阶(如 blue-50 … blue-950)，
+ * 而主题只有一个 --primary。这个文件为选定的颜色属性生成同样的色阶：
+ * 1. 在OKLCH中计算，亮度在最浅(50)和最深(950)之间均匀分布，相邻两级看起来差距一致
+ * 2. 原来的颜色保留在亮度最接近的一级上，两侧分别均匀地变浅和变深
+ * 3. 色相保持不变，色度按原来的颜色在sRGB中的饱和程度等比例缩放，
+ *    这样每一级都在sRGB色域内，而且不会出现比原来的颜色更"灰"或更"艳"的级别
+ *
+ * 色阶按模式分别生成，暗黑模式的色阶来自暗黑模式的颜色。
+ */
+
+import { ColorScaleToken, ThemeModeName, ThemeStyles } from "@/types/theme";
+import { formatOklch, getMaxChroma, parseOklch } from "./oklch";
+import { getModeStyles } from "./theme-modes";
+
+/**
+ * 色阶的级别
+ */
+export type ColorScaleStep =
+  | 50
+  | 100
+  | 200
+  | 300
+  | 400
+  | 500
+  | 600
+  | 700
+  | 800
+  | 900
+  | 950;
+
+/**
+ * 色阶中的一级
+ */
+export type ColorScaleEntry = {
+  step: ColorScaleStep;  // 级别
+  color: string;         // 颜色值
+};
+
+/**
+ * 可以生成色阶的颜色属性，按在控制面板中的显示顺序排列
+ */
+export const COLOR_SCALE_TOKENS: ColorScaleToken[] = [
+  "primary",
+  "secondary",
+  "accent",
+];
+
+/**
+ * 色阶的所有级别
+ */
+export const COLOR_SCALE_STEPS: ColorScaleStep[] = [
+  50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950,
+];
+
+// 最浅(50)和最深(950)一级的亮度，与Tailwind默认调色板的两端接近
+const LIGHTEST = 0.97;
+const DARKEST = 0.27;
+// 计算相对色度时sRGB边界色度的下限：接近白色或黑色时边界色度很小，
+// 直接相除会把略带颜色的白色(如 oklch(0.99 0.005 250))当作高饱和度的颜色
+const MIN_REFERENCE_CHROMA = 0.05;
+
+/**
+ * 色阶变量的名称，例如 primary-50
+ */
+export const getColorScaleVariableName = (
+  token: ColorScaleToken,
+  step: ColorScaleStep
+) => `${token}-${step}`;
+
+/**
+ * 所有可能的色阶变量名称，这些名称不能用作自定义变量
+ */
+export const COLOR_SCALE_VARIABLE_NAMES = COLOR_SCALE_TOKENS.flatMap((token) =>
+  COLOR_SCALE_STEPS.map((step) => getColorScaleVariableName(token, step))
+);
+
+/**
+ * 在 from 和 to 之间均匀插值
+ */
+const interpolate = (from: number, to: number, ratio: number) =>
+  from + (to - from) * ratio;
+
+/**
+ * 生成一个颜色的色阶
+ *
+ * @param color 任何culori能识别的颜色
+ * @returns 从50到950的11级颜色，原来的颜色保持原始写法；无法解析时返回null
+ */
+export const generateColorScale = (color: string): ColorScaleEntry[] | null => {
+  const base = parseOklch(color);
+  if (!base) return null;
+
+  const lastIndex = COLOR_SCALE_STEPS.length - 1;
+  // 原来的颜色放在默认亮度最接近的一级
+  const position = (LIGHTEST - base.l) / (LIGHTEST - DARKEST);
+  const anchor = Math.round(Math.min(Math.max(position, 0), 1) * lastIndex);
+  // 原来的颜色在sRGB中的相对色度，超出sRGB的颜色按边界处理
+  const maxChroma = getMaxChroma(base.l, base.h, "rgb");
+  const relativeChroma = Math.min(
+    base.c / Math.max(maxChroma, MIN_REFERENCE_CHROMA),
+    1
+  );
+
+  return COLOR_SCALE_STEPS.map((step, index) => {
+    if (index === anchor) return { step, color: color.trim() };
+
+    const l =
+      index < anchor
+        ? interpolate(LIGHTEST, base.l, index / anchor)
+        : interpolate(base.l, DARKEST, (index - anchor) / (lastIndex - anchor));
+    return {
+      step,
+      color: formatOklch({
+        l,
+        c: relativeChroma * getMaxChroma(l, base.h, "rgb"),
+        h: base.h,
+      }),
+    };
+  });
+};
+
+/**
+ * 获取主题中需要生成色阶的颜色属性
+ *
+ * @param themeStyles 主题样式
+ * @returns 颜色属性列表，按 COLOR_SCALE_TOKENS 的顺序排列
+ */
+export const getColorScales = (themeStyles: ThemeStyles): ColorScaleToken[] =>
+  COLOR_SCALE_TOKENS.filter((token) => themeStyles.scales?.includes(token));
+
+/**
+ * 获取模式中所有色阶变量的值
+ *
+ * @param themeStyles 主题样式
+ * @param mode 主题模式
+ * @returns [变量名, 颜色] 的列表，例如 ["primary-50", "oklch(...)"]
+ */
+export const getColorScaleVariables = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName
+): [string, string][] => {
+  const styles = getModeStyles(themeStyles, mode);
+  return getColorScales(themeStyles).flatMap((token) =>
+    (generateColorScale(styles[token]) ?? []).map(
+      ({ step, color }): [string, string] => [
+        getColorScaleVariableName(token, step),
+        color,
+      ]
+    )
+  );
+};
+
+/**
+ * 找出导入的变量中包含完整色阶的颜色属性
+ * 导入时色阶变量不会作为自定义变量保存，而是在主题中开启对应的色阶
+ *
+ * @param names 导入的变量名(不含--前缀)
+ * @returns 11级都存在的颜色属性
+ */
+export const getImportedColorScales = (names: string[]): ColorScaleToken[] =>
+  COLOR_SCALE_TOKENS.filter((token) =>
+    COLOR_SCALE_STEPS.every((step) =>
+      names.includes(getColorScaleVariableName(token, step))
+    )
+  );
@@ -0,0 +1,214 @@
+/**
+ * 色觉缺陷模拟工具
+ *
+ * 大约8%的男性有某种程度的色觉缺陷，最常见的是红色盲/红色弱(protan)
+ * 和绿色盲/绿色弱(deutan)。这个文件用来模拟他们看到的颜色，
+ * 帮助检查图表颜色等需要互相区分的颜色在色觉缺陷下是否仍然可以分辨。
+ *
+ * 模拟使用 Machado、Oliveira 和 Fernandes(2009)提出的矩阵，
+ * 在线性RGB空间中计算：
+ * - protanopia(红色盲)、deuteranopia(绿色盲)、tritanopia(蓝色盲)
+ *   使用完全缺陷时的矩阵，较轻的程度在它和单位矩阵之间插值
+ * - achromatopsia(全色盲)把颜色转换为相同亮度的灰色
+ */
+
+import * as culori from "culori";
+import { ThemeStyleProps } from "@/types/theme";
+
+/**
+ * 色觉缺陷类型，"none"表示正常色觉
+ */
+export type ColorVisionDeficiency =
+  | "none"
+  | "protanopia"
+  | "deuteranopia"
+  | "tritanopia"
+  | "achromatopsia";
+
+/**
+ * 各种色觉缺陷在界面中显示的名称
+ */
+export const COLOR_VISION_DEFICIENCY_LABELS: Record<
+  ColorVisionDeficiency,
+  string
+> = {
+  none: "Normal vision",
+  protanopia: "Protanopia",
+  deuteranopia: "Deuteranopia",
+  tritanopia: "Tritanopia",
+  achromatopsia: "Achromatopsia",
+};
+
+/**
+ * 两种图表颜色之间最小的感知距离(OKLab中的欧几里得距离)
+ * 低于这个值时，两种颜色在图表中很难区分
+ */
+export const MIN_CHART_COLOR_DISTANCE = 0.05;
+
+type Matrix3 = [
+  number, number, number,
+  number, number, number,
+  number, number, number,
+];
+
+const IDENTITY: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// 完全缺陷(严重程度为1)时的模拟矩阵，作用于线性RGB
+const FULL_SEVERITY_MATRICES: Record<
+  Exclude<ColorVisionDeficiency, "none">,
+  Matrix3
+> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+  // 每个通道都替换为相对亮度
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+  ],
+};
+
+const toLinearRgb = culori.converter("lrgb");
+const toOklab = culori.converter("oklab");
+
+/**
+ * 获取模拟矩阵
+ *
+ * @param deficiency 色觉缺陷类型
+ * @param severity 严重程度(0-1)，0为正常色觉，1为完全缺陷
+ * @returns 3x3的矩阵(按行展开)
+ */
+export const getSimulationMatrix = (
+  deficiency: ColorVisionDeficiency,
+  severity: number
+): Matrix3 => {
+  if (deficiency === "none") return IDENTITY;
+
+  const amount = Math.min(Math.max(severity, 0), 1);
+  const full = FULL_SEVERITY_MATRICES[deficiency];
+  return IDENTITY.map(
+    (value, index) => value + (full[index] - value) * amount
+  ) as Matrix3;
+};
+
+/**
+ * 把模拟矩阵转换为SVG feColorMatrix的values属性
+ * feColorMatrix默认在线性RGB中计算，所以可以直接使用同一个矩阵
+ *
+ * @param matrix 3x3的模拟矩阵
+ * @returns 4x5矩阵的字符串
+ */
+export const toFeColorMatrixValues = (matrix: Matrix3): string =>
+  [
+    ...matrix.slice(0, 3), 0, 0,
+    ...matrix.slice(3, 6), 0, 0,
+    ...matrix.slice(6, 9), 0, 0,
+    0, 0, 0, 1, 0,
+  ].join(" ");
+
+/**
+ * 模拟色觉缺陷下看到的颜色
+ *
+ * @param color 任何CSS颜色
+ * @param deficiency 色觉缺陷类型
+ * @param severity 严重程度(0-1)
+ * @returns 模拟后的十六进制颜色；无法解析时返回null
+ */
+export const simulateColorVision = (
+  color: string,
+  deficiency: ColorVisionDeficiency,
+  severity: number
+): string | null => {
+  const parsed = culori.parse(color);
+  if (!parsed) return null;
+
+  const { r, g, b } = toLinearRgb(parsed);
+  const m = getSimulationMatrix(deficiency, severity);
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+  return culori.formatHex({
+    mode: "lrgb",
+    r: clamp(m[0] * r + m[1] * g + m[2] * b),
+    g: clamp(m[3] * r + m[4] * g + m[5] * b),
+    b: clamp(m[6] * r + m[7] * g + m[8] * b),
+  });
+};
+
+/**
+ * 计算两个颜色之间的感知距离(OKLab中的欧几里得距离)
+ *
+ * @param color1 第一个颜色
+ * @param color2 第二个颜色
+ * @returns 距离，0表示完全相同，黑白之间约为1
+ */
+export const getPerceptualDistance = (color1: string, color2: string) => {
+  const a = toOklab(culori.parse(color1));
+  const b = toOklab(culori.parse(color2));
+  if (!a || !b) return 0;
+  return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+};
+
+/**
+ * 难以区分的一对图表颜色
+ */
+export type ChartColorConflict = {
+  first: keyof ThemeStyleProps;
+  second: keyof ThemeStyleProps;
+  distance: number;
+};
+
+/**
+ * 图表颜色属性
+ */
+export const CHART_COLORS: (keyof ThemeStyleProps)[] = [
+  "chart-1",
+  "chart-2",
+  "chart-3",
+  "chart-4",
+  "chart-5",
+];
+
+/**
+ * 找出在指定色觉缺陷下难以区分的图表颜色对
+ *
+ * @param styles 当前模式的主题样式
+ * @param deficiency 色觉缺陷类型
+ * @param severity 严重程度(0-1)
+ * @returns 距离低于阈值的颜色对，按距离从小到大排序
+ */
+export const findChartColorConflicts = (
+  styles: ThemeStyleProps,
+  deficiency: ColorVisionDeficiency,
+  severity: number
+): ChartColorConflict[] => {
+  const simulated = CHART_COLORS.map((key) => ({
+    key,
+    color: simulateColorVision(styles[key], deficiency, severity),
+  }));
+
+  const conflicts: ChartColorConflict[] = [];
+  simulated.forEach((first, i) => {
+    simulated.slice(i + 1).forEach((second) => {
+      if (!first.color || !second.color) return;
+      const distance = getPerceptualDistance(first.color, second.color);
+      if (distance < MIN_CHART_COLOR_DISTANCE) {
+        conflicts.push({ first: first.key, second: second.key, distance });
+      }
+    });
+  });
+
+  return conflicts.sort((a, b) => a.distance - b.distance);
+};
@@ -12,9 +12,146 @@
  * 尤其是对于视力不好的用户。WCAG（Web内容可访问性指南）规定了最小对比度标准：
  * - 普通文本至少需要4.5:1的对比度
  * - 大型文本至少需要3:1的对比度
+ *
+ * 此外还提供了APCA对比度(WCAG 3草案使用的算法)，它更符合人眼对
+ * 深色模式和细小文字的实际感知。
  */
 
 import * as culori from "culori";
+import { ContrastStandard } from "@/types";
+import { ThemeStyleProps } from "@/types/theme";
+import {
+  findNearestContrastColor,
+  formatOklch,
+  getWcagContrast,
+  parseOklch,
+} from "./oklch";
+
+/**
+ * 需要检查对比度的颜色对所属的分组
+ */
+export type ContrastPairCategory = "content" | "interactive" | "functional";
+
+/**
+ * 需要检查对比度的一对颜色(前景色和它所在的背景色)
+ */
+export type ContrastPair = {
+  id: string;
+  foregroundId: keyof ThemeStyleProps;
+  backgroundId: keyof ThemeStyleProps;
+  label: string;
+  category: ContrastPairCategory;
+};
+
+/**
+ * 主题中所有需要检查对比度的颜色对
+ * 对比度检查面板和命令行工具使用同一份列表
+ */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+  // Content - Base, background, cards, containers
+  {
+    id: "base",
+    foregroundId: "foreground",
+    backgroundId: "background",
+    label: "Base",
+    category: "content",
+  },
+  {
+    id: "card",
+    foregroundId: "card-foreground",
+    backgroundId: "card",
+    label: "Card",
+    category: "content",
+  },
+  {
+    id: "popover",
+    foregroundId: "popover-foreground",
+    backgroundId: "popover",
+    label: "Popover",
+    category: "content",
+  },
+  {
+    id: "muted",
+    foregroundId: "muted-foreground",
+    backgroundId: "muted",
+    label: "Muted",
+    category: "content",
+  },
+
+  // Interactive - Buttons, links, actions
+  {
+    id: "primary",
+    foregroundId: "primary-foreground",
+    backgroundId: "primary",
+    label: "Primary",
+    category: "interactive",
+  },
+  {
+    id: "secondary",
+    foregroundId: "secondary-foreground",
+    backgroundId: "secondary",
+    label: "Secondary",
+    category: "interactive",
+  },
+  {
+    id: "accent",
+    foregroundId: "accent-foreground",
+    backgroundId: "accent",
+    label: "Accent",
+    category: "interactive",
+  },
+
+  // Functional - Sidebar, destructive, status, special purposes
+  {
+    id: "destructive",
+    foregroundId: "destructive-foreground",
+    backgroundId: "destructive",
+    label: "Destructive",
+    category: "functional",
+  },
+  {
+    id: "success",
+    foregroundId: "success-foreground",
+    backgroundId: "success",
+    label: "Success",
+    category: "functional",
+  },
+  {
+    id: "warning",
+    foregroundId: "warning-foreground",
+    backgroundId: "warning",
+    label: "Warning",
+    category: "functional",
+  },
+  {
+    id: "info",
+    foregroundId: "info-foreground",
+    backgroundId: "info",
+    label: "Info",
+    category: "functional",
+  },
+  {
+    id: "sidebar",
+    foregroundId: "sidebar-foreground",
+    backgroundId: "sidebar",
+    label: "Sidebar Base",
+    category: "functional",
+  },
+  {
+    id: "sidebar-primary",
+    foregroundId: "sidebar-primary-foreground",
+    backgroundId: "sidebar-primary",
+    label: "Sidebar Primary",
+    category: "functional",
+  },
+  {
+    id: "sidebar-accent",
+    foregroundId: "sidebar-accent-foreground",
+    backgroundId: "sidebar-accent",
+    label: "Sidebar Accent",
+    category: "functional",
+  },
+];
 
 /**
  * 计算颜色的亮度（根据WCAG标准）
@@ -78,3 +215,225 @@ export function getContrastRatio(color1: string, color2: string): string {
     return "1.00"; // 返回表示低对比度的默认值
   }
 }
+
+/**
+ * APCA(Accessible Perceptual Contrast Algorithm)使用的常量
+ * 来自 APCA 0.0.98G-4g 版本，也是WCAG 3草案中使用的对比度算法
+ */
+const APCA = {
+  mainTRC: 2.4,           // sRGB通道的近似伽马值
+  sRco: 0.2126729,        // 红色通道的亮度系数
+  sGco: 0.7151522,        // 绿色通道的亮度系数
+  sBco: 0.072175,         // 蓝色通道的亮度系数
+  normBG: 0.56,           // 深色文字/浅色背景时背景的指数
+  normTXT: 0.57,          // 深色文字/浅色背景时文字的指数
+  revTXT: 0.62,           // 浅色文字/深色背景时文字的指数
+  revBG: 0.65,            // 浅色文字/深色背景时背景的指数
+  blkThrs: 0.022,         // 接近黑色时的软钳制阈值
+  blkClmp: 1.414,         // 软钳制的指数
+  scale: 1.14,            // 输出缩放系数
+  loOffset: 0.027,        // 低对比度偏移量
+  deltaYmin: 0.0005,      // 亮度差小于这个值时认为没有对比度
+  loClip: 0.1,            // 低于这个值的对比度直接视为0
+};
+
+/**
+ * 计算APCA使用的屏幕亮度(Y)
+ *
+ * 和WCAG的相对亮度不同，APCA直接使用简单的伽马曲线，
+ * 并且对接近黑色的颜色做软钳制，模拟显示器的实际表现。
+ *
+ * @param colorValue - 任何支持格式的颜色值
+ * @returns 屏幕亮度，无法解析时返回null
+ */
+function getApcaLuminance(colorValue: string): number | null {
+  const color = culori.rgb(culori.parse(colorValue));
+  if (!color) return null;
+
+  const channel = (value: number) =>
+    Math.pow(Math.min(Math.max(value, 0), 1), APCA.mainTRC);
+  const y =
+    APCA.sRco * channel(color.r) +
+    APCA.sGco * channel(color.g) +
+    APCA.sBco * channel(color.b);
+
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+/**
+ * 计算文字颜色在背景颜色上的APCA对比度(Lc值)
+ *
+ * APCA考虑了文字和背景谁更亮，所以两个参数的顺序很重要：
+ * - 深色文字在浅色背景上得到正值(最高约106)
+ * - 浅色文字在深色背景上得到负值(最低约-108)
+ *
+ * 常用的参考值：
+ * - Lc 75 - 推荐的正文文本对比度
+ * - Lc 60 - 正文文本可接受的最低对比度
+ * - Lc 45 - 大号文本和标题
+ *
+ * @param textColor - 文字颜色（任何格式）
+ * @param backgroundColor - 背景颜色（任何格式）
+ * @returns 带符号的Lc值；颜色无效时返回0
+ */
+export function getApcaContrast(
+  textColor: string,
+  backgroundColor: string
+): number {
+  try {
+    const textY = getApcaLuminance(textColor);
+    const backgroundY = getApcaLuminance(backgroundColor);
+    if (textY === null || backgroundY === null) {
+      console.warn(`Invalid color: ${textColor} / ${backgroundColor}`);
+      return 0;
+    }
+
+    if (Math.abs(backgroundY - textY) < APCA.deltaYmin) return 0;
+
+    if (backgroundY > textY) {
+      // 深色文字在浅色背景上
+      const sapc =
+        (Math.pow(backgroundY, APCA.normBG) - Math.pow(textY, APCA.normTXT)) *
+        APCA.scale;
+      return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+    }
+
+    // 浅色文字在深色背景上
+    const sapc =
+      (Math.pow(backgroundY, APCA.revBG) - Math.pow(textY, APCA.revTXT)) *
+      APCA.scale;
+    return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+  } catch (error) {
+    console.error(
+      `Error calculating APCA contrast between ${textColor} and ${backgroundColor}:`,
+      error
+    );
+    return 0;
+  }
+}
+
+/**
+ * 对比度标准的定义
+ *
+ * - label: 在界面中显示的名称
+ * - description: 标准要求的简要说明
+ * - metric: 使用的对比度算法(WCAG 2比值或APCA Lc值)
+ * - threshold: 需要达到的最小值(APCA比较的是Lc的绝对值)
+ */
+export const CONTRAST_STANDARDS: Record<
+  ContrastStandard,
+  {
+    label: string;
+    description: string;
+    metric: "wcag" | "apca";
+    threshold: number;
+  }
+> = {
+  "wcag-aa": {
+    label: "WCAG 2 AA",
+    description: "WCAG 2 AA requires a contrast ratio of at least 4.5:1",
+    metric: "wcag",
+    threshold: 4.5,
+  },
+  "wcag-aaa": {
+    label: "WCAG 2 AAA",
+    description: "WCAG 2 AAA requires a contrast ratio of at least 7:1",
+    metric: "wcag",
+    threshold: 7,
+  },
+  "wcag-large": {
+    label: "WCAG 2 Large Text",
+    description:
+      "WCAG 2 AA requires a contrast ratio of at least 3:1 for large text",
+    metric: "wcag",
+    threshold: 3,
+  },
+  apca: {
+    label: "APCA",
+    description: "APCA requires at least Lc 60 for body text",
+    metric: "apca",
+    threshold: 60,
+  },
+};
+
+/**
+ * 判断一组对比度结果是否满足选定的标准
+ *
+ * @param contrastRatio - WCAG 2对比度比值
+ * @param apcaContrast - APCA Lc值(带符号)
+ * @param standard - 选定的对比度标准
+ * @returns 是否满足标准
+ */
+export function meetsContrastStandard(
+  contrastRatio: number,
+  apcaContrast: number,
+  standard: ContrastStandard
+): boolean {
+  const { metric, threshold } = CONTRAST_STANDARDS[standard];
+  return metric === "apca"
+    ? Math.abs(apcaContrast) >= threshold
+    : contrastRatio >= threshold;
+}
+
+/**
+ * 计算一对颜色是否满足选定的标准
+ *
+ * @param foreground - 前景(文字)颜色
+ * @param background - 背景颜色
+ * @param standard - 选定的对比度标准
+ * @returns 是否满足标准
+ */
+export function checkContrastStandard(
+  foreground: string,
+  background: string,
+  standard: ContrastStandard
+): boolean {
+  return meetsContrastStandard(
+    parseFloat(getContrastRatio(foreground, background)),
+    getApcaContrast(foreground, background),
+    standard
+  );
+}
+
+/**
+ * 为不满足标准的颜色对寻找最接近的修复颜色
+ *
+ * 只调整OKLCH中的亮度，色相和色度保持不变，所以修复后的颜色看起来仍然是
+ * "同一种颜色"。可以选择调整前景色，也可以选择调整背景色。
+ *
+ * @param foreground - 前景(文字)颜色
+ * @param background - 背景颜色
+ * @param standard - 选定的对比度标准
+ * @param adjust - 要调整的颜色："foreground" 或 "background"
+ * @returns 调整后的 oklch() 颜色，超出sRGB的颜色保持原来的色度；无法满足标准时返回null
+ */
+export function suggestContrastFix(
+  foreground: string,
+  background: string,
+  standard: ContrastStandard,
+  adjust: "foreground" | "background"
+): string | null {
+  const { metric, threshold } = CONTRAST_STANDARDS[standard];
+  const color = parseOklch(adjust === "foreground" ? foreground : background);
+  if (!color) return null;
+
+  // APCA区分文字和背景，需要按照调整的是哪一个颜色传入参数
+  const check =
+    metric === "apca"
+      ? (candidate: string, against: string) =>
+          Math.abs(
+            adjust === "foreground"
+              ? getApcaContrast(candidate, against)
+              : getApcaContrast(against, candidate)
+          )
+      : getWcagContrast;
+
+  const fixed = findNearestContrastColor(
+    color,
+    adjust === "foreground" ? background : foreground,
+    threshold,
+    check,
+    formatOklch
+  );
+  return fixed ? formatOklch(fixed) : null;
+}
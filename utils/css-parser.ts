@@ -0,0 +1,213 @@
+/**
+ * 轻量级CSS语法解析器
+ *
+ * 把CSS文本解析成由规则、@规则和声明组成的语法树，供CSS导入使用。
+ * 与逐个选择器用正则匹配不同，它逐个字符扫描，所以能正确处理：
+ * 1. 注释(包括注释中的花括号和分号)
+ * 2. 字符串和括号中的特殊字符，例如 url(data:...;base64,...) 或 content: "}"
+ * 3. 任意层级的嵌套，例如 @media、@layer、@supports 和CSS嵌套规则
+ * 4. 最后一个声明省略分号、文件末尾缺少右花括号等不完整的输入
+ *
+ * 它只关心结构，不校验属性和值是否合法。
+ * 每个节点都会记录它在原文中的位置，这样就可以只替换文件中的一部分。
+ */
+
+/**
+ * 节点在原文中的位置
+ */
+type CssSourceRange = {
+  start: number;         // 第一个字符的位置
+  end: number;           // 最后一个字符(右花括号或分号)之后的位置
+};
+
+/**
+ * 声明，例如 --primary: #000
+ */
+export type CssDeclaration = CssSourceRange & {
+  type: "declaration";
+  property: string;      // 属性名
+  value: string;         // 值(已去掉 !important)
+};
+
+/**
+ * 普通规则，例如 :root { ... }
+ */
+export type CssRule = CssSourceRange & {
+  type: "rule";
+  selector: string;      // 选择器
+  children: CssNode[];   // 声明和嵌套规则
+};
+
+/**
+ * @规则，例如 @media (...) { ... } 或 @import "...";
+ */
+export type CssAtRule = CssSourceRange & {
+  type: "atrule";
+  name: string;          // 名称，不含 @
+  params: string;        // 名称后面的参数
+  children?: CssNode[];  // 没有代码块的@规则(如 @import)为undefined
+};
+
+export type CssNode = CssDeclaration | CssRule | CssAtRule;
+
+/**
+ * 压缩多余的空白字符
+ */
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * 把代码块前面的内容(选择器或@规则的开头)转换为节点
+ */
+const createBlockNode = (
+  prelude: string,
+  children: CssNode[],
+  range: CssSourceRange
+): CssNode => {
+  const text = collapseWhitespace(prelude);
+  if (text.startsWith("@")) {
+    const [name] = text.slice(1).split(/[\s(]/, 1);
+    return {
+      type: "atrule",
+      name: name.toLowerCase(),
+      params: text.slice(name.length + 1).trim(),
+      children,
+      ...range,
+    };
+  }
+  return { type: "rule", selector: text, children, ...range };
+};
+
+/**
+ * 把以分号结尾的语句转换为节点
+ *
+ * @returns 声明或没有代码块的@规则，无法识别的语句返回null
+ */
+const createStatementNode = (
+  statement: string,
+  range: CssSourceRange
+): CssNode | null => {
+  const text = statement.trim();
+  if (!text) return null;
+
+  if (text.startsWith("@")) {
+    const node = createBlockNode(text, [], range);
+    return node.type === "atrule" ? { ...node, children: undefined } : null;
+  }
+
+  // 属性名中不会出现冒号，所以按第一个冒号分割，值中的冒号(如URL)保持不变
+  const separatorIndex = text.indexOf(":");
+  if (separatorIndex <= 0) return null;
+
+  return {
+    type: "declaration",
+    property: text.slice(0, separatorIndex).trim(),
+    value: text
+      .slice(separatorIndex + 1)
+      .replace(/!\s*important\s*$/i, "")
+      .trim(),
+    ...range,
+  };
+};
+
+/**
+ * 解析CSS文本
+ *
+ * @param input CSS文本
+ * @returns 顶层节点列表
+ */
+export const parseCss = (input: string): CssNode[] => {
+  let index = 0;
+
+  /**
+   * 解析一个代码块中的节点，直到遇到配对的右花括号或文本结束
+   */
+  const parseNodes = (): CssNode[] => {
+    const nodes: CssNode[] = [];
+    let buffer = "";
+    // 当前语句第一个非空白字符的位置
+    let bufferStart = index;
+    // 括号内的分号和花括号不会结束语句，例如 url(data:image/png;base64,...)
+    let parenDepth = 0;
+
+    const append = (text: string, position: number) => {
+      if (!buffer.trim()) bufferStart = position;
+      buffer += text;
+    };
+
+    const flushStatement = () => {
+      const node = createStatementNode(buffer, {
+        start: bufferStart,
+        end: index,
+      });
+      if (node) nodes.push(node);
+      buffer = "";
+    };
+
+    while (index < input.length) {
+      const char = input[index];
+
+      // 注释：直接跳过，未闭合的注释一直到文本结尾
+      if (char === "/" && input[index + 1] === "*") {
+        const end = input.indexOf("*/", index + 2);
+        index = end === -1 ? input.length : end + 2;
+        continue;
+      }
+
+      // 字符串：原样保留，其中的特殊字符不参与解析
+      if (char === '"' || char === "'") {
+        let end = index + 1;
+        while (end < input.length && input[end] !== char) {
+          end += input[end] === "\\" ? 2 : 1;
+        }
+        append(input.slice(index, end + 1), index);
+        index = end + 1;
+        continue;
+      }
+
+      // 转义字符：连同下一个字符一起保留
+      if (char === "\\") {
+        append(input.slice(index, index + 2), index);
+        index += 2;
+        continue;
+      }
+
+      index++;
+
+      if (char === "(") parenDepth++;
+      if (char === ")") parenDepth = Math.max(0, parenDepth - 1);
+
+      if (parenDepth > 0) {
+        append(char, index - 1);
+        continue;
+      }
+
+      if (char === ";") {
+        flushStatement();
+      } else if (char === "{") {
+        const prelude = buffer;
+        const start = bufferStart;
+        buffer = "";
+        const children = parseNodes();
+        nodes.push(createBlockNode(prelude, children, { start, end: index }));
+      } else if (char === "}") {
+        // 代码块结束，最后一个声明可以省略分号(它的结束位置不包括右花括号)
+        index--;
+        flushStatement();
+        index++;
+        return nodes;
+      } else {
+        append(char, index - 1);
+      }
+    }
+
+    flushStatement();
+    return nodes;
+  };
+
+  const nodes: CssNode[] = [];
+  // 顶层多余的右花括号会让 parseNodes 提前返回，继续解析剩下的部分
+  while (index < input.length) {
+    nodes.push(...parseNodes());
+  }
+  return nodes;
+};
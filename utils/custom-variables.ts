@@ -0,0 +1,197 @@
+/**
+ * 自定义CSS变量工具
+ *
+ * 固定的主题属性(ThemeStyleProps)无法覆盖每个设计系统的全部需求，
+ * 例如 --brand-gradient-from、--highlight、--surface-2 这样的额外变量。
+ * 这个文件提供了处理这些用户自定义变量的辅助函数：
+ * 1. 校验变量名(不能与内置变量重名)
+ * 2. 根据变量值推断变量类型(颜色、尺寸或原样输出)
+ * 3. 合并两组自定义变量
+ * 4. 在生成代码时格式化变量值
+ */
+
+import * as culori from "culori";
+import { CustomVariable, CustomVariableType, ThemeStyles } from "@/types/theme";
+import { defaultLightThemeStyles } from "@/config/theme";
+import { COLOR_SCALE_VARIABLE_NAMES } from "./color-scales";
+
+/**
+ * 生成代码时由其他属性派生出来的变量名
+ * 这些变量会出现在导出的CSS中，但不能被用户单独声明
+ */
+const DERIVED_VARIABLE_NAMES = [
+  "shadow-2xs",
+  "shadow-xs",
+  "shadow-sm",
+  "shadow",
+  "shadow-md",
+  "shadow-lg",
+  "shadow-xl",
+  "shadow-2xl",
+  "tracking-tighter",
+  "tracking-tight",
+  "tracking-normal",
+  "tracking-wide",
+  "tracking-wider",
+  "tracking-widest",
+  ...COLOR_SCALE_VARIABLE_NAMES,
+];
+
+/**
+ * 所有保留的变量名(内置主题属性 + 派生变量)
+ */
+export const RESERVED_VARIABLE_NAMES = [
+  ...Object.keys(defaultLightThemeStyles),
+  ...DERIVED_VARIABLE_NAMES,
+];
+
+/**
+ * 新建变量时各类型的默认值
+ */
+export const CUSTOM_VARIABLE_DEFAULT_VALUES: Record<CustomVariableType, string> =
+  {
+    color: "#000000",
+    length: "0rem",
+    raw: "none",
+  };
+
+// 合法的变量名：字母开头，只包含字母、数字、连字符和下划线
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+
+// 尺寸值：可选负号的数字，后面跟可选的CSS长度单位
+const LENGTH_PATTERN =
+  /^-?(\d+\.?\d*|\.\d+)(px|rem|em|%|vh|vw|vmin|vmax|dvh|svh|lvh|ch|ex|lh|rlh|pt|pc|cm|mm|in)?$/;
+
+/**
+ * 获取变量名的校验错误
+ *
+ * @param name 变量名(可以带--前缀)
+ * @param variables 现有的自定义变量
+ * @param ignoreIndex 重命名时需要忽略的自身位置
+ * @returns 错误信息，变量名合法时返回null
+ */
+export const getCustomVariableNameError = (
+  name: string,
+  variables: CustomVariable[] = [],
+  ignoreIndex?: number
+): string | null => {
+  const cleanName = normalizeCustomVariableName(name);
+  if (!cleanName) return "Name is required";
+  if (!VARIABLE_NAME_PATTERN.test(cleanName)) {
+    return "Use letters, numbers, dashes and underscores only";
+  }
+  if (RESERVED_VARIABLE_NAMES.includes(cleanName)) {
+    return `--${cleanName} is a built-in variable`;
+  }
+  if (
+    variables.some(
+      (variable, index) => index !== ignoreIndex && variable.name === cleanName
+    )
+  ) {
+    return `--${cleanName} already exists`;
+  }
+  return null;
+};
+
+/**
+ * 规范化变量名：去掉首尾空白和--前缀
+ *
+ * @param name 用户输入的变量名
+ * @returns 不含前缀的变量名
+ */
+export const normalizeCustomVariableName = (name: string): string =>
+  name.trim().replace(/^--/, "");
+
+/**
+ * 把值解析为颜色
+ * 支持任何culori能识别的颜色，也支持shadcn常用的不带hsl()的写法，如"0 0% 100%"
+ *
+ * @param value CSS值
+ * @returns 解析出的颜色，无法解析时返回undefined
+ */
+const parseColor = (value: string) =>
+  culori.parse(value) ??
+  (/^\d/.test(value) ? culori.parse(`hsl(${value})`) : undefined);
+
+/**
+ * 根据变量值推断变量类型
+ *
+ * @param value CSS值
+ * @returns 尺寸、颜色或原样输出
+ */
+export const inferCustomVariableType = (value: string): CustomVariableType => {
+  const trimmed = value.trim();
+  if (LENGTH_PATTERN.test(trimmed)) return "length";
+  if (parseColor(trimmed)) return "color";
+  return "raw";
+};
+
+/**
+ * 规范化变量值
+ * 颜色值保存原始写法，与内置颜色属性保持一致，不带前缀的HSL值补上"hsl()"
+ *
+ * @param value CSS值
+ * @param type 变量类型
+ * @returns 规范化后的值
+ */
+export const normalizeCustomVariableValue = (
+  value: string,
+  type: CustomVariableType
+): string => {
+  const trimmed = value.trim();
+  if (type !== "color") return trimmed;
+
+  if (culori.parse(trimmed)) return trimmed;
+  return parseColor(trimmed) ? `hsl(${trimmed})` : trimmed;
+};
+
+/**
+ * 合并两组自定义变量
+ * 同名变量以updates中的为准，其余变量保持原有顺序
+ *
+ * @param base 原有的变量
+ * @param updates 新的变量
+ * @returns 合并后的变量列表
+ */
+export const mergeCustomVariables = (
+  base: CustomVariable[] = [],
+  updates: CustomVariable[] = []
+): CustomVariable[] => {
+  const updatesByName = new Map(
+    updates.map((variable) => [variable.name, variable])
+  );
+  const merged = base.map(
+    (variable) => updatesByName.get(variable.name) ?? variable
+  );
+  const baseNames = new Set(base.map((variable) => variable.name));
+  return [
+    ...merged,
+    ...updates.filter((variable) => !baseNames.has(variable.name)),
+  ];
+};
+
+/**
+ * 获取主题的自定义变量
+ *
+ * @param themeStyles 主题样式
+ * @returns 自定义变量列表，没有时返回空数组
+ */
+export const getCustomVariables = (themeStyles: ThemeStyles) =>
+  themeStyles.customVariables ?? [];
+
+/**
+ * 获取变量在指定模式下的输出值
+ *
+ * @param variable 自定义变量
+ * @param mode 主题模式
+ * @param formatColor 颜色格式化函数(只对颜色类型生效)
+ * @returns 可以直接写进CSS的值
+ */
+export const formatCustomVariableValue = (
+  variable: CustomVariable,
+  mode: "light" | "dark",
+  formatColor: (color: string) => string
+): string => {
+  const value = variable[mode];
+  return variable.type === "color" ? formatColor(value) : value;
+};
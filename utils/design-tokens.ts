@@ -0,0 +1,270 @@
+/**
+ * W3C设计令牌(Design Tokens)导出工具
+ *
+ * 设计令牌社区组(DTCG)定义了一种用JSON描述设计决策的通用格式，
+ * Style Dictionary、Tokens Studio 等工具都可以读取它。
+ * 这个文件把完整的主题样式转换为DTCG格式：
+ * - 亮色和暗色模式分别是顶层的 "light" 和 "dark" 令牌集
+ * - 颜色的类型为 color，圆角、间距和字母间距的类型为 dimension
+ * - 字体的类型为 fontFamily，值是字体名称的数组
+ * - 阴影来自 getShadowMap 生成的各个尺寸，类型为 shadow
+ * - 颜色和尺寸类型的自定义变量放在 "custom" 分组中；
+ *   原样输出的自定义变量在DTCG中没有对应的类型，不会被导出
+ */
+
+import * as culori from "culori";
+import { ThemeStyleProps, ThemeStyles } from "@/types/theme";
+import { COMMON_STYLES } from "@/config/theme";
+import { getShadowMap } from "./shadows";
+import { getCustomVariables } from "./custom-variables";
+
+type ThemeMode = "light" | "dark";
+
+/**
+ * DTCG中的阴影值
+ */
+export type DesignTokenShadow = {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+};
+
+/**
+ * 单个设计令牌
+ */
+export type DesignToken = {
+  $type: "color" | "dimension" | "fontFamily" | "shadow";
+  $value: string | string[] | DesignTokenShadow[];
+  $description?: string;
+};
+
+/**
+ * Tokens Studio的文件元数据，声明令牌集的顺序
+ */
+export type DesignTokenMetadata = {
+  tokenSetOrder: string[];
+};
+
+/**
+ * 设计令牌分组，可以嵌套
+ */
+export type DesignTokenGroup = {
+  [name: string]:
+    | DesignToken
+    | DesignTokenGroup
+    | DesignTokenMetadata
+    | string
+    | undefined;
+  $description?: string;
+  $metadata?: DesignTokenMetadata;
+};
+
+// 导出的尺寸类属性，以及它们在令牌中的名称
+const DIMENSION_TOKENS: Partial<Record<keyof ThemeStyleProps, string>> = {
+  radius: "radius",
+  spacing: "spacing",
+  "letter-spacing": "letter-spacing",
+};
+
+// 导出的字体属性，以及它们在令牌中的名称
+const FONT_TOKENS: Partial<Record<keyof ThemeStyleProps, string>> = {
+  "font-sans": "sans",
+  "font-serif": "serif",
+  "font-mono": "mono",
+};
+
+/**
+ * 在不位于括号内的分隔符处拆分字符串
+ * 例如阴影中的 hsl(0 0% 0% / 0.1) 不会被空格或逗号拆开
+ *
+ * @param value 原始字符串
+ * @param separator 分隔符(单个字符)
+ * @returns 拆分并去掉空白后的片段
+ */
+const splitTopLevel = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+/**
+ * 把颜色转换为DTCG使用的十六进制格式
+ * 半透明的颜色使用8位十六进制(#rrggbbaa)
+ *
+ * @param color 任何CSS颜色
+ * @param lossless 是否保留原始写法(例如超出sRGB的OKLCH颜色)，不转换为十六进制
+ * @returns 十六进制颜色；无法解析时返回原始值
+ */
+const toTokenColor = (color: string, lossless: boolean): string => {
+  const parsed = culori.parse(color);
+  if (!parsed || lossless) return color;
+  return parsed.alpha !== undefined && parsed.alpha < 1
+    ? culori.formatHex8(parsed)
+    : culori.formatHex(parsed);
+};
+
+/**
+ * 把CSS字体堆栈拆分为字体名称数组，并去掉引号
+ *
+ * @param fontStack CSS font-family 的值
+ * @returns 字体名称数组
+ */
+const toFontFamily = (fontStack: string): string[] =>
+  splitTopLevel(fontStack, ",").map((font) => font.replace(/^['"]|['"]$/g, ""));
+
+/**
+ * DTCG的尺寸必须带单位，没有单位的数字(如阴影中的 0)按像素处理
+ *
+ * @param value CSS长度
+ * @returns 带单位的长度
+ */
+const toDimension = (value: string): string =>
+  /^-?\d*\.?\d+$/.test(value) ? `${value}px` : value;
+
+/**
+ * 把CSS阴影值转换为DTCG的阴影值
+ *
+ * @param shadow CSS box-shadow 的值(可以有多层)
+ * @param lossless 是否保留颜色的原始写法
+ * @returns 每一层阴影的数组
+ */
+const toTokenShadow = (
+  shadow: string,
+  lossless: boolean
+): DesignTokenShadow[] =>
+  splitTopLevel(shadow, ",").map((layer) => {
+    const [offsetX, offsetY, blur, spread, ...color] = splitTopLevel(
+      layer,
+      " "
+    );
+    return {
+      color: toTokenColor(color.join(" "), lossless),
+      offsetX: toDimension(offsetX),
+      offsetY: toDimension(offsetY),
+      blur: toDimension(blur),
+      spread: toDimension(spread),
+    };
+  });
+
+/**
+ * 生成单个模式的令牌集
+ *
+ * @param themeStyles 完整的主题样式
+ * @param mode 主题模式
+ * @param lossless 是否保留颜色的原始写法
+ * @returns 该模式的令牌集
+ */
+const generateModeTokens = (
+  themeStyles: ThemeStyles,
+  mode: ThemeMode,
+  lossless: boolean
+): DesignTokenGroup => {
+  const styles = themeStyles[mode];
+
+  const color: DesignTokenGroup = {};
+  (Object.keys(styles) as (keyof ThemeStyleProps)[])
+    .filter((key) => !COMMON_STYLES.includes(key))
+    .forEach((key) => {
+      color[key] = { $type: "color", $value: toTokenColor(styles[key], lossless) };
+    });
+
+  const font: DesignTokenGroup = {};
+  (Object.keys(FONT_TOKENS) as (keyof ThemeStyleProps)[]).forEach((key) => {
+    font[FONT_TOKENS[key] as string] = {
+      $type: "fontFamily",
+      $value: toFontFamily(styles[key]),
+    };
+  });
+
+  const dimensions: DesignTokenGroup = {};
+  (Object.keys(DIMENSION_TOKENS) as (keyof ThemeStyleProps)[]).forEach(
+    (key) => {
+      dimensions[DIMENSION_TOKENS[key] as string] = {
+        $type: "dimension",
+        $value: styles[key],
+      };
+    }
+  );
+
+  // 阴影的名称去掉 "shadow-" 前缀，默认尺寸的阴影命名为 "default"
+  const shadow: DesignTokenGroup = {};
+  Object.entries(
+    getShadowMap({ styles: themeStyles, currentMode: mode })
+  ).forEach(([name, value]) => {
+    shadow[name === "shadow" ? "default" : name.replace(/^shadow-/, "")] = {
+      $type: "shadow",
+      $value: toTokenShadow(value, lossless),
+    };
+  });
+
+  const custom: DesignTokenGroup = {};
+  getCustomVariables(themeStyles).forEach((variable) => {
+    if (variable.type === "color") {
+      custom[variable.name] = {
+        $type: "color",
+        $value: toTokenColor(variable[mode], lossless),
+      };
+    } else if (variable.type === "length") {
+      custom[variable.name] = { $type: "dimension", $value: variable[mode] };
+    }
+  });
+
+  return {
+    color,
+    font,
+    ...dimensions,
+    shadow,
+    ...(Object.keys(custom).length > 0 && { custom }),
+  };
+};
+
+/**
+ * 生成完整主题的DTCG令牌
+ *
+ * @param themeStyles 完整的主题样式
+ * @param lossless 是否保留颜色的原始写法，默认转换为十六进制
+ * @returns 包含 light 和 dark 两个令牌集(以及声明它们的 $metadata)的对象
+ */
+export const generateDesignTokens = (
+  themeStyles: ThemeStyles,
+  lossless = false
+): DesignTokenGroup => ({
+  // 按 Tokens Studio 的约定声明令牌集，导入时 light 和 dark 才会被识别为两个令牌集
+  $metadata: { tokenSetOrder: ["light", "dark"] },
+  light: {
+    $description: "Light mode tokens",
+    ...generateModeTokens(themeStyles, "light", lossless),
+  },
+  dark: {
+    $description: "Dark mode tokens",
+    ...generateModeTokens(themeStyles, "dark", lossless),
+  },
+});
+
+/**
+ * 生成DTCG格式的JSON字符串，用于显示和下载 .tokens.json 文件
+ *
+ * @param themeStyles 完整的主题样式
+ * @param lossless 是否保留颜色的原始写法
+ * @returns 格式化后的JSON字符串
+ */
+export const generateDesignTokensJson = (
+  themeStyles: ThemeStyles,
+  lossless = false
+): string => JSON.stringify(generateDesignTokens(themeStyles, lossless), null, 2);
@@ -0,0 +1,216 @@
+/**
+ * 明暗模式派生工具
+ *
+ * 设计师通常会先完成亮色模式的配色，再手动重做一遍暗色模式。
+ * 这个文件可以从一个模式的配色自动推导出另一个模式：
+ * 1. 在OKLCH中反转亮度，同时保留色相和色度
+ * 2. 品牌色、状态色等强调色越鲜艳，反转幅度越小，保持原本的视觉意图
+ * 3. 卡片、弹出层等"浮起"的表面在暗色模式中比背景更亮一些
+ * 4. 所有前景/背景颜色对都会调整到至少 4.5:1 的对比度
+ *
+ * 非颜色属性(字体、圆角、阴影参数等)保持目标模式原有的值。
+ */
+
+import { ThemeStyleProps, ThemeStyles } from "@/types/theme";
+import { COMMON_STYLES } from "@/config/theme";
+import { Oklch, ensureContrast, formatOklchHex, parseOklch } from "./oklch";
+
+type ThemeMode = "light" | "dark";
+
+/**
+ * 派生后前景色需要达到的最小对比度
+ */
+export const DERIVED_CONTRAST_TARGET = 4.5;
+
+// 亮度映射的两个锚点：亮色模式的背景/文字分别对应暗色模式的背景/文字
+const LIGHT_SURFACE_LIGHTNESS = 1;
+const DARK_SURFACE_LIGHTNESS = 0.145;
+const LIGHT_TEXT_LIGHTNESS = 0.25;
+const DARK_TEXT_LIGHTNESS = 0.95;
+
+// 品牌色、状态色和图表颜色：只做部分反转，保持原本的视觉意图
+const ACCENT_COLORS: (keyof ThemeStyleProps)[] = [
+  "primary",
+  "destructive",
+  "success",
+  "warning",
+  "info",
+  "ring",
+  "chart-1",
+  "chart-2",
+  "chart-3",
+  "chart-4",
+  "chart-5",
+  "sidebar-primary",
+  "sidebar-ring",
+];
+
+// 色度达到这个值时，颜色被视为完全"有颜色"，亮度反转的幅度最小
+const SATURATED_CHROMA = 0.15;
+// 完全饱和的强调色保留的反转比例
+const SATURATED_INVERSION = 0.3;
+
+// 暗色模式中各个表面相对于背景提高的亮度
+const DARK_ELEVATION: Partial<Record<keyof ThemeStyleProps, number>> = {
+  sidebar: 0.03,
+  card: 0.06,
+  popover: 0.08,
+};
+
+/**
+ * 反转亮度
+ *
+ * 使用经过两个锚点的线性映射：亮色背景(1)对应暗色背景(0.145)，
+ * 亮色文字(0.25)对应暗色文字(0.95)。暗色到亮色使用相反的映射，
+ * 所以来回派生的结果是一致的。
+ *
+ * @param l 原始亮度
+ * @param target 目标模式
+ * @returns 反转后的亮度
+ */
+const invertLightness = (l: number, target: ThemeMode): number => {
+  const slope =
+    (DARK_TEXT_LIGHTNESS - DARK_SURFACE_LIGHTNESS) /
+    (LIGHT_TEXT_LIGHTNESS - LIGHT_SURFACE_LIGHTNESS);
+  const inverted =
+    target === "dark"
+      ? DARK_SURFACE_LIGHTNESS + (l - LIGHT_SURFACE_LIGHTNESS) * slope
+      : LIGHT_SURFACE_LIGHTNESS + (l - DARK_SURFACE_LIGHTNESS) / slope;
+  return Math.min(Math.max(inverted, 0), 1);
+};
+
+/**
+ * 派生单个颜色
+ *
+ * 表面和文字颜色完全反转亮度；强调色越鲜艳，反转的幅度越小，
+ * 这样品牌色在两种模式下看起来仍然是同一种颜色。
+ *
+ * @param color 原始颜色
+ * @param target 目标模式
+ * @param isAccent 是否是强调色
+ * @returns 派生后的颜色
+ */
+const deriveColor = (
+  color: Oklch,
+  target: ThemeMode,
+  isAccent: boolean
+): Oklch => {
+  const saturation = isAccent ? Math.min(color.c / SATURATED_CHROMA, 1) : 0;
+  const amount = 1 - saturation * (1 - SATURATED_INVERSION);
+  const inverted = invertLightness(color.l, target);
+  return { ...color, l: color.l + (inverted - color.l) * amount };
+};
+
+// 不参与派生的颜色：阴影在两种模式下通常都是深色的
+const NON_DERIVED_COLORS: (keyof ThemeStyleProps)[] = ["shadow-color"];
+
+/**
+ * 获取所有需要派生的颜色属性名
+ */
+const getColorKeys = (styles: ThemeStyleProps) =>
+  (Object.keys(styles) as (keyof ThemeStyleProps)[]).filter(
+    (key) => !COMMON_STYLES.includes(key) && !NON_DERIVED_COLORS.includes(key)
+  );
+
+/**
+ * 获取所有前景/背景颜色对
+ * 包括 foreground/background 以及每一个 xxx/xxx-foreground
+ *
+ * @param styles 主题样式属性
+ * @returns [背景属性名, 前景属性名] 的列表
+ */
+export const getForegroundPairs = (
+  styles: ThemeStyleProps
+): [keyof ThemeStyleProps, keyof ThemeStyleProps][] => [
+  ["background", "foreground"],
+  ...(Object.keys(styles) as (keyof ThemeStyleProps)[])
+    .filter((key) => `${key}-foreground` in styles)
+    .map(
+      (key) =>
+        [key, `${key}-foreground` as keyof ThemeStyleProps] as [
+          keyof ThemeStyleProps,
+          keyof ThemeStyleProps,
+        ]
+    ),
+];
+
+/**
+ * 从一个模式的配色派生另一个模式的配色
+ *
+ * @param styles 完整的主题样式
+ * @param from 作为来源的模式
+ * @returns 新的主题样式，目标模式的颜色被替换为派生结果
+ */
+export const deriveThemeMode = (
+  styles: ThemeStyles,
+  from: ThemeMode
+): ThemeStyles => {
+  const target: ThemeMode = from === "light" ? "dark" : "light";
+  const source = styles[from];
+  const derived: ThemeStyleProps = { ...styles[target] };
+  const derivedColors: Partial<Record<keyof ThemeStyleProps, Oklch>> = {};
+
+  // 1. 逐个反转颜色的亮度
+  getColorKeys(source).forEach((key) => {
+    const color = parseOklch(source[key]);
+    if (!color) return;
+    derivedColors[key] = deriveColor(
+      color,
+      target,
+      ACCENT_COLORS.includes(key)
+    );
+  });
+
+  // 2. 调整表面的层次：暗色模式中浮起的表面更亮，亮色模式中不比背景暗
+  const background = derivedColors.background;
+  if (background) {
+    (Object.keys(DARK_ELEVATION) as (keyof ThemeStyleProps)[]).forEach(
+      (key) => {
+        const color = derivedColors[key];
+        if (!color) return;
+        derivedColors[key] = {
+          ...color,
+          l:
+            target === "dark"
+              ? Math.max(color.l, background.l + (DARK_ELEVATION[key] ?? 0))
+              : Math.max(color.l, background.l),
+        };
+      }
+    );
+  }
+
+  (Object.keys(derivedColors) as (keyof ThemeStyleProps)[]).forEach((key) => {
+    derived[key] = formatOklchHex(derivedColors[key] as Oklch);
+  });
+
+  // 3. 保证每一对前景/背景颜色的对比度
+  getForegroundPairs(derived).forEach(([backgroundKey, foregroundKey]) => {
+    const foreground = derivedColors[foregroundKey];
+    if (!foreground || !derivedColors[backgroundKey]) return;
+    derived[foregroundKey] = formatOklchHex(
+      ensureContrast(
+        foreground,
+        derived[backgroundKey],
+        DERIVED_CONTRAST_TARGET
+      )
+    );
+  });
+
+  // 4. 颜色类型的自定义变量同样派生
+  const customVariables = styles.customVariables?.map((variable) => {
+    if (variable.type !== "color") return variable;
+    const color = parseOklch(variable[from]);
+    return color
+      ? {
+          ...variable,
+          [target]: formatOklchHex(deriveColor(color, target, true)),
+        }
+      : variable;
+  });
+
+  return {
+    ...styles,
+    [target]: derived,
+    ...(customVariables && { customVariables }),
+  };
+};
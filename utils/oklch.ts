@@ -0,0 +1,273 @@
+/**
+ * OKLCH颜色工具
+ *
+ * OKLCH是一种感知均匀的颜色空间，由三个分量组成：
+ * - L(亮度)：0为黑色，1为白色
+ * - C(色度)：颜色的鲜艳程度，0为灰色
+ * - H(色相)：0到360度的色环位置
+ *
+ * 在OKLCH中调整亮度时，人眼看到的色相和鲜艳程度基本保持不变，
+ * 所以生成主题、派生暗色模式和修复对比度时都在这个颜色空间中计算。
+ *
+ * OKLCH可以表示超出sRGB的颜色，这里也提供了判断颜色所在色域
+ * 和计算色域边界的函数，供颜色选择器显示。
+ */
+
+import * as culori from "culori";
+
+/**
+ * OKLCH颜色
+ */
+export type Oklch = {
+  l: number;  // 亮度(0-1)
+  c: number;  // 色度(0-0.4左右)
+  h: number;  // 色相(0-360)
+};
+
+/**
+ * 颜色所在的色域
+ * - srgb：所有显示器都能显示
+ * - p3：只有支持Display P3的广色域显示器能显示，其他显示器会裁剪
+ * - wide：超出了Display P3，大部分显示器都会裁剪
+ */
+export type ColorGamut = "srgb" | "p3" | "wide";
+
+const toOklchColor = culori.converter("oklch");
+const toRgbColor = culori.converter("rgb");
+const toP3Color = culori.converter("p3");
+
+// 判断色域时允许的误差(一个8位通道级别)，
+// 否则保存为 oklch() 时四舍五入的误差会让sRGB边界上的颜色(如纯红)被当作广色域
+const GAMUT_EPSILON = 1 / 255;
+
+// 搜索色域边界时色度的上限，任何可见颜色的色度都不会超过它
+const MAX_CHROMA = 0.5;
+// 二分搜索的次数，精度约为 0.5 / 2^16
+const GAMUT_SEARCH_STEPS = 16;
+
+// 亮度搜索的步长
+const LIGHTNESS_STEP = 0.005;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+// 避免浮点误差累积，保留四位小数
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * 把任意CSS颜色解析为OKLCH
+ *
+ * @param color 任何culori能识别的颜色
+ * @returns OKLCH颜色，无法解析时返回null
+ */
+export const parseOklch = (color: string): Oklch | null => {
+  const parsed = culori.parse(color);
+  if (!parsed) return null;
+
+  const oklch = toOklchColor(parsed);
+  return {
+    l: oklch.l,
+    c: oklch.c,
+    // 灰色没有色相，统一当作0处理
+    h: oklch.h ?? 0,
+  };
+};
+
+/**
+ * 把OKLCH颜色转换为十六进制
+ * 超出sRGB色域的颜色会在保持亮度和色相的前提下降低色度
+ *
+ * @param color OKLCH颜色
+ * @returns 十六进制颜色字符串
+ */
+export const formatOklchHex = ({ l, c, h }: Oklch): string => {
+  const color = culori.clampChroma(
+    { mode: "oklch", l: clamp(l, 0, 1), c: Math.max(c, 0), h },
+    "oklch"
+  );
+  return culori.formatHex(color);
+};
+
+/**
+ * 判断颜色的每个通道是否都在0-1之间(允许少量误差)
+ */
+const isInUnitRange = ({ r, g, b }: { r: number; g: number; b: number }) =>
+  [r, g, b].every(
+    (channel) => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON
+  );
+
+const isInSrgb = (color: culori.Color) => isInUnitRange(toRgbColor(color));
+const mapToSrgb = culori.toGamut("rgb", "oklch");
+const mapToP3 = culori.toGamut("p3", "oklch");
+const isInP3 = (color: culori.Color) => isInUnitRange(toP3Color(color));
+
+/**
+ * 把OKLCH颜色格式化为CSS字符串
+ * 与十六进制不同，超出sRGB色域的颜色不会被裁剪
+ *
+ * @param color OKLCH颜色
+ * @returns oklch() 字符串，例如 oklch(0.7 0.15 250)
+ */
+export const formatOklch = ({ l, c, h }: Oklch): string =>
+  `oklch(${round(clamp(l, 0, 1))} ${round(Math.max(c, 0))} ${Math.round(h * 100) / 100})`;
+
+/**
+ * 判断颜色所在的色域
+ *
+ * @param color 任何culori能识别的颜色
+ * @returns 色域，无法解析时返回null
+ */
+export const getColorGamut = (color: string): ColorGamut | null => {
+  const parsed = culori.parse(color);
+  if (!parsed) return null;
+  if (isInSrgb(parsed)) return "srgb";
+  return isInP3(parsed) ? "p3" : "wide";
+};
+
+/**
+ * 把颜色映射到色域内
+ *
+ * 使用CSS Color 4的色域映射算法：在OKLCH中保持亮度和色相、降低色度，
+ * 比直接裁剪RGB通道更接近原来的颜色。已经在色域内的颜色原样返回。
+ *
+ * @param color 任何culori能识别的颜色
+ * @param gamut 目标色域："rgb" 表示sRGB，"p3" 表示Display P3
+ * @returns 色域内的颜色，无法解析时返回原值
+ */
+export const mapToGamut = (color: string, gamut: "rgb" | "p3"): string => {
+  const parsed = culori.parse(color);
+  if (!parsed) return color;
+  if (gamut === "rgb") {
+    return isInSrgb(parsed) ? color : culori.formatCss(mapToSrgb(parsed));
+  }
+  return isInP3(parsed) ? color : culori.formatCss(mapToP3(parsed));
+};
+
+/**
+ * 计算给定亮度和色相下，色域内的最大色度
+ * 用于在色度滑块上标出sRGB和Display P3的边界
+ *
+ * @param l 亮度(0-1)
+ * @param h 色相(0-360)
+ * @param gamut 色域："rgb" 表示sRGB，"p3" 表示Display P3
+ * @returns 最大色度
+ */
+export const getMaxChroma = (
+  l: number,
+  h: number,
+  gamut: "rgb" | "p3"
+): number => {
+  const isInGamut = gamut === "rgb" ? isInSrgb : isInP3;
+  let low = 0;
+  let high = MAX_CHROMA;
+  for (let step = 0; step < GAMUT_SEARCH_STEPS; step++) {
+    const chroma = (low + high) / 2;
+    if (isInGamut({ mode: "oklch", l, c: chroma, h })) {
+      low = chroma;
+    } else {
+      high = chroma;
+    }
+  }
+  return round(low);
+};
+
+/**
+ * 计算两个颜色之间的WCAG对比度
+ *
+ * @param color1 第一个颜色
+ * @param color2 第二个颜色
+ * @returns 对比度比值(1-21)
+ */
+export const getWcagContrast = (color1: string, color2: string): number =>
+  culori.wcagContrast(color1, color2);
+
+/**
+ * 沿着亮度方向搜索满足对比度目标的颜色
+ *
+ * 从给定颜色出发，每次把亮度变暗或变亮一点，直到与参考颜色的对比度达到目标值。
+ * 色相和色度保持不变，所以得到的颜色看起来仍然是"同一种颜色"。
+ *
+ * @param color 要调整的颜色
+ * @param against 参考颜色(十六进制或任何CSS颜色)
+ * @param target 需要达到的最小对比度
+ * @param direction 调整方向：-1变暗，1变亮
+ * @param check 对比度计算函数，默认为WCAG对比度
+ * @param format 计算对比度前把候选颜色转换为字符串的方式，需要与最终保存的写法一致，
+ *               默认为十六进制(超出sRGB时降低色度)
+ * @returns 满足目标的颜色；如果到达黑色或白色仍不满足则返回null
+ */
+export const searchLightnessForContrast = (
+  color: Oklch,
+  against: string,
+  target: number,
+  direction: -1 | 1,
+  check: (color: string, against: string) => number = getWcagContrast,
+  format: (color: Oklch) => string = formatOklchHex
+): Oklch | null => {
+  for (let l = color.l; l >= 0 && l <= 1; l += direction * LIGHTNESS_STEP) {
+    const candidate = { ...color, l: round(l) };
+    if (check(format(candidate), against) >= target) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * 调整颜色亮度直到满足对比度目标
+ *
+ * 先尝试远离参考颜色的方向(参考颜色较亮时变暗，较暗时变亮)，
+ * 如果这个方向到头仍然不满足，再尝试另一个方向。
+ *
+ * @param color 要调整的颜色
+ * @param against 参考颜色
+ * @param target 需要达到的最小对比度
+ * @returns 调整后的颜色；两个方向都无法满足时返回对比度最高的端点
+ */
+export const ensureContrast = (
+  color: Oklch,
+  against: string,
+  target: number
+): Oklch => {
+  const againstColor = parseOklch(against);
+  const preferred: -1 | 1 = againstColor && againstColor.l > 0.6 ? -1 : 1;
+
+  return (
+    searchLightnessForContrast(color, against, target, preferred) ??
+    searchLightnessForContrast(color, against, target, preferred === -1 ? 1 : -1) ??
+    { ...color, l: preferred === -1 ? 0 : 1 }
+  );
+};
+
+/**
+ * 寻找满足对比度目标、且亮度变化最小的颜色
+ *
+ * 分别向变暗和变亮两个方向搜索，返回离原始亮度更近的结果。
+ * 用于对比度自动修复：用户看到的颜色变化尽可能小。
+ *
+ * @param color 要调整的颜色
+ * @param against 参考颜色
+ * @param target 需要达到的最小对比度
+ * @param check 对比度计算函数，默认为WCAG对比度
+ * @param format 计算对比度前把候选颜色转换为字符串的方式，默认为十六进制
+ * @returns 满足目标的颜色；两个方向都无法满足时返回null
+ */
+export const findNearestContrastColor = (
+  color: Oklch,
+  against: string,
+  target: number,
+  check: (color: string, against: string) => number = getWcagContrast,
+  format: (color: Oklch) => string = formatOklchHex
+): Oklch | null => {
+  const candidates = [
+    searchLightnessForContrast(color, against, target, -1, check, format),
+    searchLightnessForContrast(color, against, target, 1, check, format),
+  ].filter((candidate): candidate is Oklch => candidate !== null);
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((nearest, candidate) =>
+    Math.abs(candidate.l - color.l) < Math.abs(nearest.l - color.l)
+      ? candidate
+      : nearest
+  );
+};
@@ -1,20 +1,109 @@
 /**
  * CSS输入解析工具
- * 
+ *
  * 这个文件的作用是读取和理解用户输入的CSS代码，并把它转换成程序可以使用的数据。
- * 
+ *
  * 想象一下，如果CSS代码是一种特殊的语言，这个工具就像一个翻译官，
  * 它能把这种语言翻译成我们的程序能理解的"话"。
- * 
+ *
  * 主要功能：
- * 1. 从CSS文本中提取出变量定义（以"--"开头的部分）
- * 2. 区分明亮模式(:root)和暗黑模式(.dark)的变量
- * 3. 将提取的变量转换为标准格式，并保存到对象中
- * 4. 处理不同格式的颜色值（如HSL, RGB, HEX等）
+ * 1. 用 css-parser 把CSS解析成语法树，正确处理注释、嵌套的 @media/@layer、
+ *    多个 :root 代码块以及 url()、calc() 等包含特殊字符的值
+ * 2. 区分明亮模式(:root)和暗黑模式的变量，暗黑模式可以写在 .dark、
+ *    [data-theme="dark"]、配置的自定义选择器或 prefers-color-scheme 媒体查询中
+ * 3. 根据其他声明的变量解析 var() 引用(支持后备值，检测循环引用)
+ * 4. 将提取的变量转换为标准格式，并保存到对象中
+ * 5. 处理不同格式的颜色值（如HSL, RGB, HEX等）
+ * 6. 把不属于内置主题属性的变量保留为自定义变量，
+ *    没有阴影参数时从 --shadow-* 的值中还原，包含完整色阶(如 --primary-50 到 --primary-950)时开启色阶
+ * 7. 生成导入报告，列出导入、忽略和无效的变量，让用户在应用之前检查
+ * 8. 与当前主题比较，生成逐个属性的差异，并按用户的选择应用导入结果
  */
-import { ThemeStyleProps } from "@/types/theme";
-import { colorFormatter } from "./color-converter";
+import * as culori from "culori";
+import {
+  ColorScaleToken,
+  CustomVariable,
+  ThemeStyleProps,
+  ThemeStyles,
+} from "@/types/theme";
 import { COMMON_STYLES, defaultThemeState } from "@/config/theme";
+import {
+  RESERVED_VARIABLE_NAMES,
+  getCustomVariables,
+  inferCustomVariableType,
+  mergeCustomVariables,
+  normalizeCustomVariableValue,
+} from "./custom-variables";
+import { CssNode, parseCss } from "./css-parser";
+import { getShadowParams } from "./shadows";
+import { getImportedColorScales } from "./color-scales";
+
+type ThemeMode = "light" | "dark";
+
+/**
+ * 导入报告中的一个变量
+ */
+export type CssImportEntry = {
+  name: string;          // 变量名，不含 -- 前缀
+  mode: ThemeMode;       // 所属的模式
+  value: string;         // 导入的值(已解析引用)，被忽略或无效时为原始值
+  reason?: string;       // 被忽略或无效的原因
+};
+
+/**
+ * CSS导入报告
+ */
+export type CssImportReport = {
+  imported: CssImportEntry[];   // 会被导入的变量
+  ignored: CssImportEntry[];    // 不属于主题的变量(如 @theme 映射、其他选择器中的变量)
+  invalid: CssImportEntry[];    // 属于主题但值无法使用的变量
+};
+
+/**
+ * CSS导入结果
+ */
+export type CssImportResult = {
+  lightColors: Partial<ThemeStyleProps>;
+  darkColors: Partial<ThemeStyleProps>;
+  customVariables: CustomVariable[];
+  scales: ColorScaleToken[];   // 包含完整色阶的颜色属性，色阶会在导出时重新生成
+  report: CssImportReport;
+};
+
+/**
+ * 单个模式下的值变化
+ */
+export type CssImportValueChange = {
+  previous?: string;     // 当前主题中的值，之前没有这个变量时为undefined
+  next?: string;         // 导入后的值，替换主题时被移除的自定义变量为undefined
+};
+
+/**
+ * 一个属性或自定义变量的变化，用于在导入前显示差异
+ */
+export type CssImportChange = {
+  name: string;                  // 属性名或自定义变量名
+  kind: "theme" | "custom";      // 内置主题属性还是自定义变量
+  light?: CssImportValueChange;  // 明亮模式的变化，没有变化时为undefined
+  dark?: CssImportValueChange;   // 暗黑模式的变化，没有变化时为undefined
+  reset?: boolean;               // CSS中没有，替换主题时恢复默认值或被移除
+};
+
+/**
+ * 应用导入结果的方式
+ * - replace: 为true时替换整个主题(CSS中没有的属性恢复默认值)，否则合并到当前主题
+ * - rejected: 用户取消勾选的属性和自定义变量名称，它们保持当前主题中的值
+ */
+export type CssImportOptions = {
+  replace: boolean;
+  rejected: string[];
+};
+
+// 变量声明：名称和原始值
+type VariableDeclaration = { name: string; value: string };
+
+// var() 引用的解析结果：解析后的值，或者无法解析的原因
+type ResolvedValue = { value: string } | { error: "missing" | "circular" };
 
 // 从默认主题状态中获取所有有效的变量名
 export const variableNames = Object.keys(defaultThemeState.styles.light);
@@ -22,142 +111,638 @@ export const variableNames = Object.keys(defaultThemeState.styles.light);
 const nonColorVariables = COMMON_STYLES;
 // CSS变量的前缀
 const VARIABLE_PREFIX = "--";
+// 暗黑模式的媒体查询条件
+const DARK_MEDIA_QUERY_REGEX = /prefers-color-scheme\s*:\s*dark/i;
+// 导出的CSS中变量名与主题属性名不同的情况(字母间距导出为 --tracking-normal)
+const VARIABLE_ALIASES: Record<string, keyof ThemeStyleProps> = {
+  "tracking-normal": "letter-spacing",
+};
+// 只包含结构信息、没有主题变量的@规则
+const SKIPPED_AT_RULES = ["custom-variant", "keyframes", "font-face", "property"];
+// 无法解析 var() 引用时，报告中显示的原因
+const REFERENCE_ERRORS = {
+  missing: "References a variable that is not declared",
+  circular: "Has a circular var() reference",
+};
 
 /**
  * 解析CSS输入文本
- * 
+ *
  * 这个函数就像是阅读一本食谱，然后把里面的材料和步骤提取出来。
  * 它会分析用户输入的CSS代码，找出其中的颜色变量，并分别存储
  * 明亮模式和暗黑模式的颜色设置。
- * 
+ *
+ * 同一个模式中多次声明的变量以最后一次为准，与浏览器的层叠规则一致。
+ *
  * @param input 用户输入的CSS文本
- * @returns 包含明亮模式和暗黑模式颜色设置的对象
+ * @param darkSelectors 除 .dark 和 [data-theme="dark"] 之外的暗黑模式选择器(自定义切换方式)
+ * @returns 明亮模式和暗黑模式的设置、自定义变量以及导入报告
  */
-export const parseCssInput = (input: string) => {
+export const parseCssInput = (
+  input: string,
+  darkSelectors: string[] = []
+): CssImportResult => {
   // 准备两个空对象来存储提取的颜色变量
-  const lightColors: ThemeStyleProps = {} as ThemeStyleProps;
-  const darkColors: ThemeStyleProps = {} as ThemeStyleProps;
+  const lightColors: Partial<ThemeStyleProps> = {};
+  const darkColors: Partial<ThemeStyleProps> = {};
+  // 不属于内置属性的变量，按模式分别存储值
+  const lightCustom: Record<string, string> = {};
+  const darkCustom: Record<string, string> = {};
+  const report: CssImportReport = { imported: [], ignored: [], invalid: [] };
+
+  const declarations: Record<ThemeMode, VariableDeclaration[]> = {
+    light: [],
+    dark: [],
+  };
 
   try {
-    // 提取:root（明亮模式）的CSS块内容
-    const rootContent = extractCssBlockContent(input, ":root");
-    // 提取.dark（暗黑模式）的CSS块内容
-    const darkContent = extractCssBlockContent(input, ".dark");
-
-    // 如果找到了:root内容，解析其中的变量
-    if (rootContent) {
-      parseColorVariables(rootContent, lightColors, variableNames);
-    }
-    // 如果找到了.dark内容，解析其中的变量
-    if (darkContent) {
-      parseColorVariables(darkContent, darkColors, variableNames);
-    }
+    collectDeclarations(
+      parseCss(input),
+      false,
+      darkSelectors,
+      declarations,
+      report
+    );
   } catch (error) {
     console.error("Error parsing CSS input:", error);
   }
 
+  // 每个模式中声明的变量，后面的声明覆盖前面的
+  const scopes: Record<ThemeMode, Map<string, string>> = {
+    light: new Map(),
+    dark: new Map(),
+  };
+  (["light", "dark"] as const).forEach((mode) => {
+    declarations[mode].forEach(({ name, value }) => {
+      const previous = scopes[mode].get(name);
+      if (previous !== undefined && previous !== value) {
+        report.ignored.push({
+          name,
+          mode,
+          value: previous,
+          reason: "Overridden by a later declaration",
+        });
+      }
+      scopes[mode].set(name, value);
+    });
+  });
+
+  /**
+   * 查找变量的值
+   * 暗黑模式的选择器通常写在 :root 所在的元素或它的子元素上，
+   * 所以暗黑模式中没有声明的变量继承明亮模式的值
+   */
+  const lookup = (mode: ThemeMode, name: string) =>
+    scopes[mode].get(name) ??
+    (mode === "dark" ? scopes.light.get(name) : undefined);
+
+  (["light", "dark"] as const).forEach((mode) => {
+    const colors = mode === "light" ? lightColors : darkColors;
+    const custom = mode === "light" ? lightCustom : darkCustom;
+    // 派生的阴影字符串，用于在缺少阴影参数时还原参数
+    const shadows: Record<string, string> = {};
+
+    scopes[mode].forEach((rawValue, rawName) => {
+      const name = VARIABLE_ALIASES[rawName] ?? rawName;
+      const result = resolveVariableReferences(
+        rawValue,
+        (reference) => lookup(mode, reference),
+        [rawName]
+      );
+
+      // 派生变量(如 --shadow-sm)会在导出时重新生成
+      if (!variableNames.includes(name) && RESERVED_VARIABLE_NAMES.includes(name)) {
+        if (name.startsWith("shadow") && "value" in result) {
+          shadows[name] = result.value;
+        }
+        report.ignored.push({
+          name,
+          mode,
+          value: rawValue,
+          reason: "Generated from other theme properties",
+        });
+        return;
+      }
+
+      // 循环引用在任何模式下都无法得到值
+      if ("error" in result && result.error === "circular") {
+        report.invalid.push({
+          name,
+          mode,
+          value: rawValue,
+          reason: REFERENCE_ERRORS.circular,
+        });
+        return;
+      }
+
+      // 自定义变量和非颜色变量(如字体、圆角等)直接保存值；
+      // 它们可能引用页面上其他地方定义的变量(如 next/font)，无法解析时保持原样
+      const value = "value" in result ? result.value : rawValue;
+      if (!variableNames.includes(name)) {
+        custom[name] = value;
+        report.imported.push({ name, mode, value });
+        return;
+      }
+      if (nonColorVariables.includes(name)) {
+        colors[name as keyof ThemeStyleProps] = value;
+        report.imported.push({ name, mode, value });
+        return;
+      }
+
+      if ("error" in result) {
+        report.invalid.push({
+          name,
+          mode,
+          value: rawValue,
+          reason: REFERENCE_ERRORS[result.error],
+        });
+        return;
+      }
+
+      // 校验颜色值，保存原始写法(不带前缀的HSL值补上"hsl()")，避免转换产生误差
+      const color = processColorValue(result.value.trim());
+      if (!culori.parse(color)) {
+        report.invalid.push({
+          name,
+          mode,
+          value: rawValue,
+          reason: "Not a valid color",
+        });
+        return;
+      }
+
+      colors[name as keyof ThemeStyleProps] = color;
+      report.imported.push({ name, mode, value: color });
+    });
+
+    // 生成的CSS只包含 --shadow-* 字符串，不包含阴影参数
+    if (!Object.keys(colors).some((name) => name.startsWith("shadow-"))) {
+      const params = getShadowParams(shadows);
+      if (params) {
+        Object.assign(colors, params);
+        Object.entries(params).forEach(([name, value]) =>
+          report.imported.push({ name, mode, value })
+        );
+      }
+    }
+  });
+
+  // 生成器只在明亮模式中写出 tracking-normal 和 spacing 等共用的值，暗黑模式沿用
+  nonColorVariables.forEach((name) => {
+    const key = name as keyof ThemeStyleProps;
+    if (lightColors[key] !== undefined && darkColors[key] === undefined) {
+      darkColors[key] = lightColors[key];
+    }
+  });
+
   // 返回解析结果
-  return { lightColors, darkColors };
-};
-
-/**
- * 提取CSS块内容
- * 
- * 这个函数就像在一本大书中寻找特定的章节。
- * 它会在CSS文本中找到指定选择器（如:root或.dark）的内容块。
- * 
- * 例如，从下面的CSS中：
- * :root { --color: red; }
- * .dark { --color: blue; }
- * 
- * 如果selector是":root"，它会返回"--color: red;"
- * 
- * @param input 完整的CSS文本
- * @param selector 要查找的选择器（如:root或.dark）
- * @returns 选择器内的CSS内容，如果没找到则返回null
- */
-const extractCssBlockContent = (
-  input: string,
-  selector: string
-): string | null => {
-  // 创建一个正则表达式来匹配选择器及其花括号内的内容
-  const regex = new RegExp(`${escapeRegExp(selector)}\\s*{([^}]+)}`);
-  // 使用正则表达式匹配内容并返回第一个捕获组（括号内的内容）
-  return input.match(regex)?.[1]?.trim() || null;
-};
-
-/**
- * 解析颜色变量
- * 
- * 这个函数就像是把食谱中的每种食材分别放入不同的盒子里。
- * 它会解析CSS内容中的所有变量定义，并将它们存储到目标对象中。
- * 
- * 例如从"--primary: #ff0000;"中，它会提取出
- * primary作为键名，#ff0000作为值，存入目标对象。
- * 
- * @param cssContent CSS内容文本
- * @param target 存储解析结果的目标对象
- * @param validNames 有效变量名列表
- */
-const parseColorVariables = (
-  cssContent: string,
-  target: ThemeStyleProps,
-  validNames: string[]
+  return {
+    lightColors,
+    darkColors,
+    customVariables: buildCustomVariables(lightCustom, darkCustom),
+    scales: getImportedColorScales(Array.from(scopes.light.keys())),
+    report,
+  };
+};
+
+/**
+ * 遍历语法树，按模式收集变量声明
+ *
+ * - @media (prefers-color-scheme: dark) 中的 :root 属于暗黑模式
+ * - @layer、@supports 和其他 @media 不影响所属的模式
+ * - @theme 中的是Tailwind的映射(如 --color-primary: var(--primary))，不是主题的值
+ * - 其他选择器(包括命名模式)中的变量不会被导入
+ *
+ * @param nodes 语法树节点
+ * @param inDarkMedia 是否在暗黑模式的媒体查询中
+ * @param darkSelectors 额外的暗黑模式选择器
+ * @param target 存储声明的对象
+ * @param report 导入报告，记录被忽略的变量
+ */
+const collectDeclarations = (
+  nodes: CssNode[],
+  inDarkMedia: boolean,
+  darkSelectors: string[],
+  target: Record<ThemeMode, VariableDeclaration[]>,
+  report: CssImportReport
 ) => {
-  // 使用正则表达式匹配所有变量声明（格式为--变量名: 值）
-  const variableDeclarations = cssContent.match(/--[^:]+:\s*[^;]+/g) || [];
-
-  // 处理每一个变量声明
-  variableDeclarations.forEach((declaration) => {
-    // 分割变量名和值
-    const [name, value] = declaration.split(":").map((part) => part.trim());
-    // 去掉变量名前面的"--"前缀
-    const cleanName = name.replace(VARIABLE_PREFIX, "");
-
-    // 检查是否是有效的变量名
-    if (validNames.includes(cleanName)) {
-      // 如果是非颜色变量（如字体、圆角等），直接保存值
-      if (nonColorVariables.includes(cleanName)) {
-        target[cleanName as keyof ThemeStyleProps] = value;
+  nodes.forEach((node) => {
+    if (node.type === "atrule") {
+      if (!node.children || SKIPPED_AT_RULES.includes(node.name)) return;
+
+      if (node.name === "theme") {
+        getVariableDeclarations(node.children).forEach(({ name, value }) =>
+          report.ignored.push({
+            name,
+            mode: "light",
+            value,
+            reason: "Tailwind @theme mapping",
+          })
+        );
         return;
       }
 
-      // 处理颜色值（转换格式）并保存
-      const colorValue = processColorValue(value);
-      const formattedValue = colorFormatter(colorValue, "hex");
-      target[cleanName as keyof ThemeStyleProps] = formattedValue;
+      collectDeclarations(
+        node.children,
+        inDarkMedia ||
+          (node.name === "media" && DARK_MEDIA_QUERY_REGEX.test(node.params)),
+        darkSelectors,
+        target,
+        report
+      );
+      return;
     }
+
+    if (node.type !== "rule") return;
+
+    // 以 & 开头的是 @custom-variant 或嵌套规则中的内容，不是主题变量
+    if (!node.selector.startsWith("&")) {
+      const mode = getSelectorMode(node.selector, inDarkMedia, darkSelectors);
+      getVariableDeclarations(node.children).forEach((declaration) => {
+        if (mode) {
+          target[mode].push(declaration);
+        } else {
+          report.ignored.push({
+            ...declaration,
+            mode: inDarkMedia ? "dark" : "light",
+            reason: `Selector "${node.selector}" is not a light or dark theme selector`,
+          });
+        }
+      });
+    }
+
+    collectDeclarations(
+      node.children,
+      inDarkMedia,
+      darkSelectors,
+      target,
+      report
+    );
   });
 };
 
+/**
+ * 获取节点列表中的CSS变量声明
+ */
+const getVariableDeclarations = (nodes: CssNode[]): VariableDeclaration[] =>
+  nodes.flatMap((node) =>
+    node.type === "declaration" && node.property.startsWith(VARIABLE_PREFIX)
+      ? [{ name: node.property.slice(VARIABLE_PREFIX.length), value: node.value }]
+      : []
+  );
+
+/**
+ * 判断选择器属于哪个模式
+ *
+ * @param selector CSS选择器
+ * @param inDarkMedia 是否在暗黑模式的媒体查询中
+ * @param darkSelectors 额外的暗黑模式选择器
+ * @returns 所属的模式，不属于任何模式时返回null
+ */
+const getSelectorMode = (
+  selector: string,
+  inDarkMedia: boolean,
+  darkSelectors: string[]
+): ThemeMode | null => {
+  if (isDarkSelector(selector, darkSelectors)) return "dark";
+  if (isRootSelector(selector)) return inDarkMedia ? "dark" : "light";
+  return null;
+};
+
+/**
+ * 解析值中的 var() 引用
+ *
+ * 引用的变量本身也可能包含引用，会一直展开到具体的值。
+ * 变量不存在时使用后备值，例如 var(--brand, #000)。
+ *
+ * @param value 原始值
+ * @param lookup 查找变量值的函数
+ * @param visiting 正在展开的变量名，用于检测循环引用
+ * @returns 解析后的值，或者无法解析的原因
+ */
+const resolveVariableReferences = (
+  value: string,
+  lookup: (name: string) => string | undefined,
+  visiting: string[]
+): ResolvedValue => {
+  const start = value.indexOf("var(");
+  if (start === -1) return { value };
+
+  // 找到与 var( 配对的右括号，后备值中可能包含括号
+  let end = start + 4;
+  let parenDepth = 1;
+  while (end < value.length && parenDepth > 0) {
+    if (value[end] === "(") parenDepth++;
+    if (value[end] === ")") parenDepth--;
+    end++;
+  }
+  if (parenDepth > 0) return { error: "missing" };
+
+  const inner = value.slice(start + 4, end - 1);
+  const commaIndex = inner.indexOf(",");
+  const name = (commaIndex === -1 ? inner : inner.slice(0, commaIndex))
+    .trim()
+    .replace(VARIABLE_PREFIX, "");
+  const fallback =
+    commaIndex === -1 ? undefined : inner.slice(commaIndex + 1).trim();
+
+  if (visiting.includes(name)) return { error: "circular" };
+
+  const declared = lookup(name);
+  const replacement =
+    declared !== undefined
+      ? resolveVariableReferences(declared, lookup, [...visiting, name])
+      : fallback !== undefined
+        ? resolveVariableReferences(fallback, lookup, visiting)
+        : { error: "missing" as const };
+  if ("error" in replacement) return replacement;
+
+  // 继续解析同一个值中后面的引用
+  const rest = resolveVariableReferences(value.slice(end), lookup, visiting);
+  if ("error" in rest) return rest;
+
+  return { value: value.slice(0, start) + replacement.value + rest.value };
+};
+
+/**
+ * 把两种模式下的未知变量组合成自定义变量列表
+ *
+ * 只在:root中声明的变量，在暗黑模式下会继承亮色的值(与CSS的行为一致)；
+ * 只在.dark中声明的变量也同样处理。
+ *
+ * @param lightCustom 明亮模式下的未知变量
+ * @param darkCustom 暗黑模式下的未知变量
+ * @returns 自定义变量列表
+ */
+export const buildCustomVariables = (
+  lightCustom: Record<string, string>,
+  darkCustom: Record<string, string>
+): CustomVariable[] => {
+  const names = Array.from(
+    new Set([...Object.keys(lightCustom), ...Object.keys(darkCustom)])
+  );
+
+  return names.map((name) => {
+    const light = lightCustom[name] ?? darkCustom[name];
+    const dark = darkCustom[name] ?? light;
+    // 两种模式的值类型一致时才使用推断出的类型，否则原样输出
+    const lightType = inferCustomVariableType(light);
+    const type = inferCustomVariableType(dark) === lightType ? lightType : "raw";
+
+    return {
+      name,
+      type,
+      light: normalizeCustomVariableValue(light, type),
+      dark: normalizeCustomVariableValue(dark, type),
+    };
+  });
+};
+
+/**
+ * 去掉选择器中的 :not(...) 部分
+ * 例如 :root:not(.dark) 仍然是明亮模式的选择器
+ */
+const stripNegations = (selector: string): string =>
+  selector.replace(/:not\([^)]*\)/g, "");
+
+/**
+ * 判断选择器是否是明亮模式的 :root
+ *
+ * @param selector CSS选择器，可以是逗号分隔的选择器列表
+ * @returns 是否包含 :root
+ */
+export const isRootSelector = (selector: string): boolean =>
+  selector.split(",").some((part) => stripNegations(part).trim() === ":root");
+
+/**
+ * 统一选择器的写法：去掉多余的空白，属性选择器的值统一使用双引号
+ * 例如 [data-theme='dark'] 和 [data-theme=dark] 都变成 [data-theme="dark"]
+ */
+const normalizeSelector = (selector: string): string =>
+  stripNegations(selector)
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(
+      /\[\s*([\w-]+)\s*=\s*(["']?)([^"'\]]*)\2\s*\]/g,
+      (_, attribute: string, __, value: string) => `[${attribute}="${value}"]`
+    );
+
+/**
+ * 判断选择器是否用于暗黑模式
+ *
+ * 只识别生成器支持的切换方式：.dark、[data-theme="dark"] 和配置的自定义选择器，
+ * 它们也可以直接写在 :root 或 html 上(如 html.dark)。
+ * .navbar-dark、.dark .prose 这类组件选择器和 .dark-dim 这类命名模式不属于暗黑模式。
+ *
+ * @param selector CSS选择器，可以是逗号分隔的选择器列表
+ * @param darkSelectors 额外的暗黑模式选择器(自定义切换方式)
+ * @returns 是否是暗黑模式的选择器
+ */
+export const isDarkSelector = (
+  selector: string,
+  darkSelectors: string[] = []
+): boolean => {
+  const candidates = [".dark", '[data-theme="dark"]', ...darkSelectors]
+    .map(normalizeSelector)
+    .filter(Boolean)
+    .flatMap((base) => [base, `:root${base}`, `html${base}`]);
+  return selector
+    .split(",")
+    .some((part) => candidates.includes(normalizeSelector(part)));
+};
+
 /**
  * 处理颜色值
- * 
+ *
  * 这个函数就像是识别不同种类的颜色表示方式，然后把它们转换成统一的格式。
- * 
+ *
  * 例如，有时颜色是这样写的："0 0% 100%"（HSL值），
  * 它会把这种格式转换为："hsl(0 0% 100%)"，让其他函数更容易处理。
- * 
+ *
  * @param value 原始颜色值
  * @returns 处理后的颜色值
  */
-const processColorValue = (value: string): string => {
+export const processColorValue = (value: string): string => {
   // 如果值以数字开头，假设它是HSL值，加上"hsl()"前缀
   return /^\d/.test(value) ? `hsl(${value})` : value;
 };
 
 /**
- * 转义正则表达式特殊字符
- * 
- * 这个辅助函数确保特殊字符在正则表达式中被正确处理。
- * 想象成给魔法文字加上保护罩，这样它们就不会被误解。
- * 
- * 例如，"."在正则表达式中表示"任意字符"，但如果我们想真的匹配句点，
- * 就需要将其转义为"\\."。这个函数自动完成这个工作。
- * 
- * @param string 需要转义的字符串
- * @returns 转义后的字符串
+ * 把值当作颜色解析，不是颜色时返回undefined
+ * culori遇到 hsl(0.5rem) 这类补上前缀的长度值会抛出错误
+ */
+const parseColorValue = (value: string) => {
+  try {
+    return culori.parse(processColorValue(value));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 判断两个值是否相同
+ * 颜色按实际颜色比较，例如 hsl(0 0% 100%) 和 #ffffff 是相同的
+ */
+const isSameValue = (previous: string | undefined, next: string) => {
+  if (previous === next) return true;
+  if (previous === undefined) return false;
+
+  const previousColor = parseColorValue(previous);
+  const nextColor = parseColorValue(next);
+  return (
+    !!previousColor &&
+    !!nextColor &&
+    culori.formatHex8(previousColor) === culori.formatHex8(nextColor)
+  );
+};
+
+/**
+ * 生成单个模式下的值变化
+ *
+ * @returns 值有变化时返回变化，否则返回undefined
+ */
+const getValueChange = (
+  previous: string | undefined,
+  next: string | undefined
+): CssImportValueChange | undefined =>
+  next === undefined || isSameValue(previous, next)
+    ? undefined
+    : { previous, next };
+
+/**
+ * 比较导入结果和应用导入时使用的基础样式，列出每个会发生变化的属性和自定义变量
+ *
+ * 值与当前主题相同的属性不会出现在列表中。
+ * 替换主题时以默认主题为基础，所以CSS中没有的属性也会列出(恢复默认值)，
+ * 当前的自定义变量会被列为移除。
+ *
+ * @param result CSS导入结果
+ * @param currentStyles 当前的主题样式
+ * @param replace 是否替换整个主题
+ * @returns 变化列表，内置属性在前，自定义变量在后
  */
-const escapeRegExp = (string: string): string => {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+export const getCssImportChanges = (
+  result: CssImportResult,
+  currentStyles: ThemeStyles,
+  replace = false
+): CssImportChange[] => {
+  const defaults = defaultThemeState.styles;
+  const importedNames = new Set([
+    ...Object.keys(result.lightColors),
+    ...Object.keys(result.darkColors),
+  ]);
+  const themeNames = Array.from(
+    new Set([...importedNames, ...(replace ? variableNames : [])])
+  ) as (keyof ThemeStyleProps)[];
+
+  const themeChanges: CssImportChange[] = themeNames.map((name) => ({
+    name,
+    kind: "theme",
+    light: getValueChange(
+      currentStyles.light[name],
+      result.lightColors[name] ?? (replace ? defaults.light[name] : undefined)
+    ),
+    dark: getValueChange(
+      currentStyles.dark[name],
+      result.darkColors[name] ?? (replace ? defaults.dark[name] : undefined)
+    ),
+    ...(!importedNames.has(name) && { reset: true }),
+  }));
+
+  const currentVariables = getCustomVariables(currentStyles);
+  const customChanges: CssImportChange[] = result.customVariables.map(
+    (variable) => {
+      const current = currentVariables.find(
+        (item) => item.name === variable.name
+      );
+      return {
+        name: variable.name,
+        kind: "custom",
+        light: getValueChange(current?.light, variable.light),
+        dark: getValueChange(current?.dark, variable.dark),
+      };
+    }
+  );
+  const removedVariables: CssImportChange[] = replace
+    ? currentVariables
+        .filter(
+          (variable) =>
+            !result.customVariables.some((item) => item.name === variable.name)
+        )
+        .map((variable) => ({
+          name: variable.name,
+          kind: "custom",
+          light: { previous: variable.light },
+          dark: { previous: variable.dark },
+          reset: true,
+        }))
+    : [];
+
+  return [...themeChanges, ...customChanges, ...removedVariables].filter(
+    (change) => change.light || change.dark
+  );
+};
+
+/**
+ * 按用户的选择应用导入结果
+ *
+ * 合并时，导入的属性覆盖当前主题中的同名属性，其余保持不变；
+ * 替换时，以默认主题为基础，当前的自定义变量、命名模式和色阶都会被移除。
+ * 两种方式中，取消勾选的属性和自定义变量都保持当前主题中的值。
+ *
+ * @param result CSS导入结果
+ * @param currentStyles 当前的主题样式
+ * @param options 应用方式和不导入的属性
+ * @returns 新的主题样式
+ */
+export const applyCssImport = (
+  result: CssImportResult,
+  currentStyles: ThemeStyles,
+  { replace, rejected }: CssImportOptions
+): ThemeStyles => {
+  const base = replace ? defaultThemeState.styles : currentStyles;
+  const accept = (colors: Partial<ThemeStyleProps>) =>
+    Object.fromEntries(
+      Object.entries(colors).filter(([name]) => !rejected.includes(name))
+    ) as Partial<ThemeStyleProps>;
+  // 替换时取消勾选的属性不恢复默认值，而是保留当前的值
+  const keep = (colors: ThemeStyleProps) =>
+    replace
+      ? (Object.fromEntries(
+          Object.entries(colors).filter(([name]) => rejected.includes(name))
+        ) as Partial<ThemeStyleProps>)
+      : {};
+  const customVariables = result.customVariables.filter(
+    (variable) => !rejected.includes(variable.name)
+  );
+  const keptVariables = replace
+    ? getCustomVariables(currentStyles).filter((variable) =>
+        rejected.includes(variable.name)
+      )
+    : [];
+
+  const styles: ThemeStyles = {
+    ...(!replace && currentStyles),
+    light: {
+      ...base.light,
+      ...keep(currentStyles.light),
+      ...accept(result.lightColors),
+    },
+    dark: {
+      ...base.dark,
+      ...keep(currentStyles.dark),
+      ...accept(result.darkColors),
+    },
+  };
+  if (customVariables.length > 0 || keptVariables.length > 0) {
+    styles.customVariables = replace
+      ? [...keptVariables, ...customVariables]
+      : mergeCustomVariables(currentStyles.customVariables, customVariables);
+  }
+  if (result.scales.length > 0) {
+    const currentScales = replace ? [] : currentStyles.scales ?? [];
+    styles.scales = Array.from(new Set([...currentScales, ...result.scales]));
+  }
+
+  return styles;
 };
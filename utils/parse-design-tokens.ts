@@ -0,0 +1,496 @@
+/**
+ * 设计令牌(DTCG / Tokens Studio)JSON解析工具
+ *
+ * 设计师常在Figma中用Tokens Studio维护令牌，导出的JSON与CSS完全不同：
+ * - DTCG格式使用 $value / $type，Tokens Studio的旧格式使用 value / type
+ * - 令牌可以引用其他令牌，例如 "{color.primary}"
+ * - Tokens Studio把令牌分成多个令牌集(如 global、light、dark)
+ *
+ * 这个文件负责：
+ * 1. 识别文件中的令牌集，并按名称猜测它们属于亮色还是暗色模式
+ * 2. 按选定的令牌集展开令牌，解析引用(检测循环引用和找不到的引用)
+ * 3. 根据令牌路径自动猜测对应的主题属性，用户可以在导入前调整
+ * 4. 按映射生成主题属性和自定义变量，并报告没有映射的令牌
+ * 5. 阴影令牌(包括本项目导出的 shadow.* 令牌)用来还原阴影参数
+ */
+
+import * as culori from "culori";
+import { CustomVariable, ThemeStyleProps } from "@/types/theme";
+import { COMMON_STYLES, defaultLightThemeStyles } from "@/config/theme";
+import {
+  inferCustomVariableType,
+  normalizeCustomVariableValue,
+  RESERVED_VARIABLE_NAMES,
+} from "./custom-variables";
+import { getShadowParams } from "./shadows";
+
+type ThemeMode = "light" | "dark";
+
+/**
+ * 展开并解析引用后的单个令牌
+ */
+export type ResolvedToken = {
+  path: string;          // 令牌路径，如 "color.primary"
+  type?: string;         // 令牌类型(可能继承自分组)
+  value: string;         // 转换为CSS的值
+};
+
+/**
+ * 令牌的导入目标
+ * - 主题属性名：写入对应的属性
+ * - "custom"：作为自定义变量导入(变量名取路径的最后一段)
+ * - "shadow"：作为某个尺寸的阴影，用来还原阴影参数(尺寸取路径的最后一段)
+ * - ""：不导入
+ */
+export type TokenMappingTarget = keyof ThemeStyleProps | "custom" | "shadow" | "";
+
+/**
+ * 令牌文件的解析结果，用于让用户选择令牌集
+ */
+export type ParsedTokenFile = {
+  sets: string[];                                 // 令牌集名称，按文件中的顺序
+  defaultSets: Record<ThemeMode, string[]>;       // 按名称猜测的默认令牌集
+  tree: Record<string, unknown>;                  // 原始JSON
+};
+
+/**
+ * 按选定的令牌集展开后的结果
+ */
+export type ResolvedTokenSets = {
+  tokens: Record<ThemeMode, Record<string, ResolvedToken>>;
+  unresolved: string[];  // 无法解析引用的令牌路径
+};
+
+/**
+ * 最终的导入结果
+ */
+export type TokenImportResult = {
+  lightColors: Partial<ThemeStyleProps>;
+  darkColors: Partial<ThemeStyleProps>;
+  customVariables: CustomVariable[];
+  unmapped: string[];    // 没有映射到任何目标的令牌路径
+};
+
+// 没有令牌集的文件(普通DTCG文件)使用的虚拟令牌集名称
+const ROOT_SET = "tokens";
+
+// 主题属性名列表
+const THEME_KEYS = Object.keys(defaultLightThemeStyles) as (keyof ThemeStyleProps)[];
+
+// 引用的格式：{group.token}
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 判断一个节点是否是令牌(而不是分组)
+ */
+const isToken = (node: Record<string, unknown>) =>
+  "$value" in node || "value" in node;
+
+/**
+ * 解析令牌JSON文本
+ *
+ * Tokens Studio的文件带有 $metadata.tokenSetOrder 或 $themes，
+ * 顶层的每个分组都是一个令牌集($themes、$metadata等除外)；
+ * 其他文件(普通的DTCG文件)即使顶层分组中还有嵌套分组(如 color.blue.500)，
+ * 也把整个文件当作一个令牌集，这样令牌路径和引用都保持完整。
+ *
+ * @param input JSON文本
+ * @returns 令牌集信息
+ * @throws JSON格式无效或不包含任何令牌时抛出错误
+ */
+export const parseTokenFile = (input: string): ParsedTokenFile => {
+  const tree: unknown = JSON.parse(input);
+  if (!isObject(tree)) {
+    throw new Error("Token file must be a JSON object");
+  }
+
+  const metadata = isObject(tree.$metadata) ? tree.$metadata : undefined;
+  const hasSetOrder = Array.isArray(metadata?.tokenSetOrder);
+  const hasSets = hasSetOrder || Array.isArray(tree.$themes);
+  const setOrder = (
+    hasSetOrder
+      ? (metadata?.tokenSetOrder as string[])
+      : Object.keys(tree).filter((key) => !key.startsWith("$"))
+  ).filter((key) => isObject(tree[key]));
+  const sets = hasSets && setOrder.length > 0 ? setOrder : [ROOT_SET];
+
+  const defaultSets: Record<ThemeMode, string[]> = {
+    light: sets.filter((set) => !/dark/i.test(set)),
+    dark: sets.filter((set) => !/light/i.test(set)),
+  };
+
+  return { sets, defaultSets, tree };
+};
+
+/**
+ * 把嵌套的令牌分组展开为 路径 -> 令牌 的映射
+ *
+ * @param node 当前分组
+ * @param path 当前分组的路径
+ * @param inheritedType 从父分组继承的类型
+ * @param target 存储结果的对象
+ */
+const flattenTokens = (
+  node: Record<string, unknown>,
+  path: string[],
+  inheritedType: string | undefined,
+  target: Record<string, { type?: string; value: unknown }>
+) => {
+  const type = (node.$type ?? node.type ?? inheritedType) as string | undefined;
+
+  if (isToken(node)) {
+    target[path.join(".")] = { type, value: node.$value ?? node.value };
+    return;
+  }
+
+  Object.entries(node).forEach(([key, child]) => {
+    if (key.startsWith("$") || !isObject(child)) return;
+    flattenTokens(child, [...path, key], type, target);
+  });
+};
+
+/**
+ * 转换Tokens Studio特有的颜色写法 rgba(#ffffff, 0.5)
+ * 这种写法不是合法的CSS，需要转换为带透明度的十六进制颜色
+ *
+ * @param value 颜色值
+ * @returns 合法的CSS颜色
+ */
+const normalizeTokensStudioColor = (value: string): string =>
+  value.replace(
+    /rgba?\(\s*(#[0-9a-f]{3,8})\s*,\s*([\d.]+)(%?)\s*\)/gi,
+    (match, hex: string, alpha: string, percent: string) => {
+      const color = culori.parse(hex);
+      if (!color) return match;
+      const opacity = parseFloat(alpha) / (percent ? 100 : 1);
+      return opacity < 1
+        ? culori.formatHex8({ ...color, alpha: opacity })
+        : culori.formatHex(color);
+    }
+  );
+
+/**
+ * 判断一个值是否是DTCG的阴影对象
+ */
+const isShadowValue = (value: unknown): value is Record<string, unknown> =>
+  isObject(value) && "offsetX" in value && "offsetY" in value;
+
+/**
+ * 把令牌的值转换为CSS值
+ * 支持DTCG的颜色对象、尺寸对象、阴影对象(或多层阴影的数组)和字体数组
+ *
+ * @param value 令牌的值(引用已经解析)
+ * @param type 令牌类型
+ * @returns CSS值
+ */
+const toCssValue = (value: unknown, type?: string): string => {
+  // 阴影：每一层写成 offset-x offset-y blur spread color，多层用逗号分隔
+  if (isShadowValue(value) || (Array.isArray(value) && value.every(isShadowValue))) {
+    return (Array.isArray(value) ? value : [value])
+      .map((layer: Record<string, unknown>) =>
+        [
+          toCssValue(layer.offsetX, "dimension"),
+          toCssValue(layer.offsetY, "dimension"),
+          toCssValue(layer.blur ?? "0px", "dimension"),
+          toCssValue(layer.spread ?? "0px", "dimension"),
+          toCssValue(layer.color, "color"),
+        ].join(" ")
+      )
+      .join(", ");
+  }
+
+  if (Array.isArray(value)) {
+    // 字体名称数组：带空格的字体名称需要加引号
+    return value
+      .map((item) =>
+        typeof item === "string" && /\s/.test(item) && !/^['"]/.test(item)
+          ? `'${item}'`
+          : String(item)
+      )
+      .join(", ");
+  }
+
+  if (isObject(value)) {
+    // DTCG的尺寸对象：{ value: 4, unit: "px" }
+    if ("value" in value && "unit" in value) {
+      return `${value.value}${value.unit}`;
+    }
+    // DTCG的颜色对象：优先使用hex，否则根据颜色空间构造颜色
+    if (type === "color" || "colorSpace" in value) {
+      if (typeof value.hex === "string") return value.hex;
+      const [a, b, c] = (value.components as number[]) ?? [];
+      const alpha = typeof value.alpha === "number" ? value.alpha : 1;
+      const color = culori.parse(
+        value.colorSpace === "oklch"
+          ? `oklch(${a} ${b} ${c} / ${alpha})`
+          : `color(${value.colorSpace ?? "srgb"} ${a} ${b} ${c} / ${alpha})`
+      );
+      return color ? culori.formatHex(color) : JSON.stringify(value);
+    }
+    return JSON.stringify(value);
+  }
+
+  return type === "color"
+    ? normalizeTokensStudioColor(String(value))
+    : String(value);
+};
+
+/**
+ * 按选定的令牌集展开令牌，并解析所有引用
+ *
+ * 后面的令牌集会覆盖前面同名的令牌(与Tokens Studio的行为一致)。
+ * 引用可以是整个值("{color.blue.500}")，也可以嵌在字符串中。
+ *
+ * @param file 解析后的令牌文件
+ * @param selectedSets 每个模式选择的令牌集
+ * @returns 每个模式下解析后的令牌，以及无法解析的令牌
+ */
+export const resolveTokenSets = (
+  file: ParsedTokenFile,
+  selectedSets: Record<ThemeMode, string[]>
+): ResolvedTokenSets => {
+  const unresolved = new Set<string>();
+
+  const resolveMode = (mode: ThemeMode) => {
+    const raw: Record<string, { type?: string; value: unknown }> = {};
+    file.sets
+      .filter((set) => selectedSets[mode].includes(set))
+      .forEach((set) => {
+        const node = set === ROOT_SET ? file.tree : file.tree[set];
+        if (isObject(node)) flattenTokens(node, [], undefined, raw);
+      });
+
+    const resolved: Record<string, ResolvedToken> = {};
+
+    // 递归解析引用，stack用来检测循环引用
+    const resolve = (path: string, stack: string[]): unknown => {
+      const token = raw[path];
+      if (!token || stack.includes(path)) return undefined;
+
+      const { value } = token;
+      if (typeof value !== "string") return value;
+
+      // 整个值就是一个引用时，直接返回被引用的值(可能是对象或数组)
+      const whole = value.match(/^\{([^{}]+)\}$/);
+      if (whole) return resolve(whole[1], [...stack, path]);
+
+      let failed = false;
+      const replaced = value.replace(REFERENCE_PATTERN, (_, reference) => {
+        const referenced = resolve(reference, [...stack, path]);
+        if (referenced === undefined) {
+          failed = true;
+          return `{${reference}}`;
+        }
+        return toCssValue(referenced, raw[reference]?.type);
+      });
+      return failed ? undefined : replaced;
+    };
+
+    Object.entries(raw).forEach(([path, token]) => {
+      const value = resolve(path, []);
+      if (value === undefined) {
+        unresolved.add(path);
+        return;
+      }
+      resolved[path] = {
+        path,
+        type: token.type,
+        value: toCssValue(value, token.type),
+      };
+    });
+
+    return resolved;
+  };
+
+  return {
+    tokens: { light: resolveMode("light"), dark: resolveMode("dark") },
+    unresolved: Array.from(unresolved),
+  };
+};
+
+/**
+ * 把路径中的一段转换为主题属性使用的格式(小写、连字符分隔)
+ * 例如 "primaryForeground" -> "primary-foreground"
+ */
+const toKebabCase = (segment: string) =>
+  segment
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[\s_]+/g, "-")
+    .toLowerCase();
+
+/**
+ * 根据令牌路径猜测对应的导入目标
+ *
+ * 从路径的最后一段开始，逐步向前拼接，直到匹配某个主题属性，例如：
+ * - "color.primary" -> primary
+ * - "color.sidebar.primary.foreground" -> sidebar-primary-foreground
+ * - "font.sans" -> font-sans
+ * 阴影类型的令牌用来还原阴影参数。
+ * 找不到匹配时，颜色和尺寸类型的令牌作为自定义变量导入，其余不导入。
+ *
+ * @param token 解析后的令牌
+ * @returns 猜测的导入目标
+ */
+export const guessTokenMapping = (token: ResolvedToken): TokenMappingTarget => {
+  if (token.type === "shadow") return "shadow";
+
+  const segments = token.path.split(".").map(toKebabCase);
+
+  for (let count = 1; count <= segments.length; count++) {
+    const candidate = segments.slice(-count).join("-");
+    if (THEME_KEYS.includes(candidate as keyof ThemeStyleProps)) {
+      return candidate as keyof ThemeStyleProps;
+    }
+    // 字体分组：font.sans -> font-sans
+    const withPrefix = `${segments[segments.length - count - 1]}-${candidate}`;
+    if (
+      count < segments.length &&
+      THEME_KEYS.includes(withPrefix as keyof ThemeStyleProps)
+    ) {
+      return withPrefix as keyof ThemeStyleProps;
+    }
+  }
+
+  return token.type === "color" || token.type === "dimension" ? "custom" : "";
+};
+
+/**
+ * 为所有令牌生成默认映射
+ *
+ * @param resolved 解析后的令牌
+ * @returns 令牌路径 -> 导入目标
+ */
+export const getDefaultTokenMapping = (
+  resolved: ResolvedTokenSets
+): Record<string, TokenMappingTarget> => {
+  const mapping: Record<string, TokenMappingTarget> = {};
+  getTokenPaths(resolved).forEach((path) => {
+    const token = resolved.tokens.light[path] ?? resolved.tokens.dark[path];
+    mapping[path] = guessTokenMapping(token);
+  });
+  return mapping;
+};
+
+/**
+ * 获取两个模式中出现的所有令牌路径
+ */
+export const getTokenPaths = (resolved: ResolvedTokenSets): string[] =>
+  Array.from(
+    new Set([
+      ...Object.keys(resolved.tokens.light),
+      ...Object.keys(resolved.tokens.dark),
+    ])
+  );
+
+/**
+ * 把令牌路径转换为自定义变量名
+ * 导出时放在 "custom" 分组中的变量去掉这一层，不合法的字符替换为连字符
+ */
+const toCustomVariableName = (path: string) =>
+  path
+    .replace(/^custom\./, "")
+    .split(".")
+    .map(toKebabCase)
+    .join("-")
+    .replace(/[^a-zA-Z0-9_-]/g, "-");
+
+/**
+ * 把阴影令牌的路径转换为阴影名称
+ * 与导出时相反："shadow.default" -> shadow，"shadow.md" -> shadow-md
+ */
+const toShadowName = (path: string) => {
+  const name = toKebabCase(path.split(".").pop() ?? "");
+  return name === "default" ? "shadow" : `shadow-${name.replace(/^shadow-/, "")}`;
+};
+
+/**
+ * 按映射生成导入结果
+ *
+ * - 颜色属性保存令牌中的原始写法，不转换为十六进制，避免导入后颜色产生误差
+ * - 字体、圆角等共享属性如果只在一个模式中出现，两个模式都使用它
+ * - 自定义变量名使用完整的令牌路径(如 color.surface.2 -> color-surface-2)，
+ *   与内置变量重名的令牌不会导入，而是报告为未映射
+ * - 阴影令牌还原为阴影参数；明确映射到阴影参数的令牌优先，
+ *   只有一个模式有阴影时两个模式都使用它
+ *
+ * @param resolved 解析后的令牌
+ * @param mapping 令牌路径 -> 导入目标
+ * @returns 导入结果
+ */
+export const applyTokenMapping = (
+  resolved: ResolvedTokenSets,
+  mapping: Record<string, TokenMappingTarget>
+): TokenImportResult => {
+  const lightColors: Partial<ThemeStyleProps> = {};
+  const darkColors: Partial<ThemeStyleProps> = {};
+  const customVariables: CustomVariable[] = [];
+  const unmapped: string[] = [];
+  const shadows: Record<"light" | "dark", Record<string, string>> = {
+    light: {},
+    dark: {},
+  };
+
+  getTokenPaths(resolved).forEach((path) => {
+    const target = mapping[path];
+    const light = resolved.tokens.light[path]?.value;
+    const dark = resolved.tokens.dark[path]?.value;
+
+    if (!target) {
+      unmapped.push(path);
+      return;
+    }
+
+    if (target === "shadow") {
+      const name = toShadowName(path);
+      if (light !== undefined) shadows.light[name] = light;
+      if (dark !== undefined) shadows.dark[name] = dark;
+      return;
+    }
+
+    if (target === "custom") {
+      const name = toCustomVariableName(path);
+      if (RESERVED_VARIABLE_NAMES.includes(name)) {
+        unmapped.push(path);
+        return;
+      }
+      const lightValue = light ?? dark;
+      const darkValue = dark ?? light;
+      const lightType = inferCustomVariableType(lightValue);
+      const type =
+        inferCustomVariableType(darkValue) === lightType ? lightType : "raw";
+      customVariables.push({
+        name,
+        type,
+        light: normalizeCustomVariableValue(lightValue, type),
+        dark: normalizeCustomVariableValue(darkValue, type),
+      });
+      return;
+    }
+
+    const shared = COMMON_STYLES.includes(target);
+    if (light !== undefined || (shared && dark !== undefined)) {
+      lightColors[target] = (light ?? dark) as string;
+    }
+    if (dark !== undefined || (shared && light !== undefined)) {
+      darkColors[target] = (dark ?? light) as string;
+    }
+  });
+
+  const lightShadow = getShadowParams(shadows.light);
+  const darkShadow = getShadowParams(shadows.dark);
+  const fillShadowParams = (
+    colors: Partial<ThemeStyleProps>,
+    params: Partial<ThemeStyleProps> | null
+  ) =>
+    Object.entries(params ?? {}).forEach(([key, value]) => {
+      const name = key as keyof ThemeStyleProps;
+      if (colors[name] === undefined) colors[name] = value;
+    });
+  fillShadowParams(lightColors, lightShadow ?? darkShadow);
+  fillShadowParams(darkColors, darkShadow ?? lightShadow);
+
+  return { lightColors, darkColors, customVariables, unmapped };
+};
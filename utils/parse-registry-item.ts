@@ -0,0 +1,167 @@
+/**
+ * shadcn 注册表文件解析工具
+ *
+ * scripts/generate-theme-registry.ts 会把预设主题写成 shadcn 注册表格式
+ * (registry:style)的JSON文件，这个文件负责把这种格式读回编辑器：
+ * 1. cssVars.theme 中的字体和圆角作为两种模式共用的值
+ * 2. cssVars.light / cssVars.dark 中的颜色、tracking-normal(字母间距)和 spacing
+ * 3. 没有直接给出阴影参数时，从生成好的 shadow-* 字符串中还原
+ * 4. 其他变量作为自定义变量导入
+ *
+ * 解析结果与CSS导入的结果格式相同，所以可以使用同一个预览和差异界面。
+ */
+
+import * as culori from "culori";
+import { ThemeStyleProps } from "@/types/theme";
+import { COMMON_STYLES } from "@/config/theme";
+import { RESERVED_VARIABLE_NAMES } from "./custom-variables";
+import {
+  CssImportReport,
+  CssImportResult,
+  buildCustomVariables,
+  processColorValue,
+  variableNames,
+} from "./parse-css-input";
+import { getShadowParams } from "./shadows";
+import { getImportedColorScales } from "./color-scales";
+
+type ThemeMode = "light" | "dark";
+
+// 注册表中的变量名与主题属性名不同的情况
+const REGISTRY_ALIASES: Record<string, keyof ThemeStyleProps> = {
+  "tracking-normal": "letter-spacing",
+};
+
+// 阴影参数，可以从 shadow-* 字符串中还原
+const SHADOW_PARAMS = [
+  "shadow-color",
+  "shadow-opacity",
+  "shadow-blur",
+  "shadow-spread",
+  "shadow-offset-x",
+  "shadow-offset-y",
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 判断输入是否是JSON(注册表文件)而不是CSS
+ */
+export const isRegistryItemInput = (input: string) =>
+  input.trim().startsWith("{");
+
+/**
+ * 读取 cssVars 中的一个分组，只保留字符串值
+ */
+const getVarGroup = (
+  cssVars: Record<string, unknown>,
+  group: string
+): Record<string, string> => {
+  const value = cssVars[group];
+  if (!isObject(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+};
+
+/**
+ * 解析注册表JSON文本
+ *
+ * @param input JSON文本
+ * @returns 与CSS导入相同格式的结果
+ * @throws JSON格式无效或不包含 cssVars 时抛出错误
+ */
+export const parseRegistryItem = (input: string): CssImportResult => {
+  const item: unknown = JSON.parse(input);
+  if (!isObject(item) || !isObject(item.cssVars)) {
+    throw new Error("Registry item must contain a cssVars object");
+  }
+
+  const theme = getVarGroup(item.cssVars, "theme");
+  const groups: Record<ThemeMode, Record<string, string>> = {
+    // theme 中的值(字体、圆角等)两种模式共用，模式中的值优先
+    light: { ...theme, ...getVarGroup(item.cssVars, "light") },
+    dark: { ...theme, ...getVarGroup(item.cssVars, "dark") },
+  };
+
+  const colors: Record<ThemeMode, Partial<ThemeStyleProps>> = {
+    light: {},
+    dark: {},
+  };
+  const custom: Record<ThemeMode, Record<string, string>> = {
+    light: {},
+    dark: {},
+  };
+  const report: CssImportReport = { imported: [], ignored: [], invalid: [] };
+
+  (["light", "dark"] as const).forEach((mode) => {
+    const shadows: Record<string, string> = {};
+
+    Object.entries(groups[mode]).forEach(([rawName, value]) => {
+      const name = REGISTRY_ALIASES[rawName] ?? rawName;
+
+      if (!variableNames.includes(name)) {
+        // 派生变量会在导出时重新生成，阴影字符串留给后面还原参数
+        if (RESERVED_VARIABLE_NAMES.includes(name)) {
+          if (name.startsWith("shadow")) shadows[name] = value;
+          report.ignored.push({
+            name,
+            mode,
+            value,
+            reason: "Generated from other theme properties",
+          });
+          return;
+        }
+
+        custom[mode][name] = value;
+        report.imported.push({ name, mode, value });
+        return;
+      }
+
+      if (COMMON_STYLES.includes(name)) {
+        colors[mode][name as keyof ThemeStyleProps] = value;
+        report.imported.push({ name, mode, value });
+        return;
+      }
+
+      // 保存原始写法，与CSS导入保持一致
+      const color = processColorValue(value.trim());
+      if (!culori.parse(color)) {
+        report.invalid.push({ name, mode, value, reason: "Not a valid color" });
+        return;
+      }
+      colors[mode][name as keyof ThemeStyleProps] = color;
+      report.imported.push({ name, mode, value: color });
+    });
+
+    // 文件中没有阴影参数时，从 shadow-* 字符串中还原
+    if (!SHADOW_PARAMS.some((param) => param in colors[mode])) {
+      const params = getShadowParams(shadows);
+      if (params) {
+        colors[mode] = { ...colors[mode], ...params };
+        Object.entries(params).forEach(([name, value]) =>
+          report.imported.push({ name, mode, value })
+        );
+      }
+    }
+  });
+
+  // 生成器只在明亮模式中写出 tracking-normal 和 spacing 等共用的值，暗黑模式沿用
+  COMMON_STYLES.forEach((name) => {
+    const key = name as keyof ThemeStyleProps;
+    if (colors.light[key] !== undefined && colors.dark[key] === undefined) {
+      colors.dark[key] = colors.light[key];
+    }
+  });
+
+  return {
+    lightColors: colors.light,
+    darkColors: colors.dark,
+    customVariables: buildCustomVariables(custom.light, custom.dark),
+    scales: getImportedColorScales(Object.keys(groups.light)),
+    report,
+  };
+};
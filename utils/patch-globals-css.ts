@@ -0,0 +1,215 @@
+/**
+ * globals.css 补丁工具
+ *
+ * 把项目中已有的 globals.css 更新为新的主题，只替换生成器输出的那些声明，
+ * 文件中的其他内容(导入、@custom-variant、基础样式、组件样式、项目自己的变量等)保持不变。
+ *
+ * 生成器拥有的声明是新主题代码中出现的变量，以及所有内置主题变量和它们的 --color-* 映射
+ * (这样关闭色阶等选项后，旧的变量也会被删除)。这些声明只在以下位置被替换：
+ * 1. :root、暗黑模式选择器和命名模式选择器的规则
+ *    (包括 Tailwind v3 项目中写在 @layer base 里的规则)
+ * 2. Tailwind v4 的 @theme inline 映射
+ * 3. 生成器为字母间距添加的 body { letter-spacing: var(--tracking-normal) } 规则
+ *
+ * 规则中还有其他声明(例如 --header-height)时，只删除生成器拥有的声明，规则本身保留；
+ * 所有声明都属于生成器的规则整个删除。只包含这类规则的 @media 和 @supports
+ * (例如暗黑模式的媒体查询和广色域覆盖)也整个删除。
+ *
+ * 新的主题代码写在第一个主题代码块的位置，并使用它的缩进：
+ * 代码块被整个删除时替换它，否则写在它的前面。
+ * 文件中没有主题代码块时，新的代码追加到文件末尾。
+ */
+
+import { CssNode, parseCss } from "./css-parser";
+import { isDarkSelector, isRootSelector } from "./parse-css-input";
+import { RESERVED_VARIABLE_NAMES } from "./custom-variables";
+
+type SourceRange = { start: number; end: number };
+
+/**
+ * 主题代码块
+ * declarations 为undefined时整个代码块都属于生成器，否则只删除其中的这些声明
+ */
+type ThemeBlock = SourceRange & { declarations?: SourceRange[] };
+
+// 可以整体删除的条件@规则(@layer 会改变层叠顺序，只替换其中的规则)
+const CONDITIONAL_AT_RULES = ["media", "supports"];
+
+// 生成器为字母间距添加的 body 规则中唯一的声明
+const LETTER_SPACING_DECLARATION = "letter-spacing:var(--tracking-normal)";
+
+/**
+ * 收集节点中声明的所有CSS变量名(包括嵌套的规则和@规则)
+ */
+const collectVariableNames = (nodes: CssNode[]): string[] =>
+  nodes.flatMap((node) => {
+    if (node.type === "declaration") {
+      return node.property.startsWith("--") ? [node.property] : [];
+    }
+    return node.children ? collectVariableNames(node.children) : [];
+  });
+
+/**
+ * 获取生成器拥有的变量名
+ *
+ * @param themeCode 新的主题代码
+ */
+const getOwnedVariableNames = (themeCode: string) =>
+  new Set([
+    ...collectVariableNames(parseCss(themeCode)),
+    ...RESERVED_VARIABLE_NAMES.flatMap((name) => [`--${name}`, `--color-${name}`]),
+  ]);
+
+/**
+ * 判断选择器是否是 :root、暗黑模式或命名模式的选择器
+ */
+const isThemeSelector = (selector: string, extraSelectors: string[]) =>
+  isRootSelector(selector) || isDarkSelector(selector, extraSelectors);
+
+/**
+ * 获取规则或 @theme inline 中属于生成器的部分
+ *
+ * @returns 没有生成器拥有的声明时返回空数组
+ */
+const getThemeBlock = (
+  range: SourceRange,
+  children: CssNode[],
+  ownedNames: Set<string>
+): ThemeBlock[] => {
+  const declarations = children.filter(
+    (child) => child.type === "declaration" && ownedNames.has(child.property)
+  );
+  if (declarations.length === 0) return [];
+  if (declarations.length === children.length) return [range];
+  return [
+    {
+      ...range,
+      declarations: declarations.map(({ start, end }) => ({ start, end })),
+    },
+  ];
+};
+
+/**
+ * 判断规则是否是生成器添加的字母间距规则
+ */
+const isLetterSpacingRule = (selector: string, children: CssNode[]) =>
+  selector === "body" &&
+  children.length === 1 &&
+  children[0].type === "declaration" &&
+  `${children[0].property}:${children[0].value.replace(/\s+/g, "")}` ===
+    LETTER_SPACING_DECLARATION;
+
+/**
+ * 查找主题代码块的位置
+ *
+ * @param nodes 语法树节点
+ * @param ownedNames 生成器拥有的变量名
+ * @param extraSelectors 命名模式、自定义暗黑模式等额外的主题选择器
+ * @returns 主题代码块在原文中的位置，按出现顺序排列
+ */
+const findThemeBlocks = (
+  nodes: CssNode[],
+  ownedNames: Set<string>,
+  extraSelectors: string[]
+): ThemeBlock[] =>
+  nodes.flatMap((node): ThemeBlock[] => {
+    if (node.type === "declaration") return [];
+
+    const range = { start: node.start, end: node.end };
+
+    if (node.type === "rule") {
+      if (isLetterSpacingRule(node.selector, node.children)) return [range];
+      return isThemeSelector(node.selector, extraSelectors)
+        ? getThemeBlock(range, node.children, ownedNames)
+        : [];
+    }
+
+    if (!node.children) return [];
+
+    if (node.name === "theme" && node.params === "inline") {
+      return getThemeBlock(range, node.children, ownedNames);
+    }
+
+    const blocks = findThemeBlocks(node.children, ownedNames, extraSelectors);
+
+    // 暗黑模式的媒体查询和广色域覆盖中的规则都属于生成器时，作为一个整体删除
+    const isWholeBlock =
+      CONDITIONAL_AT_RULES.includes(node.name) &&
+      node.children.length > 0 &&
+      node.children.every((child) =>
+        blocks.some(
+          (block) => !block.declarations && block.start === child.start
+        )
+      );
+
+    return isWholeBlock ? [range] : blocks;
+  });
+
+/**
+ * 获取代码块所在行的缩进
+ */
+const getIndentation = (css: string, position: number) => {
+  const lineStart = css.lastIndexOf("\n", position - 1) + 1;
+  const prefix = css.slice(lineStart, position);
+  return /^[ \t]*$/.test(prefix) ? prefix : "";
+};
+
+/**
+ * 用新的主题代码替换 globals.css 中的主题代码块
+ *
+ * @param css 原来的 globals.css 内容
+ * @param themeCode 新的主题代码(generateThemeCode 的输出)
+ * @param extraSelectors 命名模式、自定义暗黑模式等额外的主题选择器
+ * @returns 替换后的内容，以及被替换的代码块数量
+ */
+export const patchGlobalsCss = (
+  css: string,
+  themeCode: string,
+  extraSelectors: string[] = []
+): { css: string; replaced: number } => {
+  const blocks = findThemeBlocks(
+    parseCss(css),
+    getOwnedVariableNames(themeCode),
+    extraSelectors
+  );
+
+  if (blocks.length === 0) {
+    const content = css.trimEnd();
+    return {
+      css: `${content ? `${content}\n\n` : ""}${themeCode}\n`,
+      replaced: 0,
+    };
+  }
+
+  const [first] = blocks;
+  const indentation = getIndentation(css, first.start);
+  const code = themeCode
+    .split("\n")
+    .map((line, index) => (index > 0 && line ? indentation + line : line))
+    .join("\n");
+
+  // 要删除的部分：整个代码块，或者代码块中属于生成器的声明
+  const removals = blocks.flatMap((block) => block.declarations ?? [block]);
+
+  // 从后往前删除，这样前面的位置不会改变
+  let result = css;
+  [...removals].reverse().forEach((removal) => {
+    if (removal === first) {
+      result = result.slice(0, removal.start) + code + result.slice(removal.end);
+      return;
+    }
+    // 连同前面的空白一起删除，避免留下多余的空行
+    const start = result.slice(0, removal.start).trimEnd().length;
+    result = result.slice(0, start) + result.slice(removal.end);
+  });
+
+  // 第一个代码块中还有其他声明时，新的代码写在它的前面
+  if (first.declarations) {
+    result =
+      result.slice(0, first.start) +
+      `${code}\n\n${indentation}` +
+      result.slice(first.start);
+  }
+
+  return { css: result, replaced: blocks.length };
+};
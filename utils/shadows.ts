@@ -9,12 +9,16 @@
  * 2. 模糊度(blur) - 阴影的柔和程度
  * 3. 扩散(spread) - 阴影的大小
  * 4. 颜色(color) - 阴影的颜色和透明度
+ * 
+ * 导入主题时，也可以从生成好的阴影字符串中反过来还原这些参数。
  */
 
+import * as culori from "culori";
 import { colorFormatter } from "./color-converter";
 import { applyStyleToElement } from "./apply-style-to-element";
-import { ThemeEditorState } from "../types/theme";
+import { ThemeEditorState, ThemeStyleProps } from "../types/theme";
 import { defaultThemeState } from "../config/theme";
+import { getModeScheme, getModeStyles } from "./theme-modes";
 
 /**
  * 生成阴影样式映射表
@@ -26,15 +30,19 @@ import { defaultThemeState } from "../config/theme";
  * @returns 包含各种阴影样式的映射表
  */
 export const getShadowMap = (themeEditorState: ThemeEditorState) => {
-  // 获取当前主题模式（明亮/暗黑）的样式
+  // 获取当前主题模式（明亮/暗黑或命名模式）的样式
   const mode = themeEditorState.currentMode;
   const styles = {
-    ...defaultThemeState.styles[mode],
-    ...themeEditorState.styles[mode],
+    ...defaultThemeState.styles[getModeScheme(themeEditorState.styles, mode)],
+    ...getModeStyles(themeEditorState.styles, mode),
   };
 
   // 提取阴影的基本属性
-  const shadowColor = styles["shadow-color"];
+  // 阴影的透明度由 shadow-opacity 决定，不使用颜色自带的透明度
+  const parsedShadowColor = culori.parse(styles["shadow-color"]);
+  const shadowColor = parsedShadowColor
+    ? culori.formatCss({ ...parsedShadowColor, alpha: undefined })
+    : styles["shadow-color"];
   const hsl = colorFormatter(shadowColor, "hsl", "3");
   const offsetX = styles["shadow-offset-x"];
   const offsetY = styles["shadow-offset-y"];
@@ -109,3 +117,85 @@ export function setShadowVariables(themeEditorState: ThemeEditorState) {
     applyStyleToElement(root, name, value);
   });
 }
+
+// 每种阴影尺寸第一层使用的透明度倍率，与 getShadowMap 一致
+const SHADOW_OPACITY_MULTIPLIERS: Record<string, number> = {
+  shadow: 1,
+  "shadow-sm": 1,
+  "shadow-md": 1,
+  "shadow-lg": 1,
+  "shadow-xl": 1,
+  "shadow-xs": 0.5,
+  "shadow-2xs": 0.5,
+  "shadow-2xl": 2.5,
+};
+
+/**
+ * 按空格分割阴影的一层，括号中的空格(如 hsl(0 0% 0% / 0.1))不分割
+ */
+const splitShadowLayer = (layer: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const char of layer.trim()) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (/\s/.test(char) && depth === 0) {
+      if (current) parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+/**
+ * 去掉颜色的透明度，并尽量保留原始写法
+ * 例如 hsl(240 30% 25% / 0.06) -> hsl(240 30% 25%)，这样再次导出时颜色不会产生误差；
+ * 其他写法(如 rgba(0, 0, 0, 0.1))转换为十六进制
+ */
+const removeAlpha = (colorValue: string, color: culori.Color): string =>
+  /\/[^/()]*\)$/.test(colorValue)
+    ? colorValue.replace(/\s*\/[^/()]*\)$/, ")")
+    : culori.formatHex({ ...color, alpha: undefined });
+
+/**
+ * 从阴影字符串中还原阴影参数
+ *
+ * 这是 getShadowMap 的逆过程：导入的主题(如shadcn注册表文件)中只有
+ * 生成好的 --shadow-* 值，这里取第一层阴影，读出偏移、模糊、扩散和颜色，
+ * 再用颜色的透明度除以该尺寸的倍率得到基础不透明度。
+ *
+ * @param shadows 阴影名称(如 shadow、shadow-md)到CSS值的映射
+ * @returns 还原出的阴影参数，无法识别时返回null
+ */
+export const getShadowParams = (
+  shadows: Record<string, string>
+): Partial<ThemeStyleProps> | null => {
+  const name = Object.keys(SHADOW_OPACITY_MULTIPLIERS).find(
+    (key) => shadows[key]
+  );
+  if (!name) return null;
+
+  // 第一层阴影：逗号分隔的第一部分(颜色中的逗号在括号内)
+  const layer = shadows[name].split(/,(?![^(]*\))/)[0];
+  const parts = splitShadowLayer(layer);
+  const lengths = parts.filter((part) => /^-?[\d.]+[a-z%]*$/i.test(part));
+  const colorValue = parts.find((part) => !lengths.includes(part));
+  const color = colorValue ? culori.parse(colorValue) : undefined;
+  if (lengths.length < 2 || !colorValue || !color) return null;
+
+  const [offsetX, offsetY, blur = "0px", spread = "0px"] = lengths;
+  const opacity = (color.alpha ?? 1) / SHADOW_OPACITY_MULTIPLIERS[name];
+
+  return {
+    "shadow-color": removeAlpha(colorValue, color),
+    "shadow-opacity": `${Math.round(Math.min(opacity, 1) * 100) / 100}`,
+    "shadow-blur": blur,
+    "shadow-spread": spread,
+    "shadow-offset-x": offsetX,
+    "shadow-offset-y": offsetY,
+  };
+};
@@ -0,0 +1,272 @@
+/**
+ * Tailwind CSS v3 配置生成器
+ *
+ * Tailwind v3 不能像 v4 那样在CSS中用 @theme 声明主题，
+ * 需要在 tailwind.config.ts 的 theme.extend 中把工具类映射到CSS变量。
+ * 这个文件根据 generateThemeCode 输出的变量生成对应的配置，保证两者完全一致：
+ * 1. 颜色映射到 hsl(var(--x))(HSL格式只输出数值)或 var(--x)(其他格式)
+ * 2. 圆角、字体和阴影映射到对应的变量
+ * 3. 只有CSS中定义了 --tracking-normal 和 --spacing 时，才生成字母间距和间距
+ * 4. 颜色类型的自定义变量同样生成颜色工具类
+ * 5. 开启了色阶的颜色在 { DEFAULT, foreground } 中加上 50-950 各级
+ * 6. darkMode 与CSS中暗黑模式的切换方式一致
+ */
+
+import { ThemeEditorState, ThemeStyles } from "@/types/theme";
+import { ColorFormat, DarkModeOptions } from "../types";
+import { defaultLightThemeStyles } from "@/config/theme";
+import { getCustomVariables } from "./custom-variables";
+import {
+  COLOR_SCALE_STEPS,
+  getColorScaleVariableName,
+  getColorScales,
+} from "./color-scales";
+import { getDarkModeSelector } from "./theme-style-generator";
+
+// 配置对象中的值：字符串、字符串数组或嵌套对象
+type ConfigValue = string | string[] | { [key: string]: ConfigValue };
+
+// 带有 -foreground 配对的颜色，在配置中生成 { DEFAULT, foreground }
+const PAIRED_COLORS = [
+  "primary",
+  "secondary",
+  "destructive",
+  "success",
+  "warning",
+  "info",
+  "muted",
+  "accent",
+  "popover",
+  "card",
+];
+
+// 侧边栏颜色，在配置中放在 sidebar 分组下
+const SIDEBAR_COLORS = [
+  "foreground",
+  "primary",
+  "primary-foreground",
+  "accent",
+  "accent-foreground",
+  "border",
+  "ring",
+];
+
+// 阴影尺寸，与CSS中的 --shadow-* 变量一一对应
+const SHADOW_SIZES = ["2xs", "xs", "sm", "md", "lg", "xl", "2xl"];
+
+// 字母间距相对于 --tracking-normal 的偏移，与 v4 输出的 --tracking-* 一致
+const TRACKING_OFFSETS: Record<string, string> = {
+  tighter: "- 0.05em",
+  tight: "- 0.025em",
+  wide: "+ 0.025em",
+  wider: "+ 0.05em",
+  widest: "+ 0.1em",
+};
+
+// Tailwind v3 默认的间距刻度，自定义 --spacing 时按倍数重新生成
+const SPACING_SCALE = [
+  0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24,
+  28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96,
+];
+
+/**
+ * 格式化字符串字面量，包含双引号的字符串(如属性选择器)使用单引号
+ */
+const formatString = (value: string) =>
+  value.includes('"') && !value.includes("'")
+    ? `'${value}'`
+    : JSON.stringify(value);
+
+/**
+ * 判断对象的键是否需要加引号
+ */
+const formatKey = (key: string) =>
+  /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+
+/**
+ * 把配置对象转换为TypeScript对象字面量
+ *
+ * @param value 配置值
+ * @param indent 当前的缩进层级
+ * @returns 格式化后的代码
+ */
+const toObjectLiteral = (value: ConfigValue, indent: number): string => {
+  if (typeof value === "string") return formatString(value);
+  if (Array.isArray(value)) {
+    return `[${value.map(formatString).join(", ")}]`;
+  }
+
+  const padding = "  ".repeat(indent + 1);
+  const entries = Object.entries(value).map(
+    ([key, child]) =>
+      `${padding}${formatKey(key)}: ${toObjectLiteral(child, indent + 1)},`
+  );
+  return `{\n${entries.join("\n")}\n${"  ".repeat(indent)}}`;
+};
+
+/**
+ * 生成颜色配置
+ *
+ * @param themeStyles 主题样式
+ * @param colorVar 把变量名转换为颜色值的函数
+ * @returns colors 配置
+ */
+const generateColorConfig = (
+  themeStyles: ThemeStyles,
+  colorVar: (name: string) => string
+): ConfigValue => {
+  const colors: { [key: string]: ConfigValue } = {
+    border: colorVar("border"),
+    input: colorVar("input"),
+    ring: colorVar("ring"),
+    background: colorVar("background"),
+    foreground: colorVar("foreground"),
+  };
+
+  PAIRED_COLORS.forEach((name) => {
+    colors[name] = {
+      DEFAULT: colorVar(name),
+      foreground: colorVar(`${name}-foreground`),
+    };
+  });
+
+  getColorScales(themeStyles).forEach((token) => {
+    colors[token] = {
+      ...(colors[token] as { [key: string]: ConfigValue }),
+      ...Object.fromEntries(
+        COLOR_SCALE_STEPS.map((step) => [
+          `${step}`,
+          colorVar(getColorScaleVariableName(token, step)),
+        ])
+      ),
+    };
+  });
+
+  colors.chart = Object.fromEntries(
+    [1, 2, 3, 4, 5].map((index) => [`${index}`, colorVar(`chart-${index}`)])
+  );
+
+  colors.sidebar = {
+    DEFAULT: colorVar("sidebar"),
+    ...Object.fromEntries(
+      SIDEBAR_COLORS.map((name) => [name, colorVar(`sidebar-${name}`)])
+    ),
+  };
+
+  getCustomVariables(themeStyles)
+    .filter((variable) => variable.type === "color")
+    .forEach((variable) => {
+      colors[variable.name] = colorVar(variable.name);
+    });
+
+  return colors;
+};
+
+/**
+ * 生成 darkMode 配置
+ *
+ * @param darkMode 暗黑模式的切换方式
+ * @returns darkMode 配置的代码
+ */
+const generateDarkModeConfig = (darkMode: DarkModeOptions): string => {
+  const selector = getDarkModeSelector(darkMode);
+
+  switch (darkMode.strategy) {
+    case "class":
+      return `["class"]`;
+    case "media":
+      return `"media"`;
+    // 同时匹配系统设置(没有 .light 类名时)和强制暗黑的类名
+    case "media-class":
+      return `[
+    "variant",
+    [
+      "@media (prefers-color-scheme: dark) { &:not(.light *) }",
+      ${formatString(`&:is(${selector} *)`)},
+    ],
+  ]`;
+    default:
+      return `["selector", ${formatString(selector)}]`;
+  }
+};
+
+/**
+ * 生成 tailwind.config.ts 的内容
+ *
+ * @param themeEditorState 编辑器中的主题状态
+ * @param colorFormat 颜色格式，决定颜色是否需要用 hsl() 包裹
+ * @param darkMode 暗黑模式的切换方式
+ * @returns 完整的配置文件代码
+ */
+export const generateTailwindConfig = (
+  themeEditorState: ThemeEditorState,
+  colorFormat: ColorFormat = "hsl",
+  darkMode: DarkModeOptions = { strategy: "class" }
+): string => {
+  const themeStyles = themeEditorState.styles as ThemeStyles;
+  const light = themeStyles.light;
+
+  // Tailwind v3 的HSL格式只输出 "H S% L%"，需要在配置中补上 hsl()
+  const colorVar = (name: string) =>
+    colorFormat === "hsl" ? `hsl(var(--${name}))` : `var(--${name})`;
+
+  const extend: { [key: string]: ConfigValue } = {
+    colors: generateColorConfig(themeStyles, colorVar),
+    borderRadius: {
+      xl: "calc(var(--radius) + 4px)",
+      lg: "var(--radius)",
+      md: "calc(var(--radius) - 2px)",
+      sm: "calc(var(--radius) - 4px)",
+    },
+    fontFamily: {
+      sans: ["var(--font-sans)"],
+      serif: ["var(--font-serif)"],
+      mono: ["var(--font-mono)"],
+    },
+    boxShadow: {
+      ...Object.fromEntries(
+        SHADOW_SIZES.map((size) => [size, `var(--shadow-${size})`])
+      ),
+      DEFAULT: "var(--shadow)",
+    },
+  };
+
+  // 只有CSS中定义了 --tracking-normal 时才生成字母间距
+  if (light["letter-spacing"] !== defaultLightThemeStyles["letter-spacing"]) {
+    extend.letterSpacing = {
+      normal: "var(--tracking-normal)",
+      ...Object.fromEntries(
+        Object.entries(TRACKING_OFFSETS).map(([name, offset]) => [
+          name,
+          `calc(var(--tracking-normal) ${offset})`,
+        ])
+      ),
+    };
+  }
+
+  // 只有CSS中定义了 --spacing 时才重新生成间距刻度
+  if (light.spacing !== defaultLightThemeStyles.spacing) {
+    extend.spacing = Object.fromEntries(
+      SPACING_SCALE.map((step) => [`${step}`, `calc(var(--spacing) * ${step})`])
+    );
+  }
+
+  return `import type { Config } from "tailwindcss";
+
+const config: Config = {
+  darkMode: ${generateDarkModeConfig(darkMode)},
+  content: [
+    "./pages/**/*.{ts,tsx}",
+    "./components/**/*.{ts,tsx}",
+    "./app/**/*.{ts,tsx}",
+    "./src/**/*.{ts,tsx}",
+  ],
+  theme: {
+    extend: ${toObjectLiteral(extend, 2)},
+  },
+  plugins: [require("tailwindcss-animate")],
+};
+
+export default config;
+`;
+};
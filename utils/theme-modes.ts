@@ -0,0 +1,253 @@
+/**
+ * 命名模式工具
+ *
+ * 除了内置的亮色(light)和暗色(dark)，一个主题还可以携带任意数量的命名模式，
+ * 例如 "dim"、"high-contrast" 或 "sepia"。
+ * 每个命名模式继承一个基础模式，只保存与基础模式不同的属性。
+ * 这个文件提供了处理命名模式的辅助函数：
+ * 1. 获取任意模式的完整样式(沿着继承链合并)
+ * 2. 获取模式最终继承自亮色还是暗色
+ * 3. 更新任意模式的样式
+ * 4. 校验模式名称、在模式之间循环切换、合并两组命名模式
+ */
+
+import {
+  BaseThemeMode,
+  NamedThemeMode,
+  ThemeModeName,
+  ThemeStyleProps,
+  ThemeStyles,
+} from "@/types/theme";
+
+/**
+ * 内置的基础模式
+ */
+export const BASE_THEME_MODES: BaseThemeMode[] = ["light", "dark"];
+
+// 合法的模式名称：小写字母开头，只包含小写字母、数字和连字符(可以直接作为类名)
+const MODE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * 判断是否是内置的基础模式
+ */
+export const isBaseThemeMode = (mode: ThemeModeName): mode is BaseThemeMode =>
+  mode === "light" || mode === "dark";
+
+/**
+ * 获取主题的命名模式
+ *
+ * @param themeStyles 主题样式
+ * @returns 命名模式列表，没有时返回空数组
+ */
+export const getNamedModes = (themeStyles: ThemeStyles): NamedThemeMode[] =>
+  themeStyles.modes ?? [];
+
+/**
+ * 获取主题的所有模式名称
+ * 顺序为 light、dark，然后是命名模式的声明顺序
+ *
+ * @param themeStyles 主题样式
+ * @returns 模式名称列表
+ */
+export const getModeNames = (themeStyles: ThemeStyles): ThemeModeName[] => [
+  ...BASE_THEME_MODES,
+  ...getNamedModes(themeStyles).map((mode) => mode.name),
+];
+
+/**
+ * 查找命名模式
+ *
+ * @param themeStyles 主题样式
+ * @param mode 模式名称
+ * @returns 命名模式，找不到或是基础模式时返回undefined
+ */
+export const findNamedMode = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName
+): NamedThemeMode | undefined =>
+  getNamedModes(themeStyles).find((namedMode) => namedMode.name === mode);
+
+/**
+ * 获取模式的完整样式
+ *
+ * 命名模式沿着继承链一直合并到亮色或暗色模式。
+ * 继承链出现循环或指向不存在的模式时，从亮色模式开始继承。
+ *
+ * @param themeStyles 主题样式
+ * @param mode 模式名称
+ * @returns 完整的样式属性
+ */
+export const getModeStyles = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  visited: Set<string> = new Set()
+): ThemeStyleProps => {
+  if (isBaseThemeMode(mode)) return themeStyles[mode];
+
+  const namedMode = findNamedMode(themeStyles, mode);
+  if (!namedMode || visited.has(mode)) return themeStyles.light;
+
+  visited.add(mode);
+  return {
+    ...getModeStyles(themeStyles, namedMode.base, visited),
+    ...namedMode.styles,
+  };
+};
+
+/**
+ * 获取模式最终继承自亮色还是暗色
+ * 用于决定是否添加 .dark 类名，以及自定义变量使用哪个模式的值
+ *
+ * @param themeStyles 主题样式
+ * @param mode 模式名称
+ * @returns light 或 dark
+ */
+export const getModeScheme = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  visited: Set<string> = new Set()
+): BaseThemeMode => {
+  if (isBaseThemeMode(mode)) return mode;
+
+  const namedMode = findNamedMode(themeStyles, mode);
+  if (!namedMode || visited.has(mode)) return "light";
+
+  visited.add(mode);
+  return getModeScheme(themeStyles, namedMode.base, visited);
+};
+
+/**
+ * 获取命名模式在生成的CSS中使用的选择器
+ *
+ * @param mode 命名模式
+ * @returns 选择器，没有设置时为 .名称
+ */
+export const getNamedModeSelector = (mode: NamedThemeMode): string =>
+  mode.selector?.trim() || `.${mode.name}`;
+
+/**
+ * 更新模式的样式
+ *
+ * 基础模式直接替换；命名模式只保存与基础模式不同的属性，
+ * 这样基础模式之后的修改仍然会被继承。
+ *
+ * @param themeStyles 主题样式
+ * @param mode 模式名称
+ * @param styles 新的完整样式
+ * @returns 更新后的主题样式
+ */
+export const updateModeStyles = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  styles: ThemeStyleProps
+): ThemeStyles => {
+  if (isBaseThemeMode(mode)) {
+    return { ...themeStyles, [mode]: styles };
+  }
+
+  const namedMode = findNamedMode(themeStyles, mode);
+  if (!namedMode) return themeStyles;
+
+  const baseStyles = getModeStyles(themeStyles, namedMode.base, new Set([mode]));
+  const overrides: Partial<ThemeStyleProps> = {};
+  (Object.keys(styles) as (keyof ThemeStyleProps)[]).forEach((key) => {
+    if (styles[key] !== baseStyles[key]) {
+      overrides[key] = styles[key];
+    }
+  });
+
+  return {
+    ...themeStyles,
+    modes: getNamedModes(themeStyles).map((item) =>
+      item.name === mode ? { ...item, styles: overrides } : item
+    ),
+  };
+};
+
+/**
+ * 获取模式名称的校验错误
+ *
+ * @param name 模式名称
+ * @param themeStyles 主题样式
+ * @returns 错误信息，名称合法时返回null
+ */
+export const getModeNameError = (
+  name: string,
+  themeStyles: ThemeStyles
+): string | null => {
+  const cleanName = name.trim();
+  if (!cleanName) return "Name is required";
+  if (!MODE_NAME_PATTERN.test(cleanName)) {
+    return "Use lowercase letters, numbers and dashes only";
+  }
+  if (getModeNames(themeStyles).includes(cleanName)) {
+    return `"${cleanName}" already exists`;
+  }
+  return null;
+};
+
+/**
+ * 删除命名模式
+ * 继承被删除模式的其他模式改为继承它的基础模式，并保留它的修改
+ *
+ * @param themeStyles 主题样式
+ * @param mode 要删除的模式名称
+ * @returns 更新后的主题样式
+ */
+export const removeNamedMode = (
+  themeStyles: ThemeStyles,
+  mode: string
+): ThemeStyles => {
+  const removed = findNamedMode(themeStyles, mode);
+  if (!removed) return themeStyles;
+
+  const modes = getNamedModes(themeStyles)
+    .filter((item) => item.name !== mode)
+    .map((item) =>
+      item.base === mode
+        ? {
+            ...item,
+            base: removed.base,
+            styles: { ...removed.styles, ...item.styles },
+          }
+        : item
+    );
+
+  return { ...themeStyles, modes: modes.length > 0 ? modes : undefined };
+};
+
+/**
+ * 获取循环切换时的下一个模式
+ *
+ * @param themeStyles 主题样式
+ * @param mode 当前模式
+ * @returns 下一个模式，最后一个模式之后回到 light
+ */
+export const getNextMode = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName
+): ThemeModeName => {
+  const names = getModeNames(themeStyles);
+  return names[(names.indexOf(mode) + 1) % names.length];
+};
+
+/**
+ * 合并两组命名模式
+ * 同名模式以updates中的为准，其余模式保持原有顺序
+ *
+ * @param base 原有的模式
+ * @param updates 新的模式
+ * @returns 合并后的模式列表，为空时返回undefined
+ */
+export const mergeNamedModes = (
+  base: NamedThemeMode[] = [],
+  updates: NamedThemeMode[] = []
+): NamedThemeMode[] | undefined => {
+  const updatesByName = new Map(updates.map((mode) => [mode.name, mode]));
+  const baseNames = new Set(base.map((mode) => mode.name));
+  const merged = [
+    ...base.map((mode) => updatesByName.get(mode.name) ?? mode),
+    ...updates.filter((mode) => !baseNames.has(mode.name)),
+  ];
+  return merged.length > 0 ? merged : undefined;
+};
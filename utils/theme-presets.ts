@@ -46,6 +46,9 @@ export function getPresetThemeStyles(name: string): ThemeStyles {
       ...defaultTheme.dark,
       ...(preset.styles.dark || {}),
     },
+    customVariables: preset.styles.customVariables,
+    modes: preset.styles.modes,
+    scales: preset.styles.scales,
   };
 }
 
@@ -97,6 +100,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#1e3a8a",
         destructive: "#ef4444",
         "destructive-foreground": "#ffffff",
+        success: "#15803d",
+        "success-foreground": "#ffffff",
+        warning: "#f59e0b",
+        "warning-foreground": "#333333",
+        info: "#2563eb",
+        "info-foreground": "#ffffff",
         border: "#e5e7eb",
         input: "#e5e7eb",
         ring: "#3b82f6",
@@ -135,6 +144,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#bfdbfe",
         destructive: "#ef4444",
         "destructive-foreground": "#ffffff",
+        success: "#22c55e",
+        "success-foreground": "#052e16",
+        warning: "#f59e0b",
+        "warning-foreground": "#171717",
+        info: "#60a5fa",
+        "info-foreground": "#171717",
         border: "#404040",
         input: "#404040",
         ring: "#3b82f6",
@@ -183,6 +198,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#77347c",
         destructive: "#ab4347",
         "destructive-foreground": "#ffffff",
+        success: "#2f7a4f",
+        "success-foreground": "#ffffff",
+        warning: "#e8c468",
+        "warning-foreground": "#501854",
+        info: "#3a6ea5",
+        "info-foreground": "#ffffff",
         border: "#efbdeb",
         input: "#e7c1dc",
         ring: "#db2777",
@@ -218,6 +239,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#f8f1f5",
         destructive: "#301015",
         "destructive-foreground": "#ffffff",
+        success: "#163d28",
+        "success-foreground": "#ffffff",
+        warning: "#4a3411",
+        "warning-foreground": "#ffffff",
+        info: "#1a2f4d",
+        "info-foreground": "#ffffff",
         border: "#3b3237",
         input: "#3e343c",
         ring: "#db2777",
@@ -265,6 +292,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#333333",
         destructive: "#f96f70",
         "destructive-foreground": "#ffffff",
+        success: "#5fb49c",
+        "success-foreground": "#12242e",
+        warning: "#fcd87a",
+        "warning-foreground": "#5b5b5b",
+        info: "#6fa8dc",
+        "info-foreground": "#12242e",
         border: "#d04f99",
         input: "#e4e4e4",
         ring: "#e670ab",
@@ -309,6 +342,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#f3e3ea",
         destructive: "#e35ea4",
         "destructive-foreground": "#12242e",
+        success: "#7ccfb4",
+        "success-foreground": "#12242e",
+        warning: "#f5d27a",
+        "warning-foreground": "#12242e",
+        info: "#8bbfe8",
+        "info-foreground": "#12242e",
         border: "#324859",
         input: "#20333d",
         ring: "#50afb6",
@@ -360,6 +399,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#ffffff",
         destructive: "#d20f39",
         "destructive-foreground": "#ffffff",
+        success: "#40a02b",
+        "success-foreground": "#ffffff",
+        warning: "#df8e1d",
+        "warning-foreground": "#1e1e2e",
+        info: "#1e66f5",
+        "info-foreground": "#ffffff",
         border: "#bcc0cc",
         input: "#ccd0da",
         ring: "#8839ef",
@@ -404,6 +449,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#1e1e2e",
         destructive: "#f38ba8",
         "destructive-foreground": "#1e1e2e",
+        success: "#a6e3a1",
+        "success-foreground": "#1e1e2e",
+        warning: "#f9e2af",
+        "warning-foreground": "#1e1e2e",
+        info: "#89b4fa",
+        "info-foreground": "#1e1e2e",
         border: "#313244",
         input: "#313244",
         ring: "#cba6f7",
@@ -451,6 +502,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#333333",
         destructive: "#cc3333",
         "destructive-foreground": "#ffffff",
+        success: "#3d8b5a",
+        "success-foreground": "#ffffff",
+        warning: "#c98a1a",
+        "warning-foreground": "#1a1a1a",
+        info: "#4a7ab8",
+        "info-foreground": "#ffffff",
         border: "#d0d0d0",
         input: "#e0e0e0",
         ring: "#606060",
@@ -495,6 +552,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#d9d9d9",
         destructive: "#e06666",
         "destructive-foreground": "#ffffff",
+        success: "#5fa87a",
+        "success-foreground": "#1a1a1a",
+        warning: "#d9a441",
+        "warning-foreground": "#1a1a1a",
+        info: "#6b96cc",
+        "info-foreground": "#1a1a1a",
         border: "#353535",
         input: "#303030",
         ring: "#a0a0a0",
@@ -545,6 +608,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#0a4a55",
         destructive: "#d13838",
         "destructive-foreground": "#ffffff",
+        success: "#2e8a5c",
+        "success-foreground": "#ffffff",
+        warning: "#d4a017",
+        "warning-foreground": "#0a4a55",
+        info: "#1f7a9c",
+        "info-foreground": "#ffffff",
         border: "#cde0e2",
         input: "#d9eaea",
         ring: "#06858e",
@@ -589,6 +658,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#4de8e8",
         destructive: "#e83c3c",
         "destructive-foreground": "#f2f2f2",
+        success: "#3ccf8e",
+        "success-foreground": "#0a1a20",
+        warning: "#e8b923",
+        "warning-foreground": "#0a1a20",
+        info: "#3fa9d9",
+        "info-foreground": "#0a1a20",
         border: "#164955",
         input: "#164955",
         ring: "#4de8e8",
@@ -644,6 +719,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#5c4b3e",
         destructive: "#d98b7e",
         "destructive-foreground": "#faf8f2",
+        success: "#5e7d4d",
+        "success-foreground": "#faf8f2",
+        warning: "#d4a75a",
+        "warning-foreground": "#2a2521",
+        info: "#5a7a8c",
+        "info-foreground": "#faf8f2",
         border: "#b19681",
         input: "#dbc894",
         ring: "#9db18c",
@@ -688,6 +769,12 @@ export const presets: Record<string, ThemePreset> = {
         "accent-foreground": "#2a2521",
         destructive: "#b5766a",
         "destructive-foreground": "#f0e9db",
+        success: "#8aa876",
+        "success-foreground": "#2a2521",
+        warning: "#c9a35a",
+        "warning-foreground": "#2a2521",
+        info: "#7f9fb0",
+        "info-foreground": "#2a2521",
         border: "#5a5345",
         input: "#5a5345",
         ring: "#8a9f7b",
@@ -0,0 +1,179 @@
+/**
+ * 主题分享链接编码工具
+ *
+ * 这个文件负责把完整的自定义主题压缩成一个可以放进URL的短字符串，
+ * 以及把这个字符串还原成主题样式。这样用户就可以把调整过的主题通过链接发给别人，
+ * 而不仅仅是分享一个预设名称。
+ *
+ * 编码格式：`<版本号>.<压缩数据>`
+ * - 版本号：用于将来修改编码格式时保持旧链接可用
+ * - 压缩数据：JSON经过lz-string压缩后的URL安全字符串
+ *
+ * 为了让链接尽量短，JSON中只保存与基础预设不同的属性(差异)，
+ * 解码时再把差异合并回基础预设，从而精确还原每一个样式属性。
+ */
+
+import {
+  compressToEncodedURIComponent,
+  decompressFromEncodedURIComponent,
+} from "lz-string";
+import {
+  ColorScaleToken,
+  CustomVariable,
+  NamedThemeMode,
+  ThemeStyleProps,
+  ThemeStyles,
+} from "@/types/theme";
+import { ThemeEditorState } from "@/types/editor";
+import { getPresetThemeStyles, presets } from "./theme-presets";
+
+/**
+ * 当前的分享编码版本
+ */
+export const THEME_SHARE_VERSION = 1;
+
+/**
+ * 分享链接使用的URL查询参数名
+ */
+export const THEME_SHARE_PARAM = "share";
+
+/**
+ * 分享数据的结构
+ * 使用单字母键名来减小压缩前的体积
+ */
+type ThemeSharePayload = {
+  p?: string;                          // 基础预设名称
+  l?: Partial<ThemeStyleProps>;        // 亮色模式下与预设不同的属性
+  d?: Partial<ThemeStyleProps>;        // 暗色模式下与预设不同的属性
+  c?: CustomVariable[];                // 自定义变量(与预设相同时省略)
+  m?: NamedThemeMode[];                // 命名模式(与预设相同时省略)
+  s?: ColorScaleToken[];               // 生成色阶的颜色属性(与预设相同时省略)
+};
+
+/**
+ * 解码后的分享主题
+ */
+export type SharedTheme = {
+  preset?: string;                     // 基础预设名称
+  styles: ThemeStyles;                 // 完整还原的主题样式
+};
+
+/**
+ * 计算单个模式的样式差异
+ *
+ * @param styles 当前样式
+ * @param base 基础预设样式
+ * @returns 只包含与基础样式不同的属性的对象，没有差异时返回undefined
+ */
+const diffStyles = (
+  styles: ThemeStyleProps,
+  base: ThemeStyleProps
+): Partial<ThemeStyleProps> | undefined => {
+  const diff: Partial<ThemeStyleProps> = {};
+  (Object.keys(styles) as (keyof ThemeStyleProps)[]).forEach((key) => {
+    if (styles[key] !== base[key]) {
+      diff[key] = styles[key];
+    }
+  });
+  return Object.keys(diff).length > 0 ? diff : undefined;
+};
+
+/**
+ * 获取可以作为差异基准的预设名称
+ * 只有内置预设才能作为基准，否则接收方无法还原
+ */
+const getBasePreset = (preset?: string) =>
+  preset && (preset === "default" || preset in presets) ? preset : undefined;
+
+/**
+ * 把主题编码为分享字符串
+ *
+ * @param themeState 当前编辑器中的主题状态
+ * @returns 可以直接放进URL查询参数的字符串
+ */
+export const encodeThemeShare = (themeState: ThemeEditorState): string => {
+  const preset = getBasePreset(themeState.preset);
+  const base = getPresetThemeStyles(preset ?? "default");
+
+  const payload: ThemeSharePayload = {
+    p: preset,
+    l: diffStyles(themeState.styles.light, base.light),
+    d: diffStyles(themeState.styles.dark, base.dark),
+    c:
+      JSON.stringify(themeState.styles.customVariables ?? []) !==
+      JSON.stringify(base.customVariables ?? [])
+        ? themeState.styles.customVariables ?? []
+        : undefined,
+    m:
+      JSON.stringify(themeState.styles.modes ?? []) !==
+      JSON.stringify(base.modes ?? [])
+        ? themeState.styles.modes ?? []
+        : undefined,
+    s:
+      JSON.stringify(themeState.styles.scales ?? []) !==
+      JSON.stringify(base.scales ?? [])
+        ? themeState.styles.scales ?? []
+        : undefined,
+  };
+
+  return `${THEME_SHARE_VERSION}.${compressToEncodedURIComponent(
+    JSON.stringify(payload)
+  )}`;
+};
+
+/**
+ * 把分享字符串还原为主题
+ *
+ * @param encoded 分享字符串
+ * @returns 还原出的主题，如果字符串无效或版本不受支持则返回null
+ */
+export const decodeThemeShare = (encoded: string): SharedTheme | null => {
+  const separatorIndex = encoded.indexOf(".");
+  if (separatorIndex === -1) return null;
+
+  const version = Number(encoded.slice(0, separatorIndex));
+  if (version !== THEME_SHARE_VERSION) return null;
+
+  try {
+    const json = decompressFromEncodedURIComponent(
+      encoded.slice(separatorIndex + 1)
+    );
+    if (!json) return null;
+
+    const payload = JSON.parse(json) as ThemeSharePayload;
+    const preset = getBasePreset(payload.p);
+    const base = getPresetThemeStyles(preset ?? "default");
+
+    return {
+      preset,
+      styles: {
+        light: { ...base.light, ...payload.l },
+        dark: { ...base.dark, ...payload.d },
+        customVariables: payload.c ?? base.customVariables,
+        modes: payload.m ?? base.modes,
+        scales: payload.s ?? base.scales,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to decode shared theme:", error);
+    return null;
+  }
+};
+
+/**
+ * 生成完整的分享链接
+ *
+ * @param themeState 当前编辑器中的主题状态
+ * @param baseUrl 编辑器页面的地址
+ * @returns 带有分享参数的完整URL
+ */
+export const getThemeShareUrl = (
+  themeState: ThemeEditorState,
+  baseUrl: string
+): string => {
+  const url = new URL(baseUrl);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(THEME_SHARE_PARAM, encodeThemeShare(themeState));
+  return url.toString();
+};
@@ -6,22 +6,97 @@
  * 
  * 它的主要功能是：
  * 1. 根据用户在编辑器中设置的主题值，生成对应的CSS变量
- * 2. 支持明亮模式(light)和暗黑模式(dark)的主题切换
+ * 2. 支持明亮模式(light)和暗黑模式(dark)的主题切换，暗黑模式可以用类名、
+ *    data属性、自定义选择器或媒体查询切换
  * 3. 处理颜色、字体、圆角、阴影等多种设计元素
  * 4. 支持不同颜色格式(如HSL, RGB, HEX)的输出
  * 5. 兼容Tailwind CSS v3和v4的不同格式要求
+ * 6. 为Tailwind v4生成可以直接使用的完整 globals.css 文件
+ * 7. 为每个命名模式(如 dim、high-contrast)生成使用各自选择器的变量块
+ * 8. 可选地为超出sRGB的颜色生成广色域覆盖：基础变量使用映射到sRGB内的颜色，
+ *    支持Display P3的浏览器或屏幕再用 @supports / @media 覆盖为原来的颜色
+ * 9. 为开启了色阶的颜色(如 primary)生成 --primary-50 到 --primary-950
  * 
  * 这个文件是主题定制系统的核心，它把用户在界面上的操作转换为实际可用的CSS代码。
  */
 
-import { ThemeEditorState, ThemeStyles } from "@/types/theme";
+import { ThemeEditorState, ThemeModeName, ThemeStyles } from "@/types/theme";
 import { colorFormatter } from "./color-converter";
-import { ColorFormat } from "../types";
+import {
+  ColorFormat,
+  ColorFormatOptions,
+  DarkModeOptions,
+  GamutFallback,
+} from "../types";
 import { getShadowMap } from "./shadows";
-import { defaultLightThemeStyles } from "@/config/theme";
+import { COMMON_STYLES, defaultLightThemeStyles } from "@/config/theme";
+import { getColorGamut, mapToGamut } from "./oklch";
+import {
+  formatCustomVariableValue,
+  getCustomVariables,
+} from "./custom-variables";
+import {
+  getModeNames,
+  getModeScheme,
+  getModeStyles,
+  getNamedModeSelector,
+  getNamedModes,
+} from "./theme-modes";
+import {
+  COLOR_SCALE_STEPS,
+  getColorScaleVariableName,
+  getColorScaleVariables,
+  getColorScales,
+} from "./color-scales";
 
-// 主题模式类型：明亮或暗黑
-type ThemeMode = "light" | "dark";
+// 默认使用 .dark 类名切换暗黑模式
+const DEFAULT_DARK_MODE: DarkModeOptions = { strategy: "class" };
+
+// 媒体查询切换暗黑模式时使用的条件
+const DARK_MEDIA_QUERY = "@media (prefers-color-scheme: dark)";
+
+// 广色域覆盖的生效条件：浏览器支持 display-p3，或者屏幕能显示P3色域
+const GAMUT_FALLBACK_CONDITIONS: Record<Exclude<GamutFallback, "none">, string> = {
+  supports: "@supports (color: color(display-p3 0 0 0))",
+  media: "@media (color-gamut: p3)",
+};
+
+// 能够表示超出sRGB的颜色的格式，其他格式的广色域覆盖使用 display-p3
+const WIDE_GAMUT_FORMATS: ColorFormat[] = ["oklch", "lab", "lch", "p3"];
+
+/**
+ * 获取切换到暗黑模式的选择器
+ * 
+ * 媒体查询方式没有选择器，"媒体查询+类名"方式用 .dark 类名强制切换到暗黑模式。
+ * 
+ * @param darkMode 暗黑模式的切换方式
+ * @returns 暗黑模式的选择器
+ */
+export const getDarkModeSelector = ({
+  strategy,
+  selector,
+}: DarkModeOptions): string => {
+  switch (strategy) {
+    case "data-attribute":
+      return '[data-theme="dark"]';
+    case "custom":
+      return selector?.trim() || ".dark";
+    default:
+      return ".dark";
+  }
+};
+
+/**
+ * 给代码块的每一行增加一级缩进
+ * 
+ * @param code 代码块
+ * @returns 缩进后的代码块
+ */
+const indent = (code: string): string =>
+  code
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n");
 
 /**
  * 生成颜色相关的CSS变量
@@ -38,10 +113,10 @@ type ThemeMode = "light" | "dark";
  */
 const generateColorVariables = (
   themeStyles: ThemeStyles,
-  mode: ThemeMode,
+  mode: ThemeModeName,
   formatColor: (color: string) => string
 ): string => {
-  const styles = themeStyles[mode];
+  const styles = getModeStyles(themeStyles, mode);
   return `
   --background: ${formatColor(styles.background)};
   --foreground: ${formatColor(styles.foreground)};
@@ -59,6 +134,12 @@ const generateColorVariables = (
   --accent-foreground: ${formatColor(styles["accent-foreground"])};
   --destructive: ${formatColor(styles.destructive)};
   --destructive-foreground: ${formatColor(styles["destructive-foreground"])};
+  --success: ${formatColor(styles.success)};
+  --success-foreground: ${formatColor(styles["success-foreground"])};
+  --warning: ${formatColor(styles.warning)};
+  --warning-foreground: ${formatColor(styles["warning-foreground"])};
+  --info: ${formatColor(styles.info)};
+  --info-foreground: ${formatColor(styles["info-foreground"])};
   --border: ${formatColor(styles.border)};
   --input: ${formatColor(styles.input)};
   --ring: ${formatColor(styles.ring)};
@@ -93,9 +174,9 @@ const generateColorVariables = (
  */
 const generateFontVariables = (
   themeStyles: ThemeStyles,
-  mode: ThemeMode
+  mode: ThemeModeName
 ): string => {
-  const styles = themeStyles[mode];
+  const styles = getModeStyles(themeStyles, mode);
   return `
   --font-sans: ${styles["font-sans"]};
   --font-serif: ${styles["font-serif"]};
@@ -149,28 +230,93 @@ const generateTrackingVariables = (themeStyles: ThemeStyles): string => {
   --tracking-widest: calc(var(--tracking-normal) + 0.1em);`;
 };
 
+/**
+ * 生成用户自定义的CSS变量
+ * 
+ * 除了内置的主题属性，用户还可以声明任意的额外变量(如 --surface-2)。
+ * 颜色类型的变量会和内置颜色一样按选择的颜色格式输出，其他类型原样输出。
+ * 
+ * @param themeStyles 主题样式对象
+ * @param mode 主题模式，命名模式使用它继承的亮色或暗色的值
+ * @param formatColor 颜色格式化函数
+ * @returns 自定义变量CSS字符串，没有自定义变量时返回空字符串
+ */
+const generateCustomVariables = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  formatColor: (color: string) => string
+): string => {
+  const variables = getCustomVariables(themeStyles);
+  if (variables.length === 0) {
+    return "";
+  }
+  return (
+    "\n" +
+    variables
+      .map(
+        (variable) =>
+          `\n  --${variable.name}: ${formatCustomVariableValue(
+            variable,
+            getModeScheme(themeStyles, mode),
+            formatColor
+          )};`
+      )
+      .join("")
+  );
+};
+
+/**
+ * 生成色阶变量
+ *
+ * 开启了色阶的颜色属性会输出11级颜色(如 --primary-50 到 --primary-950)，
+ * 每一级都按选择的颜色格式输出。
+ *
+ * @param themeStyles 主题样式对象
+ * @param mode 主题模式，每个模式的色阶来自该模式的颜色
+ * @param formatColor 颜色格式化函数
+ * @returns 色阶变量CSS字符串，没有开启色阶时返回空字符串
+ */
+const generateColorScaleVariables = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  formatColor: (color: string) => string
+): string => {
+  const variables = getColorScaleVariables(themeStyles, mode);
+  if (variables.length === 0) {
+    return "";
+  }
+  return (
+    "\n" +
+    variables
+      .map(([name, value]) => `\n  --${name}: ${formatColor(value)};`)
+      .join("")
+  );
+};
+
 /**
  * 生成完整的主题变量集合
  * 
  * 这个函数整合了所有类型的CSS变量（颜色、字体、圆角、阴影等），
- * 并根据主题模式(light/dark)生成相应的CSS选择器和变量。
+ * 并根据主题模式(light/dark/命名模式)生成相应的CSS选择器和变量。
  * 
  * 它就像是把所有的设计元素组合在一起，形成完整的"装修方案"。
  * 
  * @param themeStyles 主题样式对象
  * @param mode 主题模式
  * @param formatColor 颜色格式化函数
+ * @param darkMode 暗黑模式的切换方式
  * @returns 完整的CSS变量集合字符串
  */
 const generateThemeVariables = (
   themeStyles: ThemeStyles,
-  mode: ThemeMode,
-  formatColor: (color: string) => string
+  mode: ThemeModeName,
+  formatColor: (color: string) => string,
+  darkMode: DarkModeOptions = DEFAULT_DARK_MODE
 ): string => {
-  const selector = mode === "dark" ? ".dark" : ":root";
   const colorVars = generateColorVariables(themeStyles, mode, formatColor);
+  const scaleVars = generateColorScaleVariables(themeStyles, mode, formatColor);
   const fontVars = generateFontVariables(themeStyles, mode);
-  const radiusVar = `\n  --radius: ${themeStyles[mode].radius};`;
+  const radiusVar = `\n  --radius: ${getModeStyles(themeStyles, mode).radius};`;
   const shadowVars = generateShadowVariables(
     getShadowMap({ styles: themeStyles, currentMode: mode })
   );
@@ -186,18 +332,233 @@ const generateThemeVariables = (
       defaultLightThemeStyles["letter-spacing"]
       ? `\n  --tracking-normal: ${themeStyles["light"]["letter-spacing"]};`
       : "";
+  const customVars = generateCustomVariables(themeStyles, mode, formatColor);
 
-  return (
-    selector +
-    " {" +
+  return wrapModeVariables(
+    themeStyles,
+    mode,
     colorVars +
-    fontVars +
-    radiusVar +
-    shadowVars +
-    trackingVars +
-    spacingVar +
-    "\n}"
+      scaleVars +
+      fontVars +
+      radiusVar +
+      shadowVars +
+      trackingVars +
+      spacingVar +
+      customVars,
+    darkMode
+  );
+};
+
+/**
+ * 把变量声明放进模式对应的选择器中
+ *
+ * 明亮模式使用 :root，命名模式使用自己的选择器，
+ * 暗黑模式按切换方式使用选择器、媒体查询或两者都用。
+ *
+ * @param themeStyles 主题样式对象
+ * @param mode 主题模式
+ * @param declarations 变量声明，每个声明以换行和两个空格开头
+ * @param darkMode 暗黑模式的切换方式
+ * @returns CSS代码块
+ */
+const wrapModeVariables = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName,
+  declarations: string,
+  darkMode: DarkModeOptions = DEFAULT_DARK_MODE
+): string => {
+  const block = (selector: string) => `${selector} {${declarations}\n}`;
+
+  if (mode === "light") {
+    return block(":root");
+  }
+
+  // 命名模式使用自己的选择器，写在亮色和暗色之后以覆盖它们
+  const namedMode = getNamedModes(themeStyles).find(
+    (item) => item.name === mode
   );
+  if (namedMode) {
+    return block(getNamedModeSelector(namedMode));
+  }
+
+  switch (darkMode.strategy) {
+    // 只跟随系统设置，暗黑变量写在媒体查询里的 :root 中
+    case "media":
+      return `${DARK_MEDIA_QUERY} {\n${indent(block(":root"))}\n}`;
+    // 默认跟随系统设置，.light 类名强制明亮模式，.dark 类名强制暗黑模式
+    case "media-class":
+      return `${DARK_MEDIA_QUERY} {\n${indent(
+        block(":root:not(.light)")
+      )}\n}\n\n${block(getDarkModeSelector(darkMode))}`;
+    default:
+      return block(getDarkModeSelector(darkMode));
+  }
+};
+
+/**
+ * 生成所有命名模式的变量块
+ * 
+ * 每个命名模式都输出完整的变量，而不只是与基础模式不同的部分，
+ * 这样无论它的选择器放在哪个元素上都能独立生效。
+ * 
+ * @param themeStyles 主题样式对象
+ * @param formatColor 颜色格式化函数
+ * @returns 命名模式的CSS字符串，没有命名模式时返回空字符串
+ */
+const generateNamedModeVariables = (
+  themeStyles: ThemeStyles,
+  formatColor: (color: string) => string
+): string =>
+  getNamedModes(themeStyles)
+    .map(
+      (mode) =>
+        `\n\n${generateThemeVariables(themeStyles, mode.name, formatColor)}`
+    )
+    .join("");
+
+/**
+ * 创建颜色格式化函数
+ * 开启广色域覆盖时，基础变量使用映射到sRGB色域内的颜色，这样不支持P3的屏幕也能显示相近的颜色
+ *
+ * @param colorFormat 颜色格式
+ * @param tailwindVersion Tailwind CSS版本
+ * @param gamutFallback 广色域覆盖方式
+ * @param colorOptions 小数位数和无损模式
+ * @returns 颜色格式化函数
+ */
+const createColorFormatter =
+  (
+    colorFormat: ColorFormat,
+    tailwindVersion: "3" | "4",
+    gamutFallback: GamutFallback,
+    colorOptions: ColorFormatOptions
+  ) =>
+  (color: string): string =>
+    colorFormatter(
+      gamutFallback === "none" ? color : mapToGamut(color, "rgb"),
+      colorFormat,
+      tailwindVersion,
+      colorOptions
+    );
+
+/**
+ * 获取模式中所有颜色变量的原始值(内置颜色、色阶和颜色类型的自定义变量)
+ */
+const getColorValues = (
+  themeStyles: ThemeStyles,
+  mode: ThemeModeName
+): [string, string][] => {
+  const scheme = getModeScheme(themeStyles, mode);
+  return [
+    // 阴影颜色只用于生成 --shadow-*，不会作为变量输出
+    ...Object.entries(getModeStyles(themeStyles, mode)).filter(
+      ([name]) => !COMMON_STYLES.includes(name) && name !== "shadow-color"
+    ),
+    ...getColorScaleVariables(themeStyles, mode),
+    ...getCustomVariables(themeStyles)
+      .filter((variable) => variable.type === "color")
+      .map((variable): [string, string] => [variable.name, variable[scheme]]),
+  ];
+};
+
+/**
+ * 生成广色域覆盖
+ *
+ * 只包含在某个模式中超出sRGB的颜色变量，使用能表示广色域的格式输出原来的颜色
+ * (超出Display P3的颜色映射到P3内)，并放在 @supports 或 @media 条件中，
+ * 覆盖前面映射到sRGB内的值。
+ * Tailwind v3 的HSL格式只输出通道值，无法表示广色域，所以不生成覆盖。
+ *
+ * @param themeStyles 主题样式对象
+ * @param colorFormat 颜色格式
+ * @param tailwindVersion Tailwind CSS版本
+ * @param darkMode 暗黑模式的切换方式
+ * @param gamutFallback 广色域覆盖方式
+ * @param colorOptions 小数位数和无损模式
+ * @returns 覆盖的CSS代码，没有超出sRGB的颜色时返回空字符串
+ */
+const generateWideGamutOverrides = (
+  themeStyles: ThemeStyles,
+  colorFormat: ColorFormat,
+  tailwindVersion: "3" | "4",
+  darkMode: DarkModeOptions,
+  gamutFallback: GamutFallback,
+  colorOptions: ColorFormatOptions
+): string => {
+  if (
+    gamutFallback === "none" ||
+    (tailwindVersion === "3" && colorFormat === "hsl")
+  ) {
+    return "";
+  }
+
+  const format = WIDE_GAMUT_FORMATS.includes(colorFormat) ? colorFormat : "p3";
+  // 小数位数是为选择的格式设置的，改用P3输出时使用P3的默认位数
+  const options =
+    format === colorFormat ? colorOptions : { lossless: colorOptions.lossless };
+  const modes = getModeNames(themeStyles);
+  const isWideGamut = (value: string) => {
+    const gamut = getColorGamut(value);
+    return gamut !== null && gamut !== "srgb";
+  };
+  // 覆盖中的 :root 规则在暗黑模式下同样生效，所以某个模式中超出sRGB的变量在每个模式中都要重新声明
+  const wideGamutNames = new Set(
+    modes.flatMap((mode) =>
+      getColorValues(themeStyles, mode)
+        .filter(([, value]) => isWideGamut(value))
+        .map(([name]) => name)
+    )
+  );
+  const blocks = modes.flatMap((mode) => {
+    const declarations = getColorValues(themeStyles, mode)
+      .filter(([name]) => wideGamutNames.has(name))
+      .map(
+        ([name, value]) =>
+          `\n  --${name}: ${colorFormatter(mapToGamut(value, "p3"), format, "4", options)};`
+      )
+      .join("");
+    return declarations
+      ? [wrapModeVariables(themeStyles, mode, declarations, darkMode)]
+      : [];
+  });
+
+  if (blocks.length === 0) return "";
+  return `\n\n${GAMUT_FALLBACK_CONDITIONS[gamutFallback]} {\n${indent(
+    blocks.join("\n\n")
+  )}\n}`;
+};
+
+/**
+ * 生成自定义颜色变量在Tailwind v4中的映射
+ * 
+ * 只有颜色类型的自定义变量才会映射为 --color-*，
+ * 这样就可以直接使用 bg-surface-2 这样的工具类。
+ * 
+ * @param themeStyles 主题样式对象
+ * @returns 映射代码字符串，没有颜色类型的自定义变量时返回空字符串
+ */
+const generateCustomColorMappings = (themeStyles: ThemeStyles): string => {
+  return getCustomVariables(themeStyles)
+    .filter((variable) => variable.type === "color")
+    .map((variable) => `\n  --color-${variable.name}: var(--${variable.name});`)
+    .join("");
+};
+
+/**
+ * 生成色阶在Tailwind v4中的映射
+ *
+ * 这样就可以使用 bg-primary-50、text-primary-900 这样的工具类。
+ *
+ * @param themeStyles 主题样式对象
+ * @returns 映射代码字符串，没有开启色阶时返回空字符串
+ */
+const generateColorScaleMappings = (themeStyles: ThemeStyles): string => {
+  return getColorScales(themeStyles)
+    .flatMap((token) =>
+      COLOR_SCALE_STEPS.map((step) => getColorScaleVariableName(token, step))
+    )
+    .map((name) => `\n  --color-${name}: var(--${name});`)
+    .join("");
 };
 
 /**
@@ -230,6 +591,12 @@ const generateTailwindV4ThemeInline = (themeStyles: ThemeStyles): string => {
   --color-accent-foreground: var(--accent-foreground);
   --color-destructive: var(--destructive);
   --color-destructive-foreground: var(--destructive-foreground);
+  --color-success: var(--success);
+  --color-success-foreground: var(--success-foreground);
+  --color-warning: var(--warning);
+  --color-warning-foreground: var(--warning-foreground);
+  --color-info: var(--info);
+  --color-info-foreground: var(--info-foreground);
   --color-border: var(--border);
   --color-input: var(--input);
   --color-ring: var(--ring);
@@ -245,7 +612,7 @@ const generateTailwindV4ThemeInline = (themeStyles: ThemeStyles): string => {
   --color-sidebar-accent: var(--sidebar-accent);
   --color-sidebar-accent-foreground: var(--sidebar-accent-foreground);
   --color-sidebar-border: var(--sidebar-border);
-  --color-sidebar-ring: var(--sidebar-ring);
+  --color-sidebar-ring: var(--sidebar-ring);${generateColorScaleMappings(themeStyles)}${generateCustomColorMappings(themeStyles)}
 
   --font-sans: var(--font-sans);
   --font-mono: var(--font-mono);
@@ -267,6 +634,26 @@ const generateTailwindV4ThemeInline = (themeStyles: ThemeStyles): string => {
 }`;
 };
 
+/**
+ * 检查编辑器状态中是否同时包含明亮和暗黑模式的样式
+ * 
+ * @param themeEditorState 编辑器中的主题状态
+ * @returns 完整的主题样式
+ */
+const getValidatedThemeStyles = (
+  themeEditorState: ThemeEditorState
+): ThemeStyles => {
+  if (
+    !themeEditorState ||
+    !("light" in themeEditorState.styles) ||
+    !("dark" in themeEditorState.styles)
+  ) {
+    throw new Error("Invalid theme styles: missing light or dark mode");
+  }
+
+  return themeEditorState.styles as ThemeStyles;
+};
+
 /**
  * 生成完整的主题CSS代码
  * 
@@ -278,31 +665,53 @@ const generateTailwindV4ThemeInline = (themeStyles: ThemeStyles): string => {
  * 2. 生成明亮模式和暗黑模式的CSS变量
  * 3. 根据需要添加Tailwind v4兼容代码
  * 4. 添加全局字母间距设置（如果有自定义值）
+ * 5. 按需为超出sRGB的颜色添加广色域覆盖
  * 
  * @param themeEditorState 编辑器中的主题状态
  * @param colorFormat 颜色格式（默认HSL）
  * @param tailwindVersion Tailwind CSS版本（3或4）
+ * @param darkMode 暗黑模式的切换方式（默认 .dark 类名）
+ * @param gamutFallback 广色域覆盖方式（默认不生成）
+ * @param colorOptions 小数位数和无损模式（默认使用各格式的默认位数）
  * @returns 完整的CSS主题代码字符串
  */
 export const generateThemeCode = (
   themeEditorState: ThemeEditorState,
   colorFormat: ColorFormat = "hsl",
-  tailwindVersion: "3" | "4" = "3"
+  tailwindVersion: "3" | "4" = "3",
+  darkMode: DarkModeOptions = DEFAULT_DARK_MODE,
+  gamutFallback: GamutFallback = "none",
+  colorOptions: ColorFormatOptions = {}
 ): string => {
-  if (
-    !themeEditorState ||
-    !("light" in themeEditorState.styles) ||
-    !("dark" in themeEditorState.styles)
-  ) {
-    throw new Error("Invalid theme styles: missing light or dark mode");
-  }
-
-  const themeStyles = themeEditorState.styles as ThemeStyles;
-  const formatColor = (color: string) =>
-    colorFormatter(color, colorFormat, tailwindVersion);
+  const themeStyles = getValidatedThemeStyles(themeEditorState);
+  const formatColor = createColorFormatter(
+    colorFormat,
+    tailwindVersion,
+    gamutFallback,
+    colorOptions
+  );
 
-  const lightTheme = generateThemeVariables(themeStyles, "light", formatColor);
-  const darkTheme = generateThemeVariables(themeStyles, "dark", formatColor);
+  const lightTheme = generateThemeVariables(
+    themeStyles,
+    "light",
+    formatColor,
+    darkMode
+  );
+  const darkTheme = generateThemeVariables(
+    themeStyles,
+    "dark",
+    formatColor,
+    darkMode
+  );
+  const namedModes = generateNamedModeVariables(themeStyles, formatColor);
+  const wideGamutOverrides = generateWideGamutOverrides(
+    themeStyles,
+    colorFormat,
+    tailwindVersion,
+    darkMode,
+    gamutFallback,
+    colorOptions
+  );
   const tailwindV4Theme =
     tailwindVersion === "4"
       ? `\n\n${generateTailwindV4ThemeInline(themeStyles)}`
@@ -313,5 +722,132 @@ export const generateThemeCode = (
       ? "\n\nbody {\n  letter-spacing: var(--tracking-normal);\n}"
       : "";
 
-  return `${lightTheme}\n\n${darkTheme}${tailwindV4Theme}${bodyLetterSpacing}`;
+  return `${lightTheme}\n\n${darkTheme}${namedModes}${wideGamutOverrides}${tailwindV4Theme}${bodyLetterSpacing}`;
+};
+
+/**
+ * 生成 @custom-variant 规则，让 dark: 前缀跟随选择的切换方式
+ * 
+ * Tailwind v4 默认的 dark: 前缀就是基于媒体查询的，
+ * 所以媒体查询方式不需要额外声明；"媒体查询+类名"方式需要同时匹配两种情况。
+ * 
+ * @param darkMode 暗黑模式的切换方式
+ * @returns @custom-variant 规则，不需要时返回空字符串
+ */
+const generateDarkVariant = (darkMode: DarkModeOptions): string => {
+  const selector = getDarkModeSelector(darkMode);
+
+  switch (darkMode.strategy) {
+    case "media":
+      return "";
+    case "media-class":
+      return `\n\n@custom-variant dark {
+  ${DARK_MEDIA_QUERY} {
+    &:not(.light *) {
+      @slot;
+    }
+  }
+  &:is(${selector} *) {
+    @slot;
+  }
+}`;
+    default:
+      return `\n\n@custom-variant dark (&:is(${selector} *));`;
+  }
+};
+
+/**
+ * 为每个命名模式生成 @custom-variant 规则，这样就可以使用 dim: 这样的前缀
+ * 
+ * @param themeStyles 主题样式对象
+ * @returns @custom-variant 规则，没有命名模式时返回空字符串
+ */
+const generateNamedModeVariants = (themeStyles: ThemeStyles): string => {
+  const variants = getNamedModes(themeStyles).map(
+    (mode) =>
+      `@custom-variant ${mode.name} (&:is(${getNamedModeSelector(mode)} *));`
+  );
+  return variants.length > 0 ? `\n\n${variants.join("\n")}` : "";
+};
+
+/**
+ * 生成Tailwind CSS v4的完整 globals.css 文件
+ * 
+ * generateThemeCode 生成的只是主题变量片段，用户还需要自己补上
+ * Tailwind和动画插件的导入、dark 变体的声明以及基础样式，而且很容易写错。
+ * 这个函数生成与最新 shadcn CLI 初始化的项目一致的完整文件，可以直接替换原文件：
+ * 1. 导入 tailwindcss 和 tw-animate-css
+ * 2. 按暗黑模式的切换方式声明 dark 变体，并为每个命名模式声明变体
+ * 3. 明亮、暗黑和命名模式的主题变量，以及 @theme inline 映射
+ * 4. @layer base 中的边框、轮廓和页面背景等基础样式
+ * 
+ * @param themeEditorState 编辑器中的主题状态
+ * @param colorFormat 颜色格式（默认OKLCH）
+ * @param darkMode 暗黑模式的切换方式（默认 .dark 类名）
+ * @param gamutFallback 广色域覆盖方式（默认不生成）
+ * @param colorOptions 小数位数和无损模式（默认使用各格式的默认位数）
+ * @returns 完整的 globals.css 代码
+ */
+export const generateGlobalsCss = (
+  themeEditorState: ThemeEditorState,
+  colorFormat: ColorFormat = "oklch",
+  darkMode: DarkModeOptions = DEFAULT_DARK_MODE,
+  gamutFallback: GamutFallback = "none",
+  colorOptions: ColorFormatOptions = {}
+): string => {
+  const themeStyles = getValidatedThemeStyles(themeEditorState);
+  const formatColor = createColorFormatter(
+    colorFormat,
+    "4",
+    gamutFallback,
+    colorOptions
+  );
+
+  const lightTheme = generateThemeVariables(
+    themeStyles,
+    "light",
+    formatColor,
+    darkMode
+  );
+  const darkTheme = generateThemeVariables(
+    themeStyles,
+    "dark",
+    formatColor,
+    darkMode
+  );
+
+  const namedModes = generateNamedModeVariables(themeStyles, formatColor);
+  const wideGamutOverrides = generateWideGamutOverrides(
+    themeStyles,
+    colorFormat,
+    "4",
+    darkMode,
+    gamutFallback,
+    colorOptions
+  );
+
+  // 自定义字母间距放在基础样式的 body 规则中
+  const bodyLetterSpacing =
+    themeStyles["light"]["letter-spacing"] !== "0em"
+      ? "\n    letter-spacing: var(--tracking-normal);"
+      : "";
+
+  return `@import "tailwindcss";
+@import "tw-animate-css";${generateDarkVariant(darkMode)}${generateNamedModeVariants(themeStyles)}
+
+${lightTheme}
+
+${darkTheme}${namedModes}${wideGamutOverrides}
+
+${generateTailwindV4ThemeInline(themeStyles)}
+
+@layer base {
+  * {
+    @apply border-border outline-ring/50;
+  }
+  body {
+    @apply bg-background text-foreground;${bodyLetterSpacing}
+  }
+}
+`;
 };